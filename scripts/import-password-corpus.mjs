@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+/**
+ * Load breached-password hashes and dictionary words into the tables read by
+ * the validate-password and update-password edge functions.
+ *
+ * Usage:
+ *   npm run import:password-corpus -- --hashes <file> [--hashes <file> ...]
+ *   npm run import:password-corpus -- --passwords <file>
+ *   npm run import:password-corpus -- --words <file>
+ *
+ * --hashes     Pwned Passwords style lines. Either "SHA1:COUNT" with the full
+ *              40-character hash, or "SUFFIX:COUNT" range files named after
+ *              their 5-character prefix (e.g. 5BAA6.txt).
+ * --passwords  Plain-text passwords, one per line; hashed locally.
+ * --words      Dictionary words, one per line; stored lower-cased.
+ *
+ * Requires SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY.
+ * Only the Supabase instance is contacted, so it runs in offline environments.
+ */
+import { createReadStream } from 'node:fs'
+import { basename, extname } from 'node:path'
+import { createHash } from 'node:crypto'
+import { createInterface } from 'node:readline'
+import { createClient } from '@supabase/supabase-js'
+
+const BATCH_SIZE = 1000
+const MIN_WORD_LENGTH = 3
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY')
+  process.exit(1)
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false }
+})
+
+function parseArgs(argv) {
+  const sources = []
+  for (let i = 0; i < argv.length; i += 2) {
+    const kind = argv[i]?.replace(/^--/, '')
+    const file = argv[i + 1]
+    if (!['hashes', 'passwords', 'words'].includes(kind) || !file) {
+      console.error(`Unexpected argument: ${argv[i]}`)
+      console.error('Usage: import-password-corpus (--hashes|--passwords|--words) <file> ...')
+      process.exit(1)
+    }
+    sources.push({ kind, file })
+  }
+  if (sources.length === 0) {
+    console.error('Usage: import-password-corpus (--hashes|--passwords|--words) <file> ...')
+    process.exit(1)
+  }
+  return sources
+}
+
+// Turn one input line into a row for the target table, or null to skip it
+function toRow(kind, line, rangePrefix) {
+  if (kind === 'words') {
+    const word = line.trim().toLowerCase()
+    return word.length >= MIN_WORD_LENGTH ? { word } : null
+  }
+
+  if (kind === 'passwords') {
+    if (!line) return null
+    const hash = createHash('sha1').update(line, 'utf8').digest('hex').toUpperCase()
+    return { prefix: hash.slice(0, 5), suffix: hash.slice(5), occurrences: 1 }
+  }
+
+  const [rawHash, rawCount] = line.trim().split(':')
+  const hash = rawHash?.toUpperCase() || ''
+  const occurrences = Number.parseInt(rawCount, 10) || 1
+
+  if (/^[0-9A-F]{40}$/.test(hash)) {
+    return { prefix: hash.slice(0, 5), suffix: hash.slice(5), occurrences }
+  }
+  if (rangePrefix && /^[0-9A-F]{35}$/.test(hash)) {
+    return { prefix: rangePrefix, suffix: hash, occurrences }
+  }
+  return null
+}
+
+async function flush(kind, rows) {
+  if (rows.length === 0) return
+  const { error } = kind === 'words'
+    ? await supabase.from('password_dictionary_words').upsert(rows, { onConflict: 'word', ignoreDuplicates: true })
+    : await supabase.from('breached_password_hashes').upsert(rows, { onConflict: 'prefix,suffix' })
+  if (error) throw error
+}
+
+async function importFile({ kind, file }) {
+  const name = basename(file, extname(file)).toUpperCase()
+  const rangePrefix = /^[0-9A-F]{5}$/.test(name) ? name : null
+
+  const lines = createInterface({ input: createReadStream(file, 'utf8'), crlfDelay: Infinity })
+  // Keyed so duplicates within a batch do not make the upsert fail
+  let batch = new Map()
+  let imported = 0
+  let skipped = 0
+
+  for await (const line of lines) {
+    const row = toRow(kind, line, rangePrefix)
+    if (!row) {
+      skipped++
+      continue
+    }
+    batch.set(row.word ?? `${row.prefix}${row.suffix}`, row)
+    if (batch.size >= BATCH_SIZE) {
+      await flush(kind, [...batch.values()])
+      imported += batch.size
+      batch = new Map()
+      process.stdout.write(`\r${file}: ${imported} rows`)
+    }
+  }
+
+  await flush(kind, [...batch.values()])
+  imported += batch.size
+  console.log(`\r${file}: ${imported} rows imported, ${skipped} lines skipped`)
+}
+
+for (const source of parseArgs(process.argv.slice(2))) {
+  try {
+    await importFile(source)
+  } catch (error) {
+    console.error(`\nFailed to import ${source.file}:`, error.message || error)
+    process.exit(1)
+  }
+}
@@ -1,21 +1,28 @@
 import React, { Suspense } from 'react'
-import { createBrowserRouter, RouterProvider, Navigate } from 'react-router-dom'
+import { createBrowserRouter, RouterProvider, Navigate, type LoaderFunctionArgs } from 'react-router-dom'
 import { queryClient, queryKeys } from './lib/queryClient'
-import { dashboardApi, adminUsersApi, rolesApi, adminRolesApi, adminPermissionsApi } from './lib/dataFetching'
+import { dashboardApi, adminUsersApi, adminRolesApi, adminPermissionsApi, userListParamsFromSearch } from './lib/dataFetching'
 import { AuthProvider } from './contexts/AuthContext'
 import { ProtectedRoute } from './components/ProtectedRoute'
 import { Layout } from './components/Layout'
+import InactivityWarningModal from './components/InactivityWarningModal'
 import { LoginForm } from './components/LoginForm'
 import { ForgotPasswordPage } from './pages/ForgotPasswordPage'
 import { ResetPasswordPage } from './pages/ResetPasswordPage'
 import { ForcePasswordChangePage } from './pages/ForcePasswordChangePage'
+import { MfaChallengePage } from './pages/MfaChallengePage'
+import { MfaSetupPage } from './pages/MfaSetupPage'
 
 // Lazy load page components
 const Dashboard = React.lazy(() => import('./pages/Dashboard').then(module => ({ default: module.Dashboard })))
 const AdminDashboard = React.lazy(() => import('./pages/AdminDashboard').then(module => ({ default: module.AdminDashboard })))
 const AdminUsers = React.lazy(() => import('./pages/AdminUsers').then(module => ({ default: module.AdminUsers })))
 const AdminRoles = React.lazy(() => import('./pages/AdminRoles').then(module => ({ default: module.AdminRoles })))
+const AdminGroups = React.lazy(() => import('./pages/AdminGroups').then(module => ({ default: module.AdminGroups })))
 const AdminPermissions = React.lazy(() => import('./pages/AdminPermissions').then(module => ({ default: module.AdminPermissions })))
+const AdminAuditLog = React.lazy(() => import('./pages/AdminAuditLog').then(module => ({ default: module.AdminAuditLog })))
+const AdminSettings = React.lazy(() => import('./pages/AdminSettings').then(module => ({ default: module.AdminSettings })))
+const AdminAccessRequests = React.lazy(() => import('./pages/AdminAccessRequests').then(module => ({ default: module.AdminAccessRequests })))
 const ProfilePage = React.lazy(() => import('./pages/ProfilePage').then(module => ({ default: module.ProfilePage })))
 
 // Loading fallback components
@@ -55,28 +62,30 @@ const dashboardLoader = async () => {
     return { stats, activity }
   } catch (error) {
     console.error("[Loader] dashboardLoader error:", error)
-    return { stats: [], activity: [] }
+    return { stats: null, activity: [] }
   }
 }
 
-const adminUsersLoader = async () => {
+const adminUsersLoader = async ({ request }: LoaderFunctionArgs) => {
   console.log("[Loader] adminUsersLoader called")
   try {
+    const params = userListParamsFromSearch(new URL(request.url).searchParams)
     const [usersData, roles] = await Promise.all([
       queryClient.fetchQuery({
-        queryKey: queryKeys.adminUsers(),
-        queryFn: adminUsersApi.getUsers,
+        queryKey: queryKeys.adminUsers(params),
+        queryFn: () => adminUsersApi.getUsers(params),
       }),
+      // Scoped to the caller's organization, like the users themselves
       queryClient.fetchQuery({
-        queryKey: queryKeys.roles(),
-        queryFn: rolesApi.getRoles,
+        queryKey: queryKeys.adminRoles(),
+        queryFn: adminRolesApi.getRoles,
       }),
     ])
     console.log("[Loader] adminUsersLoader success")
-    return { users: usersData.users, roles }
+    return { usersData, roles }
   } catch (error) {
     console.error("[Loader] adminUsersLoader error:", error)
-    return { users: [], roles: [] }
+    return { usersData: null, roles: [] }
   }
 }
 
@@ -123,6 +132,8 @@ const router = createBrowserRouter([
   { path: '/forgot-password', element: <ForgotPasswordPage /> },
   { path: '/reset-password', element: <ResetPasswordPage /> },
   { path: '/force-password-change', element: <ForcePasswordChangePage /> },
+  { path: '/mfa-challenge', element: <MfaChallengePage /> },
+  { path: '/mfa-setup', element: <MfaSetupPage /> },
   {
     path: '/',
     element: (
@@ -148,7 +159,7 @@ const router = createBrowserRouter([
       {
         path: 'admin/dashboard',
         element: (
-          <ProtectedRoute requireAdmin>
+          <ProtectedRoute requireAdmin requireMfa>
             <Suspense fallback={<PageLoadingFallback />}>
               <AdminDashboard />
             </Suspense>
@@ -159,7 +170,7 @@ const router = createBrowserRouter([
       {
         path: 'admin/users',
         element: (
-          <ProtectedRoute requiredPermission={{ resource: 'users', action: 'manage' }}>
+          <ProtectedRoute requiredPermission={{ resource: 'users', action: 'manage' }} requireMfa>
             <Suspense fallback={<PageLoadingFallback />}>
               <AdminUsers />
             </Suspense>
@@ -171,7 +182,7 @@ const router = createBrowserRouter([
       {
         path: 'admin/roles',
         element: (
-          <ProtectedRoute requiredPermission={{ resource: 'roles', action: 'manage' }}>
+          <ProtectedRoute requiredPermission={{ resource: 'roles', action: 'manage' }} requireMfa>
             <Suspense fallback={<PageLoadingFallback />}>
               <AdminRoles />
             </Suspense>
@@ -180,10 +191,21 @@ const router = createBrowserRouter([
         loader: adminRolesLoader,
         hydrateFallbackElement: <PageLoadingFallback />,
       },
+      {
+        path: 'admin/groups',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'groups', action: 'read' }} requireMfa>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <AdminGroups />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
       {
         path: 'admin/permissions',
         element: (
-          <ProtectedRoute requiredPermission={{ resource: 'permissions', action: 'manage' }}>
+          <ProtectedRoute requiredPermission={{ resource: 'permissions', action: 'manage' }} requireMfa>
             <Suspense fallback={<PageLoadingFallback />}>
               <AdminPermissions />
             </Suspense>
@@ -192,6 +214,39 @@ const router = createBrowserRouter([
         loader: adminPermissionsLoader,
         hydrateFallbackElement: <PageLoadingFallback />,
       },
+      {
+        path: 'admin/audit',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'audit', action: 'read' }} requireMfa>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <AdminAuditLog />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'admin/settings',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'settings', action: 'manage' }} requireMfa>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <AdminSettings />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'admin/access-requests',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'access', action: 'approve' }} requireMfa>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <AdminAccessRequests />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
       {
         path: 'profile',
         element: (
@@ -271,6 +326,7 @@ function App() {
   return (
     <AuthProvider>
       <RouterProvider router={router} fallbackElement={<AppLoadingFallback />} />
+      <InactivityWarningModal />
     </AuthProvider>
   )
 }
@@ -0,0 +1,16 @@
+import type { AccessRequestStatus } from '../types/auth'
+
+const statusStyles: Record<AccessRequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-200 text-gray-800',
+}
+
+export default function AccessRequestStatusBadge({ status }: { status: AccessRequestStatus }) {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${statusStyles[status]}`}>
+      {status}
+    </span>
+  )
+}
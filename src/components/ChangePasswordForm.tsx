@@ -1,6 +1,7 @@
 // src/components/ChangePasswordForm.tsx
 import React, { useState } from 'react'
 import { useAuth } from '../contexts/AuthContext'
+import { isPasswordReuseError } from '../utils/validation'
 
 const ChangePasswordForm: React.FC = () => {
   const { changePassword, signOut, loading: authLoading } = useAuth()
@@ -41,6 +42,10 @@ const ChangePasswordForm: React.FC = () => {
       setConfirmPassword('')
     } catch (err: any) {
       setError(err.message || 'Failed to change password.')
+      if (isPasswordReuseError(err)) {
+        setNewPassword('')
+        setConfirmPassword('')
+      }
     } finally {
       setIsLoading(false)
     }
@@ -0,0 +1,73 @@
+import { useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { useAuth } from '../contexts/AuthContext'
+import { exportApi, ApiError } from '../lib/dataFetching'
+import { hasPermission } from '../utils/permissions'
+import type { ExportDataset, ExportFormat } from '../types/auth'
+import { Download } from 'lucide-react'
+
+interface ExportButtonProps {
+  dataset: ExportDataset
+  label?: string
+  onError: (message: string) => void
+}
+
+// Hands the downloaded file to the browser through a temporary object URL
+function saveFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+export default function ExportButton({ dataset, label = 'Export', onError }: ExportButtonProps) {
+  const { user } = useAuth()
+  const [open, setOpen] = useState(false)
+
+  const exportMutation = useMutation({
+    mutationFn: (format: ExportFormat) => exportApi.download(dataset, format),
+    onSuccess: ({ blob, filename }) => saveFile(blob, filename),
+    onError: (error) => {
+      onError(error instanceof ApiError ? error.message : 'Failed to export data')
+    },
+  })
+
+  if (!hasPermission(user, 'reports', 'export')) return null
+
+  const handleSelect = (format: ExportFormat) => {
+    setOpen(false)
+    exportMutation.mutate(format)
+  }
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(prev => !prev)}
+        disabled={exportMutation.isPending}
+        className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Download className="h-4 w-4 mr-2" />
+        {exportMutation.isPending ? 'Exporting...' : label}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-32 bg-white border border-gray-200 rounded-md shadow-lg z-10">
+          {(['csv', 'json'] as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => handleSelect(format)}
+              className="block w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100"
+            >
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
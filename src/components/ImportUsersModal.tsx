@@ -0,0 +1,231 @@
+import React, { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { adminUsersApi, ApiError } from '../lib/dataFetching'
+import { parseCsv } from '../utils/csv'
+import type { UserImportRow, UserImportReport, UserImportRowStatus } from '../types/auth'
+import { AlertCircle, Upload } from 'lucide-react'
+
+const REQUIRED_COLUMNS = ['email', 'full_name', 'roles']
+// Rows created per request, matching the server's limit
+const IMPORT_CHUNK_SIZE = 25
+
+// Header aliases accepted in the first CSV line
+const COLUMN_ALIASES: Record<string, string> = {
+  email: 'email',
+  full_name: 'full_name',
+  name: 'full_name',
+  roles: 'roles',
+  role: 'roles',
+  menu_access: 'menu_access',
+}
+
+const statusStyles: Record<UserImportRowStatus, string> = {
+  valid: 'bg-green-100 text-green-800',
+  created: 'bg-green-100 text-green-800',
+  invalid: 'bg-red-100 text-red-800',
+  failed: 'bg-red-100 text-red-800',
+}
+
+// Multi-value cells (roles, menu_access) are separated by semicolons or pipes
+const splitList = (value = '') => value.split(/[;|]/).map(item => item.trim()).filter(Boolean)
+
+function parseUserImportCsv(text: string): { rows: UserImportRow[] } | { error: string } {
+  const [header, ...lines] = parseCsv(text.replace(/^\uFEFF/, ''))
+  if (!header) return { error: 'The file is empty' }
+
+  const columns = header.map(name => COLUMN_ALIASES[name.trim().toLowerCase().replace(/\s+/g, '_')])
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column))
+  if (missing.length > 0) return { error: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` }
+  if (lines.length === 0) return { error: 'The file has no user rows' }
+
+  const rows = lines.map(cells => {
+    const value = (column: string) => cells[columns.indexOf(column)]?.trim() || ''
+    return {
+      email: value('email'),
+      full_name: value('full_name'),
+      roles: splitList(value('roles')),
+      menu_access: splitList(value('menu_access')),
+    }
+  })
+
+  return { rows }
+}
+
+const emptyImportReport = (dryRun: boolean): UserImportReport => ({
+  dry_run: dryRun,
+  summary: { total: 0, valid: 0, invalid: 0, created: 0, failed: 0 },
+  results: [],
+})
+
+const mergeImportReports = (report: UserImportReport, chunk: UserImportReport): UserImportReport => ({
+  dry_run: report.dry_run,
+  summary: {
+    total: report.summary.total + chunk.summary.total,
+    valid: report.summary.valid + chunk.summary.valid,
+    invalid: report.summary.invalid + chunk.summary.invalid,
+    created: report.summary.created + chunk.summary.created,
+    failed: report.summary.failed + chunk.summary.failed,
+  },
+  results: [...report.results, ...chunk.results],
+})
+
+export default function ImportUsersModal({ onClose }: { onClose: () => void }) {
+  const queryClient = useQueryClient()
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [rows, setRows] = useState<UserImportRow[]>([])
+  const [report, setReport] = useState<UserImportReport | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  // Rows sent so far while an import is being applied
+  const [progress, setProgress] = useState(0)
+
+  // Applying goes chunk by chunk; when a chunk fails, the report of the chunks before it is kept
+  const applyImport = async () => {
+    let applied = emptyImportReport(false)
+    setProgress(0)
+    for (let offset = 0; offset < rows.length; offset += IMPORT_CHUNK_SIZE) {
+      try {
+        const chunk = await adminUsersApi.importUsers(rows.slice(offset, offset + IMPORT_CHUNK_SIZE), false, offset)
+        applied = mergeImportReports(applied, chunk)
+        setProgress(Math.min(offset + IMPORT_CHUNK_SIZE, rows.length))
+      } catch (error) {
+        if (applied.results.length === 0) throw error
+        setReport(applied)
+        throw error instanceof ApiError
+          ? new ApiError(error.status, `${error.message}. Rows after row ${offset} were not imported.`, error.data)
+          : error
+      }
+    }
+    return applied
+  }
+
+  const importMutation = useMutation({
+    mutationFn: ({ dryRun }: { dryRun: boolean }) => dryRun ? adminUsersApi.importUsers(rows, true) : applyImport(),
+    onSuccess: (result) => {
+      setReport(result)
+    },
+    onError: (error) => {
+      setMessage(error instanceof ApiError ? error.message : 'Failed to import users')
+    },
+    onSettled: (_, __, { dryRun }) => {
+      if (!dryRun) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers() })
+      }
+    },
+  })
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    setReport(null)
+    setMessage(null)
+    setRows([])
+    setFileName(file?.name || null)
+    if (!file) return
+
+    const parsed = parseUserImportCsv(await file.text())
+    if ('error' in parsed) {
+      setMessage(parsed.error)
+      return
+    }
+    setRows(parsed.rows)
+  }
+
+  const committed = report && !report.dry_run
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-3xl shadow-lg rounded-md bg-white">
+        <div className="mt-3 space-y-4">
+          <h3 className="text-lg font-medium text-gray-900">Import Users from CSV</h3>
+          <p className="text-sm text-gray-600">
+            Columns: <span className="font-mono">email, full_name, roles, menu_access</span>. Separate multiple roles or
+            menus with <span className="font-mono">;</span>. Imported users receive a password reset email.
+          </p>
+
+          {message && (
+            <div className="p-4 rounded-md bg-red-50 border border-red-200 flex items-start">
+              <AlertCircle className="h-5 w-5 text-red-400 mt-0.5 mr-3 flex-shrink-0" />
+              <div className="text-sm text-red-700">{message}</div>
+            </div>
+          )}
+
+          {!committed && (
+            <label className="flex items-center justify-center px-4 py-6 border-2 border-dashed border-gray-300 rounded-md cursor-pointer hover:border-emerald-500">
+              <Upload className="h-5 w-5 text-gray-400 mr-2" />
+              <span className="text-sm text-gray-700">
+                {fileName ? `${fileName} — ${rows.length} row${rows.length === 1 ? '' : 's'}` : 'Choose a CSV file'}
+              </span>
+              <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="sr-only" />
+            </label>
+          )}
+
+          {report && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-700">
+                {report.dry_run
+                  ? `${report.summary.valid} of ${report.summary.total} rows are ready to import, ${report.summary.invalid} have errors.`
+                  : `${report.summary.created} users created, ${report.summary.failed} failed, ${report.summary.invalid} skipped.`}
+              </p>
+              <div className="max-h-72 overflow-y-auto border border-gray-200 rounded-md">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {report.results.map((result) => (
+                      <tr key={result.row}>
+                        <td className="px-4 py-2 text-sm text-gray-500">{result.row}</td>
+                        <td className="px-4 py-2 text-sm text-gray-900">{result.email || '—'}</td>
+                        <td className="px-4 py-2">
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusStyles[result.status]}`}>
+                            {result.status}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-sm text-red-700">{result.errors.join('; ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+            >
+              {committed ? 'Close' : 'Cancel'}
+            </button>
+            {!committed && (
+              <button
+                type="button"
+                onClick={() => importMutation.mutate({ dryRun: true })}
+                disabled={rows.length === 0 || importMutation.isPending}
+                className="px-4 py-2 text-sm font-medium text-emerald-700 bg-emerald-50 hover:bg-emerald-100 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Validate
+              </button>
+            )}
+            {report?.dry_run && (
+              <button
+                type="button"
+                onClick={() => importMutation.mutate({ dryRun: false })}
+                disabled={report.summary.valid === 0 || importMutation.isPending}
+                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {importMutation.isPending ? `Importing ${progress} of ${rows.length}...` : `Import ${report.summary.valid} user${report.summary.valid === 1 ? '' : 's'}`}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
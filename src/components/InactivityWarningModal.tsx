@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { Clock } from 'lucide-react'
+
+export default function InactivityWarningModal() {
+  const { inactivityDeadline, staySignedIn, signOut } = useAuth()
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!inactivityDeadline) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [inactivityDeadline])
+
+  if (!inactivityDeadline) return null
+
+  const secondsLeft = Math.max(0, Math.ceil((inactivityDeadline - now) / 1000))
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50" role="alertdialog" aria-modal="true">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-md shadow-lg rounded-md bg-white">
+        <div className="mt-3 space-y-4">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <Clock className="h-5 w-5 text-amber-500 mr-2" />
+            Are you still there?
+          </h3>
+          <p className="text-sm text-gray-600">
+            You will be signed out in <span className="font-medium text-gray-900">{secondsLeft}</span>{' '}
+            {secondsLeft === 1 ? 'second' : 'seconds'} because of inactivity.
+          </p>
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={() => signOut()}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+            >
+              Sign out now
+            </button>
+            <button
+              type="button"
+              onClick={staySignedIn}
+              autoFocus
+              className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md"
+            >
+              Stay signed in
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,13 +1,15 @@
 import React, { useState } from 'react'
 import { useNavigate, useLocation, Link } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
-import { Shield, Eye, EyeOff, AlertCircle } from 'lucide-react'
+import { ApiError } from '../lib/dataFetching'
+import { Shield, Eye, EyeOff, AlertCircle, Lock } from 'lucide-react'
 
 export function LoginForm() {
   const [credentials, setCredentials] = useState({ email: '', password: '' })
   const [showPassword, setShowPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
-  const { signIn, error, user } = useAuth()
+  const [lockedUntil, setLockedUntil] = useState<string | null>(null)
+  const { signIn, error, user, mfaChallengeRequired } = useAuth()
   const navigate = useNavigate()
   const location = useLocation()
 
@@ -16,6 +18,7 @@ export function LoginForm() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
+    setLockedUntil(null)
 
     try {
       await signIn(credentials.email, credentials.password)
@@ -23,6 +26,9 @@ export function LoginForm() {
       // The signIn function in AuthContext will automatically set the user
       // We'll handle navigation in a useEffect that watches for user changes
     } catch (error) {
+      if (error instanceof ApiError && error.data.code === 'account_locked') {
+        setLockedUntil(typeof error.data.locked_until === 'string' ? error.data.locked_until : '')
+      }
     } finally {
       setIsLoading(false)
     }
@@ -31,7 +37,9 @@ export function LoginForm() {
   // Handle navigation after successful login
   React.useEffect(() => {
     if (user && !isLoading) {
-      if (user.needs_password_reset) {
+      if (mfaChallengeRequired) {
+        navigate('/mfa-challenge', { replace: true, state: location.state })
+      } else if (user.needs_password_reset) {
         navigate('/force-password-change', { replace: true })
       } else if (user.roles?.some(role => role.name === 'admin')) {
         navigate('/admin/dashboard', { replace: true })
@@ -39,7 +47,7 @@ export function LoginForm() {
         navigate('/dashboard', { replace: true })
       }
     }
-  }, [user, isLoading, navigate])
+  }, [user, isLoading, mfaChallengeRequired, navigate, location.state])
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target
@@ -62,7 +70,19 @@ export function LoginForm() {
         </div>
         
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
-          {error && (
+          {lockedUntil !== null ? (
+            <div className="bg-amber-50 border border-amber-200 rounded-md p-4 flex items-start">
+              <Lock className="h-5 w-5 text-amber-500 mt-0.5 mr-3 flex-shrink-0" />
+              <div className="text-sm text-amber-800">
+                <p className="font-medium">Account temporarily locked</p>
+                <p className="mt-1">
+                  Too many failed sign-in attempts.
+                  {lockedUntil && ` Try again after ${new Date(lockedUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                  {' '}or contact an administrator to unlock your account.
+                </p>
+              </div>
+            </div>
+          ) : error && (
             <div className="bg-red-50 border border-red-200 rounded-md p-4 flex items-start">
               <AlertCircle className="h-5 w-5 text-red-400 mt-0.5 mr-3 flex-shrink-0" />
               <div className="text-sm text-red-700">{error}</div>
@@ -0,0 +1,167 @@
+import React, { useState } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { mfaApi } from '../lib/dataFetching'
+import type { MfaEnrollment as MfaEnrollmentData } from '../types/auth'
+import { AlertCircle, KeyRound, Smartphone } from 'lucide-react'
+
+interface MfaEnrollmentProps {
+  // Called once the user has confirmed the recovery codes are saved
+  onComplete?: () => void
+}
+
+export default function MfaEnrollment({ onComplete }: MfaEnrollmentProps) {
+  const { refreshAssurance } = useAuth()
+  const [enrollment, setEnrollment] = useState<MfaEnrollmentData | null>(null)
+  const [code, setCode] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const handleStart = async () => {
+    setMessage(null)
+    setIsLoading(true)
+    try {
+      setEnrollment(await mfaApi.enrollTotp())
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to start enrollment.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    if (enrollment) {
+      try {
+        await mfaApi.unenroll(enrollment.factorId)
+      } catch (error) {
+        console.warn('⚠️ Failed to remove unverified factor:', error)
+      }
+    }
+    setEnrollment(null)
+    setCode('')
+    setMessage(null)
+  }
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!enrollment) return
+    setMessage(null)
+    setIsLoading(true)
+    try {
+      // Verifying the first code also upgrades the current session to AAL2
+      await mfaApi.verifyTotp(enrollment.factorId, code)
+      setEnrollment(null)
+      setCode('')
+      await refreshAssurance()
+      setRecoveryCodes(await mfaApi.generateRecoveryCodes())
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Invalid verification code.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (recoveryCodes) {
+    return <RecoveryCodesList codes={recoveryCodes} onDone={() => onComplete?.()} />
+  }
+
+  return (
+    <div className="space-y-4">
+      {message && (
+        <div className="p-4 rounded-md bg-red-50 border border-red-200 flex items-start">
+          <AlertCircle className="h-5 w-5 text-red-400 mt-0.5 mr-3 flex-shrink-0" />
+          <div className="text-sm text-red-700">{message}</div>
+        </div>
+      )}
+
+      {!enrollment ? (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            Protect your account with a time-based code from an authenticator app.
+          </p>
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={isLoading}
+            className="ml-4 inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Smartphone className="h-4 w-4 mr-2" />
+            {isLoading ? 'Starting...' : 'Set up authenticator'}
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleVerify} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Scan the QR code with your authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <div className="flex flex-col items-center">
+            <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-44 w-44 border border-gray-200 rounded-md" />
+            <p className="mt-2 text-xs text-gray-500">
+              Can't scan? Enter this key manually: <span className="font-mono text-gray-700 break-all">{enrollment.secret}</span>
+            </p>
+          </div>
+          <div>
+            <label htmlFor="mfa-enroll-code" className="block text-sm font-medium text-gray-700">Verification Code</label>
+            <input
+              id="mfa-enroll-code"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              pattern="[0-9]{6}"
+              maxLength={6}
+              required
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 font-mono tracking-widest focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              placeholder="123456"
+            />
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading || code.length !== 6}
+              className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Verifying...' : 'Verify and enable'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
+
+export function RecoveryCodesList({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start">
+        <KeyRound className="h-5 w-5 text-amber-500 mt-0.5 mr-3 flex-shrink-0" />
+        <p className="text-sm text-gray-700">
+          Save these recovery codes somewhere safe. Each code can be used once to sign in if you lose
+          access to your authenticator. They will not be shown again.
+        </p>
+      </div>
+      <ul className="grid grid-cols-2 gap-2 bg-gray-50 border border-gray-200 rounded-md p-4">
+        {codes.map((recoveryCode) => (
+          <li key={recoveryCode} className="font-mono text-sm text-gray-900">{recoveryCode}</li>
+        ))}
+      </ul>
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={onDone}
+          className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md"
+        >
+          I've saved these codes
+        </button>
+      </div>
+    </div>
+  )
+}
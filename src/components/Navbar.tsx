@@ -1,11 +1,34 @@
 import React, { useState } from 'react'
 import { Link } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
 import { useAuth } from '../contexts/AuthContext'
-import { LogOut, User, Shield } from 'lucide-react'
+import { passwordPolicyApi } from '../lib/dataFetching'
+import { queryKeys } from '../lib/queryClient'
+import { LogOut, User, Shield, AlertTriangle, Building2 } from 'lucide-react'
+import type { Organization } from '../types/auth'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Whole days until the password expires, or null when no warning is due yet
+function getDaysUntilExpiry(expiresAt: string | null | undefined, warningDays: number): number | null {
+  if (!expiresAt) return null
+  const remaining = Math.ceil((new Date(expiresAt).getTime() - Date.now()) / DAY_MS)
+  return remaining > 0 && remaining <= warningDays ? remaining : null
+}
 
 export function Navbar() {
-  const { user, signOut } = useAuth()
+  const { user, signOut, switchOrganization } = useAuth()
   const [isSigningOut, setIsSigningOut] = useState(false)
+  const [isSwitching, setIsSwitching] = useState(false)
+  const [switchError, setSwitchError] = useState<string | null>(null)
+
+  const { data: policy } = useQuery({
+    queryKey: queryKeys.passwordPolicy(),
+    queryFn: passwordPolicyApi.getPolicy,
+    enabled: !!user?.password_expires_at,
+  })
+
+  const daysUntilExpiry = policy ? getDaysUntilExpiry(user?.password_expires_at, policy.expiry_warning_days) : null
 
   const handleSignOut = async () => {
     setIsSigningOut(true)
@@ -16,6 +39,22 @@ export function Navbar() {
     }
   }
 
+  const handleOrganizationChange = async (organizationId: string) => {
+    setIsSwitching(true)
+    setSwitchError(null)
+    try {
+      await switchOrganization(organizationId)
+    } catch (error) {
+      setSwitchError(error instanceof Error ? error.message : 'Failed to switch organization')
+    } finally {
+      setIsSwitching(false)
+    }
+  }
+
+  const organizations: Organization[] = user?.organizations || []
+  // A single organization is only offered for selection while none is selected
+  const canSwitchOrganization = organizations.length > 1 || (organizations.length === 1 && !user?.active_organization_id)
+
   return (
     <nav className="bg-white border-b border-gray-200 fixed w-full z-30 top-0">
       <div className="px-6 py-3">
@@ -28,6 +67,40 @@ export function Navbar() {
           </div>
           
           <div className="flex items-center space-x-4">
+            {daysUntilExpiry !== null && (
+              <Link
+                to="/profile"
+                className="flex items-center px-3 py-1 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-800 hover:bg-amber-100 transition-colors duration-200"
+                title="Change your password"
+              >
+                <AlertTriangle className="h-4 w-4 text-amber-500 mr-2" />
+                Your password expires in {daysUntilExpiry} {daysUntilExpiry === 1 ? 'day' : 'days'}
+              </Link>
+            )}
+
+            {canSwitchOrganization && (
+              <div className="flex items-center" title={switchError || 'Organization'}>
+                <Building2 className={`h-4 w-4 mr-2 ${switchError ? 'text-red-500' : 'text-gray-400'}`} />
+                <select
+                  value={user?.active_organization_id || ''}
+                  onChange={(e) => handleOrganizationChange(e.target.value)}
+                  disabled={isSwitching}
+                  className="text-sm border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500 disabled:opacity-50"
+                >
+                  {!user?.active_organization_id && <option value="" disabled>Select organization</option>}
+                  {organizations.map(organization => (
+                    <option key={organization.id} value={organization.id}>{organization.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {organizations.length === 1 && !canSwitchOrganization && (
+              <span className="flex items-center text-sm text-gray-500">
+                <Building2 className="h-4 w-4 text-gray-400 mr-2" />
+                {organizations[0].name}
+              </span>
+            )}
+
             <div className="flex items-center space-x-3">
               <Link 
                 to="/profile"
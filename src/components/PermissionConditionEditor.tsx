@@ -0,0 +1,241 @@
+import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { CONDITION_OPERATORS, describeCondition, validateCondition } from '../utils/conditions'
+import type { ComparisonCondition, Condition, ConditionOperator } from '../types/auth'
+
+// Attributes every condition can use; resource attributes beyond these depend on the endpoint
+const SUGGESTED_ATTRIBUTES = [
+  'user.id',
+  'user.email',
+  'user.email_domain',
+  'user.full_name',
+  'user.department',
+  'user.roles',
+  'user.organization_id',
+  'resource.id',
+  'resource.email',
+  'resource.email_domain',
+  'resource.full_name',
+  'resource.department',
+  'resource.roles',
+  'resource.is_active',
+]
+
+interface ConditionRow {
+  attribute: string
+  operator: ConditionOperator
+  value: string
+  // The value names another attribute rather than a literal
+  valueIsAttribute: boolean
+}
+
+type MatchMode = 'all' | 'any'
+
+const emptyRow: ConditionRow = { attribute: '', operator: 'eq', value: '', valueIsAttribute: false }
+
+function isComparison(condition: Condition): condition is ComparisonCondition {
+  return 'attribute' in condition
+}
+
+function isAttributeReference(value: unknown): value is { attribute: string } {
+  return typeof value === 'object' && value !== null && typeof (value as { attribute?: unknown }).attribute === 'string'
+}
+
+// Numbers and booleans are typed as such; anything else is kept as text
+function parseLiteral(text: string): unknown {
+  const trimmed = text.trim()
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true'
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed)
+  return trimmed
+}
+
+function toRow(condition: ComparisonCondition): ConditionRow {
+  const { attribute, operator, value } = condition
+  if (isAttributeReference(value)) return { attribute, operator, value: value.attribute, valueIsAttribute: true }
+  return { attribute, operator, value: Array.isArray(value) ? value.join(', ') : String(value), valueIsAttribute: false }
+}
+
+function fromRow(row: ConditionRow): ComparisonCondition {
+  const value = row.valueIsAttribute
+    ? { attribute: row.value.trim() }
+    : row.operator === 'in' || row.operator === 'not_in'
+      ? row.value.split(',').map(parseLiteral).filter(item => item !== '')
+      : parseLiteral(row.value)
+  return { attribute: row.attribute.trim(), operator: row.operator, value }
+}
+
+// A single comparison or one level of all/any fits the row editor; anything else is edited as JSON
+function toRows(condition: Condition | undefined): { mode: MatchMode; rows: ConditionRow[] } | null {
+  if (!condition) return { mode: 'all', rows: [] }
+  if (isComparison(condition)) return { mode: 'all', rows: [toRow(condition)] }
+  for (const mode of ['all', 'any'] as const) {
+    if (mode in condition) {
+      const children = (condition as Record<MatchMode, Condition[]>)[mode]
+      return children.every(isComparison) ? { mode, rows: children.map(toRow) } : null
+    }
+  }
+  return null
+}
+
+function fromRows(mode: MatchMode, rows: ConditionRow[]): Condition | undefined {
+  if (rows.length === 0) return undefined
+  const comparisons = rows.map(fromRow)
+  if (comparisons.length === 1) return comparisons[0]
+  return mode === 'all' ? { all: comparisons } : { any: comparisons }
+}
+
+/**
+ * Conditions for one permission of a role. Reports the condition, or undefined
+ * when there is none, together with a validation error for the form to block on.
+ */
+export default function PermissionConditionEditor({
+  value,
+  onChange
+}: {
+  value?: Condition
+  onChange: (condition: Condition | undefined, error: string | null) => void
+}) {
+  const initial = toRows(value)
+  const [open, setOpen] = useState(false)
+  const [jsonMode, setJsonMode] = useState(initial === null)
+  const [mode, setMode] = useState<MatchMode>(initial?.mode ?? 'all')
+  const [rows, setRows] = useState<ConditionRow[]>(initial?.rows ?? [])
+  const [json, setJson] = useState(value ? JSON.stringify(value, null, 2) : '')
+  const [error, setError] = useState<string | null>(null)
+
+  const report = (condition: Condition | undefined, parseError: string | null = null) => {
+    const nextError = parseError ?? (condition ? validateCondition(condition) : null)
+    setError(nextError)
+    onChange(condition, nextError)
+  }
+
+  const updateRows = (nextMode: MatchMode, nextRows: ConditionRow[]) => {
+    setMode(nextMode)
+    setRows(nextRows)
+    report(fromRows(nextMode, nextRows))
+  }
+
+  const updateRow = (index: number, changes: Partial<ConditionRow>) => {
+    updateRows(mode, rows.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  const updateJson = (text: string) => {
+    setJson(text)
+    if (!text.trim()) return report(undefined)
+    try {
+      report(JSON.parse(text))
+    } catch {
+      report(undefined, 'Conditions must be valid JSON')
+    }
+  }
+
+  const switchToJson = () => {
+    const condition = fromRows(mode, rows)
+    setJson(condition ? JSON.stringify(condition, null, 2) : '')
+    setJsonMode(true)
+  }
+
+  if (!open) {
+    return (
+      <div className="ml-6 text-xs">
+        {value && <span className="text-amber-700 mr-2">Only if {describeCondition(value)}</span>}
+        <button type="button" onClick={() => setOpen(true)} className="text-emerald-600 hover:text-emerald-800">
+          {value ? 'Edit condition' : 'Add condition'}
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="ml-6 mt-1 p-2 border border-gray-200 rounded-md bg-gray-50 space-y-2 text-xs">
+      {jsonMode ? (
+        <textarea
+          value={json}
+          onChange={(e) => updateJson(e.target.value)}
+          rows={5}
+          placeholder='{ "attribute": "resource.amount", "operator": "lt", "value": 100000 }'
+          className="block w-full border border-gray-300 rounded-md px-2 py-1 font-mono focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+        />
+      ) : (
+        <>
+          {rows.length > 1 && (
+            <select
+              value={mode}
+              onChange={(e) => updateRows(e.target.value as MatchMode, rows)}
+              className="border border-gray-300 rounded-md px-2 py-1"
+            >
+              <option value="all">Match all of</option>
+              <option value="any">Match any of</option>
+            </select>
+          )}
+          {rows.map((row, index) => (
+            <div key={index} className="flex items-center space-x-1">
+              <input
+                type="text"
+                list="condition-attributes"
+                value={row.attribute}
+                onChange={(e) => updateRow(index, { attribute: e.target.value })}
+                placeholder="resource.amount"
+                className="w-36 border border-gray-300 rounded-md px-2 py-1"
+              />
+              <select
+                value={row.operator}
+                onChange={(e) => updateRow(index, { operator: e.target.value as ConditionOperator })}
+                className="border border-gray-300 rounded-md px-1 py-1"
+              >
+                {CONDITION_OPERATORS.map(operator => (
+                  <option key={operator} value={operator}>{operator.replace('_', ' ')}</option>
+                ))}
+              </select>
+              <select
+                value={row.valueIsAttribute ? 'attribute' : 'value'}
+                onChange={(e) => updateRow(index, { valueIsAttribute: e.target.value === 'attribute' })}
+                className="border border-gray-300 rounded-md px-1 py-1"
+              >
+                <option value="value">value</option>
+                <option value="attribute">attribute</option>
+              </select>
+              <input
+                type="text"
+                list={row.valueIsAttribute ? 'condition-attributes' : undefined}
+                value={row.value}
+                onChange={(e) => updateRow(index, { value: e.target.value })}
+                placeholder={row.valueIsAttribute ? 'user.email_domain' : row.operator === 'in' || row.operator === 'not_in' ? 'a, b, c' : '100000'}
+                className="flex-1 min-w-0 border border-gray-300 rounded-md px-2 py-1"
+              />
+              <button
+                type="button"
+                onClick={() => updateRows(mode, rows.filter((_, i) => i !== index))}
+                className="p-1 text-gray-400 hover:text-red-600"
+                aria-label="Remove condition"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => updateRows(mode, [...rows, emptyRow])}
+            className="inline-flex items-center text-emerald-600 hover:text-emerald-800"
+          >
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add rule
+          </button>
+        </>
+      )}
+      <datalist id="condition-attributes">
+        {SUGGESTED_ATTRIBUTES.map(attribute => <option key={attribute} value={attribute} />)}
+      </datalist>
+      {error && <p className="text-red-600">{error}</p>}
+      <div className="flex justify-between text-gray-500">
+        <span>With no rules the permission applies to every record</span>
+        <span className="space-x-3">
+          {!jsonMode && (
+            <button type="button" onClick={switchToJson} className="text-emerald-600 hover:text-emerald-800">Edit as JSON</button>
+          )}
+          <button type="button" onClick={() => setOpen(false)} className="text-emerald-600 hover:text-emerald-800">Done</button>
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -7,6 +7,8 @@ interface ProtectedRouteProps {
   children: React.ReactNode
   requireAdmin?: boolean
   requiredPermission?: { resource: string; action: string }
+  // Require a session verified with a second factor (AAL2)
+  requireMfa?: boolean
   redirectTo?: string
 }
 
@@ -14,9 +16,10 @@ export function ProtectedRoute({
   children,
   requireAdmin = false,
   requiredPermission,
+  requireMfa = false,
   redirectTo = '/login'
 }: ProtectedRouteProps) {
-  const { user, loading, refreshUser } = useAuth()
+  const { user, loading, refreshUser, assurance, mfaChallengeRequired } = useAuth()
   const location = useLocation()
 
   const [initialized, setInitialized] = useState(false)
@@ -75,6 +78,11 @@ export function ProtectedRoute({
     return <Navigate to={redirectTo} state={{ from: location }} replace />
   }
 
+  // Users with a verified factor must pass the challenge before using the app
+  if (mfaChallengeRequired) {
+    return <Navigate to="/mfa-challenge" state={{ from: location }} replace />
+  }
+
   // Check if user needs to change their password
   if (localUser.needs_password_reset && location.pathname !== '/force-password-change') {
     return <Navigate to="/force-password-change" replace />
@@ -106,5 +114,18 @@ export function ProtectedRoute({
     )
   }
 
+  // Admin routes and roles that require MFA need an AAL2 session; users
+  // without a factor are sent to enroll one first
+  if ((requireMfa || localUser.mfa_required) && assurance?.currentLevel !== 'aal2') {
+    if (!assurance) {
+      return (
+        <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-emerald-600"></div>
+        </div>
+      )
+    }
+    return <Navigate to="/mfa-setup" state={{ from: location }} replace />
+  }
+
   return <>{children}</>
 }
@@ -0,0 +1,55 @@
+import { describeUserAgent } from '../utils/userAgent'
+import type { UserSession } from '../types/auth'
+import { Monitor, Smartphone } from 'lucide-react'
+
+interface SessionListProps {
+  sessions: UserSession[]
+  onRevoke: (session: UserSession) => void
+  disabled?: boolean
+}
+
+const MOBILE_DEVICES = ['iPhone', 'iPad', 'Android']
+
+export default function SessionList({ sessions, onRevoke, disabled = false }: SessionListProps) {
+  if (sessions.length === 0) {
+    return <p className="text-sm text-gray-500">No active sessions.</p>
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+      {sessions.map((session) => {
+        const { browser, device } = describeUserAgent(session.user_agent)
+        const DeviceIcon = MOBILE_DEVICES.includes(device) ? Smartphone : Monitor
+        return (
+          <li key={session.id} className="px-4 py-3 flex items-center justify-between">
+            <div className="flex items-center">
+              <DeviceIcon className="h-5 w-5 text-gray-400 mr-3 flex-shrink-0" />
+              <div>
+                <div className="text-sm font-medium text-gray-900">
+                  {browser} on {device}
+                  {session.current && (
+                    <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800">
+                      This device
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {session.ip_address || 'Unknown IP'} · Signed in {new Date(session.created_at).toLocaleString()} · Last seen{' '}
+                  {new Date(session.last_seen_at).toLocaleString()}
+                </div>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => onRevoke(session)}
+              disabled={disabled}
+              className="ml-4 px-3 py-1.5 text-sm font-medium text-red-700 bg-red-100 hover:bg-red-200 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Sign out
+            </button>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -11,6 +11,10 @@ import {
   BarChart3,
   Shield,
   Key,
+  ClipboardList,
+  Lock,
+  UserCheck,
+  UsersRound,
 } from 'lucide-react'
 
 interface NavItem {
@@ -45,12 +49,36 @@ const navigation: NavItem[] = [
     icon: Shield,
     permission: { resource: 'roles', action: 'manage' }
   },
+  {
+    name: 'Groups',
+    href: '/admin/groups',
+    icon: UsersRound,
+    permission: { resource: 'groups', action: 'read' }
+  },
   {
     name: 'Permission Management',
     href: '/admin/permissions',
     icon: Key,
     permission: { resource: 'permissions', action: 'manage' }
   },
+  {
+    name: 'Access Requests',
+    href: '/admin/access-requests',
+    icon: UserCheck,
+    permission: { resource: 'access', action: 'approve' }
+  },
+  {
+    name: 'Audit Log',
+    href: '/admin/audit',
+    icon: ClipboardList,
+    permission: { resource: 'audit', action: 'read' }
+  },
+  {
+    name: 'Security Settings',
+    href: '/admin/settings',
+    icon: Lock,
+    permission: { resource: 'settings', action: 'manage' }
+  },
   {
     name: 'Reports',
     href: '/reports',
@@ -0,0 +1,79 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { adminUsersApi, ApiError } from '../lib/dataFetching'
+import SessionList from './SessionList'
+import type { User, UserSession } from '../types/auth'
+import { AlertCircle } from 'lucide-react'
+
+export default function UserSessionsModal({ user, onClose }: { user: User; onClose: () => void }) {
+  const queryClient = useQueryClient()
+  const [message, setMessage] = useState<string | null>(null)
+  const sessionsKey = queryKeys.adminUserSessions(user.id)
+
+  const { data: sessions = [], isLoading } = useQuery({
+    queryKey: sessionsKey,
+    queryFn: () => adminUsersApi.getSessions(user.id),
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: (sessionId?: string) => adminUsersApi.revokeSessions(user.id, sessionId),
+    onMutate: () => setMessage(null),
+    onError: (error) => {
+      setMessage(error instanceof ApiError ? error.message : 'Failed to sign out the session')
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: sessionsKey }),
+  })
+
+  const handleRevoke = (session: UserSession) => {
+    if (!confirm('Sign this user out of the session?')) return
+    revokeMutation.mutate(session.id)
+  }
+
+  const handleRevokeAll = () => {
+    if (!confirm(`Sign ${user.email} out of every session?`)) return
+    revokeMutation.mutate(undefined)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white">
+        <div className="mt-3 space-y-4">
+          <h3 className="text-lg font-medium text-gray-900">Active Sessions</h3>
+          <p className="text-sm text-gray-600">{user.full_name || user.email}</p>
+
+          {message && (
+            <div className="p-4 rounded-md bg-red-50 border border-red-200 flex items-start">
+              <AlertCircle className="h-5 w-5 text-red-400 mt-0.5 mr-3 flex-shrink-0" />
+              <div className="text-sm text-red-700">{message}</div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600"></div>
+          ) : (
+            <SessionList sessions={sessions} onRevoke={handleRevoke} disabled={revokeMutation.isPending} />
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+            >
+              Close
+            </button>
+            <button
+              type="button"
+              onClick={handleRevokeAll}
+              disabled={sessions.length === 0 || revokeMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Sign out everywhere
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
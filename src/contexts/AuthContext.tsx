@@ -1,20 +1,35 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react'
-import { useRef, useCallback } from 'react'
-import { supabase } from '../lib/supabase'
-import { authApi, userProfileApi } from '../lib/dataFetching'
+import { useRef } from 'react'
+import { supabase, getCurrentSessionId } from '../lib/supabase'
+import { authApi, mfaApi, organizationsApi, sessionsApi, userProfileApi } from '../lib/dataFetching'
 import { queryClient, queryKeys } from '../lib/queryClient'
 import { clearPermissionCache } from '../utils/permissions'
+import type { AssuranceState } from '../types/auth'
 
-// Inactivity timeout: 15 minutes
-const INACTIVITY_TIMEOUT_MS = 15 * 60 * 1000
+// Used when none of the user's roles sets an inactivity timeout
+const DEFAULT_INACTIVITY_TIMEOUT_MINUTES = 15
+const INACTIVITY_WARNING_MS = 60 * 1000
+// Activity is shared with other tabs at most this often
+const ACTIVITY_SYNC_INTERVAL_MS = 5 * 1000
+const LAST_ACTIVITY_KEY = 'lastActivityAt'
+const AUTH_CHANNEL_NAME = 'auth-events'
+const INACTIVITY_SIGN_OUT_MESSAGE = 'You were signed out after a period of inactivity'
+const SESSION_HEARTBEAT_MS = 5 * 60 * 1000
 
 interface AuthContextType {
   user: any | null
   loading: boolean
   error: string | null
+  assurance: AssuranceState | null
+  mfaChallengeRequired: boolean
+  refreshAssurance: () => Promise<void>
+  // When the inactivity warning is showing: the time the user will be signed out
+  inactivityDeadline: number | null
+  staySignedIn: () => void
   signIn: (email: string, password: string) => Promise<void>
   signOut: () => Promise<void>
   refreshUser: () => Promise<void>
+  switchOrganization: (organizationId: string) => Promise<void>
   changePassword: (newPassword: string, clearNeedsPasswordReset?: boolean) => Promise<void>
   sendPasswordResetEmail: (email: string) => Promise<void>
 }
@@ -38,7 +53,14 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   })
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const inactivityTimerRef = useRef<NodeJS.Timeout | null>(null)
+  const [assurance, setAssurance] = useState<AssuranceState | null>(null)
+  const [inactivityDeadline, setInactivityDeadline] = useState<number | null>(null)
+  const authChannelRef = useRef<BroadcastChannel | null>(null)
+  const staySignedInRef = useRef<() => void>(() => {})
+  // Subscriptions set up once per user call the latest versions of these
+  const signOutRef = useRef<() => Promise<void>>(async () => {})
+  const signOutLocallyRef = useRef<() => Promise<void>>(async () => {})
+  const refreshUserRef = useRef<() => Promise<void>>(async () => {})
 
   // Helper to set user both in state and in localStorage
   const setUserAndCache = (profile: any | null) => {
@@ -54,37 +76,130 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   }
 
-  const resetInactivityTimer = useCallback(() => {
-    if (inactivityTimerRef.current) {
-      clearTimeout(inactivityTimerRef.current)
-      inactivityTimerRef.current = null
+  // Sign-outs in one tab end the session in every tab
+  useEffect(() => {
+    if (!user?.id || typeof BroadcastChannel === 'undefined') return
+    const channel = new BroadcastChannel(AUTH_CHANNEL_NAME)
+    channel.onmessage = (event) => {
+      if (event.data?.type === 'signed_out') {
+        signOutLocallyRef.current().then(() => {
+          if (event.data.reason === 'inactivity') setError(INACTIVITY_SIGN_OUT_MESSAGE)
+        })
+      }
     }
-    if (user) {
-      inactivityTimerRef.current = setTimeout(() => {
-        console.warn('⚠️ User inactive for 15 minutes, logging out...')
-        signOut()
-      }, INACTIVITY_TIMEOUT_MS)
+    authChannelRef.current = channel
+    return () => {
+      authChannelRef.current = null
+      channel.close()
     }
-  }, [user])
+  }, [user?.id])
+
+  const inactivityTimeoutMs = (user?.inactivity_timeout_minutes ?? DEFAULT_INACTIVITY_TIMEOUT_MINUTES) * 60 * 1000
 
+  // The last activity in any tab is kept in localStorage; other tabs follow it through storage events
   useEffect(() => {
-    if (user) {
-      resetInactivityTimer()
-      const activityEvents = ['mousemove', 'keydown', 'click', 'scroll', 'touchstart']
+    if (!user?.id) return
+    let warningTimer: ReturnType<typeof setTimeout> | undefined
+    let signOutTimer: ReturnType<typeof setTimeout> | undefined
+    let lastSyncedAt = 0
+    let warningShown = false
+
+    const schedule = (lastActivityAt: number) => {
+      clearTimeout(warningTimer)
+      clearTimeout(signOutTimer)
+      warningShown = false
+      setInactivityDeadline(null)
+
+      const deadline = lastActivityAt + inactivityTimeoutMs
+      warningTimer = setTimeout(() => {
+        warningShown = true
+        setInactivityDeadline(deadline)
+      }, deadline - INACTIVITY_WARNING_MS - Date.now())
+      signOutTimer = setTimeout(() => {
+        console.warn(`⚠️ User inactive for ${inactivityTimeoutMs / 60000} minutes, logging out...`)
+        authChannelRef.current?.postMessage({ type: 'signed_out', reason: 'inactivity' })
+        signOutLocallyRef.current().then(() => setError(INACTIVITY_SIGN_OUT_MESSAGE))
+      }, deadline - Date.now())
+    }
+
+    const recordActivity = (force = false) => {
+      // Once the warning is up only "Stay signed in" counts as activity
+      if (warningShown && !force) return
+      const now = Date.now()
+      if (!force && now - lastSyncedAt < ACTIVITY_SYNC_INTERVAL_MS) return
+      lastSyncedAt = now
+      localStorage.setItem(LAST_ACTIVITY_KEY, String(now))
+      schedule(now)
+    }
+
+    const handleActivity = () => recordActivity()
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== LAST_ACTIVITY_KEY || !event.newValue) return
+      lastSyncedAt = Number(event.newValue)
+      schedule(lastSyncedAt)
+    }
+
+    staySignedInRef.current = () => recordActivity(true)
+    recordActivity(true)
+
+    const activityEvents = ['mousemove', 'keydown', 'click', 'scroll', 'touchstart']
+    activityEvents.forEach(event => {
+      window.addEventListener(event, handleActivity, { passive: true })
+    })
+    window.addEventListener('storage', handleStorage)
+
+    return () => {
+      clearTimeout(warningTimer)
+      clearTimeout(signOutTimer)
+      setInactivityDeadline(null)
+      staySignedInRef.current = () => {}
       activityEvents.forEach(event => {
-        window.addEventListener(event, resetInactivityTimer, { passive: true })
+        window.removeEventListener(event, handleActivity)
       })
-      return () => {
-        if (inactivityTimerRef.current) {
-          clearTimeout(inactivityTimerRef.current)
-          inactivityTimerRef.current = null
+      window.removeEventListener('storage', handleStorage)
+    }
+  }, [user?.id, inactivityTimeoutMs])
+
+  const staySignedIn = () => staySignedInRef.current()
+
+  // Admin changes to this account arrive as inserts into user_session_events
+  useEffect(() => {
+    if (!user?.id) return
+    const channel = supabase
+      .channel(`session-events:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'user_session_events', filter: `user_id=eq.${user.id}` },
+        async (payload) => {
+          // Events naming another session are for another device of this user
+          if (payload.new.session_id && payload.new.session_id !== await getCurrentSessionId()) return
+
+          if (payload.new.action === 'sign_out') {
+            console.warn('⚠️ Session revoked by an administrator, signing out')
+            signOutRef.current().then(() => setError('Your session was ended by an administrator'))
+          } else {
+            console.log('🔄 Account changed by an administrator, refreshing profile')
+            refreshUserRef.current()
+          }
         }
-        activityEvents.forEach(event => {
-          window.removeEventListener(event, resetInactivityTimer)
-        })
-      }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
     }
-  }, [user, resetInactivityTimer])
+  }, [user?.id])
+
+  // Keep this session's entry in the active sessions list current
+  useEffect(() => {
+    if (!user?.id) return
+    const touch = () => {
+      sessionsApi.touch().catch(err => console.warn('⚠️ Failed to record session activity', err))
+    }
+    touch()
+    const interval = setInterval(touch, SESSION_HEARTBEAT_MS)
+    return () => clearInterval(interval)
+  }, [user?.id])
 
   const fetchUserProfile = async (userId: string) => {
     console.log("🔍 Fetching user profile for:", userId)
@@ -98,6 +213,19 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   }
 
+  // Read the session's current and attainable assurance levels (aal1/aal2)
+  const refreshAssurance = async () => {
+    try {
+      setAssurance(await mfaApi.getAssuranceLevel())
+    } catch (err) {
+      console.error("❌ Failed to read assurance level:", err)
+      setAssurance({ currentLevel: null, nextLevel: null })
+    }
+  }
+
+  // A verified factor exists but this session has not passed the challenge yet
+  const mfaChallengeRequired = assurance?.nextLevel === 'aal2' && assurance.currentLevel !== 'aal2'
+
   useEffect(() => {
     const init = async () => {
       console.log("🚀 Auth init starting...")
@@ -140,6 +268,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
             if (profile) checkpoints.profile = true
             if (profile?.is_active) {
               checkpoints.activeFlag = true
+              await refreshAssurance()
               setUserAndCache(profile)
               console.log("✅ User is active and set in state")
             } else {
@@ -184,6 +313,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           })
 
           if (profile?.is_active) {
+            await refreshAssurance()
             setUserAndCache(profile)
             console.log("✅ User updated after state change:", profile)
           } else {
@@ -198,6 +328,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
         if (user?.id) {
           queryClient.removeQueries({ queryKey: queryKeys.userProfile(user.id) })
         }
+        setAssurance(null)
         setUserAndCache(null)
       }
       if (loading) setLoading(false)
@@ -213,14 +344,15 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     setLoading(true)
     setError(null)
     try {
-      const { data, error } = await supabase.auth.signInWithPassword({ email, password })
+      const session = await authApi.signIn(email, password)
+      const { data: { user: signedInUser }, error } = await supabase.auth.setSession(session)
       if (error) throw error
 
-      if (data.user) {
-        console.log("✅ User signed in:", data.user.id)
+      if (signedInUser) {
+        console.log("✅ User signed in:", signedInUser.id)
         const profile = await queryClient.fetchQuery({
-          queryKey: queryKeys.userProfile(data.user.id),
-          queryFn: () => fetchUserProfile(data.user.id),
+          queryKey: queryKeys.userProfile(signedInUser.id),
+          queryFn: () => fetchUserProfile(signedInUser.id),
           staleTime: Infinity,
           gcTime: Infinity,
         })
@@ -231,6 +363,9 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           throw new Error("Account is inactive")
         }
 
+        // Resolve the assurance level before exposing the user so the login
+        // form can route to the MFA challenge instead of the dashboard
+        await refreshAssurance()
         setUserAndCache(profile)
       }
     } catch (err: any) {
@@ -243,18 +378,22 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   }
 
   const signOut = async () => {
+    authChannelRef.current?.postMessage({ type: 'signed_out' })
+    await signOutLocally()
+  }
+
+  // Sign out this tab without notifying the others
+  const signOutLocally = async () => {
     console.log("🚪 Signing out user:", user?.id)
-    if (inactivityTimerRef.current) {
-      clearTimeout(inactivityTimerRef.current)
-      inactivityTimerRef.current = null
-    }
     if (user?.id) {
       queryClient.removeQueries({ queryKey: queryKeys.userProfile(user.id) })
     }
     setUserAndCache(null)
+    setAssurance(null)
     setError(null)
     try {
-      await supabase.auth.signOut()
+      // Only this device; other sessions are ended from the Active Sessions list
+      await supabase.auth.signOut({ scope: 'local' })
       console.log("✅ Supabase sign out completed")
     } catch (err) {
       console.warn("⚠️ Sign out failed silently:", err)
@@ -304,9 +443,13 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           await supabase.auth.signOut()
           return
         }
+        // Everything cached besides the profile belongs to the previous organization
+        if (profile.active_organization_id !== user.active_organization_id) {
+          queryClient.removeQueries({ predicate: query => query.queryKey[0] !== 'userProfile', type: 'inactive' })
+          queryClient.invalidateQueries({ predicate: query => query.queryKey[0] !== 'userProfile' })
+        }
         setUserAndCache(profile)
         clearPermissionCache()
-        resetInactivityTimer()
         console.log("✅ User profile refreshed")
       } else {
         console.warn("⚠️ No session user on refresh, clearing state")
@@ -318,6 +461,17 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   }
 
+  signOutRef.current = signOut
+  signOutLocallyRef.current = signOutLocally
+  refreshUserRef.current = refreshUser
+
+  // Other tabs follow through the refresh event the switch sends
+  const switchOrganization = async (organizationId: string) => {
+    console.log("🏢 Switching organization:", organizationId)
+    await organizationsApi.switchOrganization(organizationId)
+    await refreshUser()
+  }
+
   const sendPasswordResetEmail = async (email: string) => {
     console.log("📧 Sending password reset email to:", email)
     setLoading(true)
@@ -342,9 +496,15 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       user,
       loading,
       error,
+      assurance,
+      mfaChallengeRequired,
+      refreshAssurance,
+      inactivityDeadline,
+      staySignedIn,
       signIn,
       signOut,
       refreshUser,
+      switchOrganization,
       changePassword,
       sendPasswordResetEmail,
     }}>
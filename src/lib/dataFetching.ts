@@ -1,10 +1,13 @@
 import { supabase, getAuthHeaders } from './supabase'
-import type { User, Role, Permission, CreateUserData, UpdateUserData, CreateRoleData, UpdateRoleData, CreatePermissionData, UpdatePermissionData, PasswordValidationResult } from '../types/auth'
+import { getRoleLineage, getRoleParents } from '../utils/roleHierarchy'
+import { getActiveOrganizationId, isRoleAssignmentActive, isRoleInOrganization } from '../utils/permissions'
+import type { User, Role, Organization, Group, CreateGroupData, UpdateGroupData, Permission, CreateUserData, UpdateUserData, CreateRoleData, UpdateRoleData, CreatePermissionData, UpdatePermissionData, PasswordValidationResult, PasswordPolicy, RoleSessionTimeout, PasswordContext, AssuranceState, MfaEnrollment, MfaFactor, AuditEvent, AuditEventFilters, DashboardStats, DashboardActivity, UserListParams, UserSortField, PaginatedUsers, UserImportRow, UserImportReport, UserBatchAction, UserBatchReport, UserSession, ExportDataset, ExportFormat, AccessRequest, AccessRequestStatusFilter, CreateAccessRequestData } from '../types/auth'
 
 const API_BASE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`
 
 export class ApiError extends Error {
-  constructor(public status: number, message: string) {
+  // data carries the full error body, e.g. `code` and `locked_until` from sign-in
+  constructor(public status: number, message: string, public data: Record<string, unknown> = {}) {
     super(message)
     this.name = 'ApiError'
   }
@@ -14,12 +17,89 @@ async function handleResponse(response: Response) {
   const data = await response.json()
   
   if (!response.ok) {
-    throw new ApiError(response.status, data.error || 'Request failed')
+    throw new ApiError(response.status, data.error || 'Request failed', data)
   }
   
   return data
 }
 
+// The strictest of the timeouts set on a user's roles, or null when none sets one
+function shortestTimeout(roles: Role[]): number | null {
+  const timeouts = roles.map(role => role.inactivity_timeout_minutes).filter((minutes): minutes is number => minutes != null)
+  return timeouts.length > 0 ? Math.min(...timeouts) : null
+}
+
+// Permissions the given roles inherit from ancestors that are not among them
+async function fetchInheritedPermissions(roles: Role[]): Promise<Permission[]> {
+  if (!roles.some(role => role.parent_role_id)) return []
+
+  const { data: allRoles, error: rolesError } = await supabase
+    .from('roles')
+    .select('id, parent_role_id')
+
+  if (rolesError) throw rolesError
+
+  const parents = getRoleParents(allRoles || [])
+  const roleIds = roles.map(role => role.id)
+  const ancestorIds = [...new Set(roleIds.flatMap(roleId => getRoleLineage(roleId, parents)))]
+    .filter(roleId => !roleIds.includes(roleId))
+  if (ancestorIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('role_permissions')
+    .select('conditions, permissions!inner(id, resource, action, description)')
+    .in('role_id', ancestorIds)
+
+  if (error) throw error
+  return (data || []).map(rp => ({ ...rp.permissions, conditions: rp.conditions ?? null }) as unknown as Permission)
+}
+
+// The user's groups in the organization, with the roles (and their permissions) they grant
+async function fetchUserGroups(userId: string, organizationId: string | null): Promise<{ groups: Pick<Group, 'id' | 'name'>[]; roles: Role[] }> {
+  if (!organizationId) return { groups: [], roles: [] }
+
+  const { data, error } = await supabase
+    .from('group_members')
+    .select(`
+      groups!inner(
+        id,
+        name,
+        organization_id,
+        group_roles(
+          roles(
+            id,
+            name,
+            description,
+            mfa_required,
+            inactivity_timeout_minutes,
+            parent_role_id,
+            organization_id,
+            role_permissions(
+              conditions,
+              permissions!inner(
+                id,
+                resource,
+                action,
+                description
+              )
+            )
+          )
+        )
+      )
+    `)
+    .eq('user_id', userId)
+    .eq('groups.organization_id', organizationId)
+
+  if (error) throw error
+
+  // The embedded group is inferred as an array but is a single row at runtime
+  const groups = (data || []).map(gm => gm.groups as unknown as { id: string; name: string; group_roles: { roles: unknown }[] })
+  return {
+    groups: groups.map(group => ({ id: group.id, name: group.name })),
+    roles: groups.flatMap(group => group.group_roles.map(gr => gr.roles)).filter(Boolean) as Role[]
+  }
+}
+
 // User Profile Data Fetching
 export const userProfileApi = {
   async fetchUserProfile(userId: string): Promise<any | null> {
@@ -31,19 +111,38 @@ export const userProfileApi = {
           id, 
           email, 
           full_name, 
+          department,
           is_active, 
           needs_password_reset,
+          password_changed_at,
+          password_expires_at,
+          deleted_at,
           menu_access,
           sub_menu_access,
           component_access,
           created_at,
           updated_at,
+          active_organization_id,
+          organization_members(
+            organization_id,
+            organizations(
+              id,
+              name
+            )
+          ),
           user_roles(
+            valid_from,
+            valid_until,
             roles!inner(
               id, 
               name, 
               description,
+              mfa_required,
+              inactivity_timeout_minutes,
+              parent_role_id,
+              organization_id,
               role_permissions(
+                conditions,
                 permissions!inner(
                   id,
                   resource,
@@ -65,24 +164,54 @@ export const userProfileApi = {
         throw new Error('User profile not found')
       }
       
-      // Transform the data to match our User interface
-      const roles = data.user_roles?.map(ur => ur.roles).filter(Boolean) || []
+      // Transform the data to match our User interface; grants outside their validity window,
+      // and roles of organizations other than the selected one, are ignored
+      const { organization_members: memberships, ...profile } = data
+      const activeOrganizationId = getActiveOrganizationId(data.active_organization_id, memberships)
+      const directRoles = data.user_roles
+        ?.filter(ur => isRoleAssignmentActive(ur) && isRoleInOrganization(ur.roles as unknown as Role, activeOrganizationId))
+        .map(ur => ur.roles)
+        .filter(Boolean) || []
+
+      // Roles granted through groups are held like direct ones; a role held both ways counts once
+      const userGroups = await fetchUserGroups(userId, activeOrganizationId)
+      const roles = [...directRoles, ...userGroups.roles.filter(role => isRoleInOrganization(role, activeOrganizationId))]
+        .filter((role, index, array) => array.findIndex(r => (r as unknown as Role).id === (role as unknown as Role).id) === index) as typeof directRoles
       
-      // Flatten all permissions from all roles
-      const allPermissions = roles.flatMap(role => 
-        role.role_permissions?.map(rp => rp.permissions).filter(Boolean) || []
-      )
+      // Flatten all permissions from all roles, including those inherited from ancestor roles
+      const allPermissions = [
+        ...roles.flatMap(role => 
+          role.role_permissions?.map(rp => rp.permissions && { ...rp.permissions, conditions: rp.conditions ?? null }).filter(Boolean) || []
+        ) as unknown as Permission[],
+        ...await fetchInheritedPermissions(roles as unknown as Role[])
+      ]
       
-      // Remove duplicate permissions based on resource + action combination
+      // Remove duplicate permissions based on resource + action, keeping each distinct condition
       const uniquePermissions = allPermissions.filter((permission, index, array) => 
-        array.findIndex(p => p.resource === permission.resource && p.action === permission.action) === index
+        array.findIndex(p =>
+          p.resource === permission.resource &&
+          p.action === permission.action &&
+          JSON.stringify(p.conditions) === JSON.stringify(permission.conditions)
+        ) === index
       )
       
+      // Treat an expired password like an admin-requested reset even before the server flags it
+      const passwordExpired = !!data.password_expires_at && new Date(data.password_expires_at).getTime() <= Date.now()
+
       const transformedUser = {
-        ...data,
+        ...profile,
+        active_organization_id: activeOrganizationId,
+        organizations: (memberships || []).map(m => m.organizations).filter(Boolean) as unknown as Organization[],
+        groups: userGroups.groups,
+        // A soft-deleted account is signed out like a deactivated one
+        is_active: data.is_active && !data.deleted_at,
+        needs_password_reset: data.needs_password_reset || passwordExpired,
         roles,
         role_ids: roles.map(role => role.id),
-        permissions: uniquePermissions
+        permissions: uniquePermissions,
+        // The embedded role is inferred as an array but is a single row at runtime
+        mfa_required: roles.some(role => (role as unknown as Role).mfa_required),
+        inactivity_timeout_minutes: shortestTimeout(roles as unknown as Role[])
       }
       
       return transformedUser
@@ -94,90 +223,64 @@ export const userProfileApi = {
 
 // Dashboard Data Fetching
 export const dashboardApi = {
-  async getRecentActivity(): Promise<any[]> {
-    try {
-      // Simulate realistic activity data with better caching
-      const activities = [
-        {
-          id: '1',
-          type: 'user_registered',
-          description: 'New user registered to the system',
-          timestamp: new Date(Date.now() - 2 * 60 * 1000).toISOString(),
-          status: 'success'
-        },
-        {
-          id: '2',
-          type: 'transaction_approved',
-          description: 'Financial transaction approved',
-          timestamp: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
-          status: 'info'
-        },
-        {
-          id: '3',
-          type: 'report_generated',
-          description: 'System report generated',
-          timestamp: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
-          status: 'warning'
-        },
-        {
-          id: '4',
-          type: 'user_updated',
-          description: 'User profile updated',
-          timestamp: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString(),
-          status: 'info'
-        }
-      ]
-      
-      return activities
-    } catch (err) {
-      // Return empty array on error to prevent blocking UI
-      return []
-    }
+  async getRecentActivity(): Promise<DashboardActivity[]> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/dashboard-stats/activity`, {
+      method: 'GET',
+      headers
+    })
+
+    const result = await handleResponse(response)
+    return result.activity
   },
 
-  async getStats(): Promise<any[]> {
-    try {
-      // Return optimized stats data with better caching
-      const stats = [
-        {
-          name: 'Total Users',
-          value: '2,847',
-          change: '+4.75%',
-          changeType: 'positive' as const
-        },
-        {
-          name: 'Active Transactions',
-          value: '₹1,31,42,000',
-          change: '+8.2%',
-          changeType: 'positive' as const
-        },
-        {
-          name: 'Monthly Growth',
-          value: '24.1%',
-          change: '+0.7%',
-          changeType: 'positive' as const
-        },
-        {
-          name: 'Reports Generated',
-          value: '152',
-          change: '+4.8%',
-          changeType: 'positive' as const
-        }
-      ]
-      
-      return stats
-    } catch (err) {
-      // Return empty array on error to prevent blocking UI
-      return []
-    }
+  async getStats(): Promise<DashboardStats> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/dashboard-stats`, {
+      method: 'GET',
+      headers
+    })
+
+    const result = await handleResponse(response)
+    return result.stats
+  }
+}
+
+// Serialize user list params to query string values (shared by the API and the URL state)
+export function userListParamsToSearch(params: UserListParams): URLSearchParams {
+  const search = new URLSearchParams()
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') search.set(key, String(value))
+  })
+  return search
+}
+
+export function userListParamsFromSearch(search: URLSearchParams): UserListParams {
+  const parseBoolean = (value: string | null) => value === 'true' ? true : value === 'false' ? false : undefined
+  const parseNumber = (value: string | null) => {
+    const parsed = value ? parseInt(value, 10) : NaN
+    return Number.isNaN(parsed) ? undefined : parsed
+  }
+
+  return {
+    page: parseNumber(search.get('page')),
+    limit: parseNumber(search.get('limit')),
+    sort: (search.get('sort') as UserSortField) || undefined,
+    order: search.get('order') === 'asc' ? 'asc' : search.get('order') === 'desc' ? 'desc' : undefined,
+    search: search.get('search') || undefined,
+    role_id: search.get('role_id') || undefined,
+    is_active: parseBoolean(search.get('is_active')),
+    needs_password_reset: parseBoolean(search.get('needs_password_reset')),
+    deleted: search.get('deleted') === 'true' || undefined,
   }
 }
 
 // Admin Users API
 export const adminUsersApi = {
-  async getUsers(): Promise<{ users: User[] }> {
+  async getUsers(params: UserListParams = {}): Promise<PaginatedUsers> {
     const headers = await getAuthHeaders()
-    const response = await fetch(`${API_BASE_URL}/admin-users`, {
+    const query = userListParamsToSearch(params).toString()
+    const response = await fetch(`${API_BASE_URL}/admin-users${query ? `?${query}` : ''}`, {
       method: 'GET',
       headers
     })
@@ -186,7 +289,7 @@ export const adminUsersApi = {
     return result
   },
 
-  async createUser(userData: CreateUserData): Promise<{ user: User }> {
+  async createUser(userData: CreateUserData): Promise<{ user: User; email_error?: string }> {
     const headers = await getAuthHeaders()
     const response = await fetch(`${API_BASE_URL}/admin-users`, {
       method: 'POST',
@@ -198,7 +301,7 @@ export const adminUsersApi = {
     return result
   },
 
-  async updateUser(userId: string, userData: UpdateUserData): Promise<{ user: User }> {
+  async updateUser(userId: string, userData: UpdateUserData): Promise<{ user: User; email_error?: string }> {
     const headers = await getAuthHeaders()
     const response = await fetch(`${API_BASE_URL}/admin-users/${userId}`, {
       method: 'PUT',
@@ -217,6 +320,89 @@ export const adminUsersApi = {
       headers
     })
     
+    const result = await handleResponse(response)
+    return result
+  },
+
+  // With dryRun the rows are only validated; otherwise valid rows are created
+  // Applying an import takes the file in chunks; rowOffset numbers a chunk's rows within the file
+  async importUsers(rows: UserImportRow[], dryRun: boolean, rowOffset = 0): Promise<UserImportReport> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-users/import`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ rows, dry_run: dryRun, row_offset: rowOffset })
+    })
+
+    const result = await handleResponse(response)
+    return result
+  },
+
+  // roleId is required for add_role and remove_role
+  async batchUsers(action: UserBatchAction, userIds: string[], roleId?: string): Promise<UserBatchReport> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-users/batch`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ action, user_ids: userIds, role_id: roleId })
+    })
+
+    const result = await handleResponse(response)
+    return result
+  },
+
+  async restoreUser(userId: string): Promise<{ user: User }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-users/${userId}/restore`, {
+      method: 'POST',
+      headers
+    })
+
+    const result = await handleResponse(response)
+    return result
+  },
+
+  async getSessions(userId: string): Promise<UserSession[]> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-users/${userId}/sessions`, {
+      method: 'GET',
+      headers
+    })
+
+    const result = await handleResponse(response)
+    return result.sessions
+  },
+
+  // Without a sessionId every session of the user is ended
+  async revokeSessions(userId: string, sessionId?: string): Promise<{ revoked: number }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-users/${userId}/sessions${sessionId ? `/${sessionId}` : ''}`, {
+      method: 'DELETE',
+      headers
+    })
+
+    const result = await handleResponse(response)
+    return result
+  },
+
+  async unlockUser(userId: string): Promise<{ message: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-users/${userId}/unlock`, {
+      method: 'POST',
+      headers
+    })
+
+    const result = await handleResponse(response)
+    return result
+  },
+
+  async resetMfa(userId: string): Promise<{ message: string; removed: number }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-users/${userId}/mfa-reset`, {
+      method: 'POST',
+      headers
+    })
+
     const result = await handleResponse(response)
     return result
   }
@@ -231,6 +417,7 @@ export const rolesApi = {
         .select(`
           *,
           role_permissions(
+            conditions,
             permissions(
               id,
               resource,
@@ -246,7 +433,7 @@ export const rolesApi = {
       // Transform data to include permissions array
       const rolesWithPermissions = data?.map(role => ({
         ...role,
-        permissions: role.role_permissions?.map(rp => rp.permissions).filter(Boolean) || []
+        permissions: role.role_permissions?.map(rp => rp.permissions && { ...rp.permissions, conditions: rp.conditions ?? null }).filter(Boolean) || []
       })) || []
       
       return rolesWithPermissions
@@ -305,6 +492,55 @@ export const adminRolesApi = {
   }
 }
 
+// Admin Groups API
+export const adminGroupsApi = {
+  async getGroups(): Promise<Group[]> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-groups`, {
+      method: 'GET',
+      headers
+    })
+
+    const result = await handleResponse(response)
+    return result.groups
+  },
+
+  async createGroup(groupData: CreateGroupData): Promise<{ group: Group }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-groups`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(groupData)
+    })
+
+    const result = await handleResponse(response)
+    return result
+  },
+
+  async updateGroup(groupId: string, groupData: UpdateGroupData): Promise<{ group: Group }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-groups/${groupId}`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify(groupData)
+    })
+
+    const result = await handleResponse(response)
+    return result
+  },
+
+  async deleteGroup(groupId: string): Promise<{ message: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-groups/${groupId}`, {
+      method: 'DELETE',
+      headers
+    })
+
+    const result = await handleResponse(response)
+    return result
+  }
+}
+
 // Admin Permissions API
 export const adminPermissionsApi = {
   async getPermissions(): Promise<Permission[]> {
@@ -353,15 +589,55 @@ export const adminPermissionsApi = {
     return result
   }
 }
+// Audit Log API
+export const auditApi = {
+  async getEvents(filters: AuditEventFilters = {}): Promise<AuditEvent[]> {
+    const headers = await getAuthHeaders()
+    const params = new URLSearchParams()
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value))
+    })
+
+    const query = params.toString()
+    const response = await fetch(`${API_BASE_URL}/admin-audit${query ? `?${query}` : ''}`, {
+      method: 'GET',
+      headers
+    })
+
+    const result = await handleResponse(response)
+    return result.events
+  }
+}
+
+// Export API
+export const exportApi = {
+  // Resolves to the file body and the name suggested by Content-Disposition
+  async download(dataset: ExportDataset, format: ExportFormat): Promise<{ blob: Blob; filename: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-export/${dataset}?format=${format}`, {
+      method: 'GET',
+      headers
+    })
+
+    if (!response.ok) {
+      await handleResponse(response)
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || ''
+    const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `${dataset}.${format}`
+    return { blob: await response.blob(), filename }
+  }
+}
+
 // Password Validation API
 export const passwordValidationApi = {
-  async validatePassword(password: string): Promise<PasswordValidationResult> {
+  async validatePassword(password: string, context: PasswordContext = {}): Promise<PasswordValidationResult> {
     const response = await fetch(`${API_BASE_URL}/validate-password`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ password }),
+      body: JSON.stringify({ password, email: context.email, full_name: context.fullName }),
     })
 
     if (!response.ok) {
@@ -374,8 +650,75 @@ export const passwordValidationApi = {
   }
 }
 
+// Password Policy API
+export const passwordPolicyApi = {
+  // The policy row is readable by everyone so sign-up and reset forms can validate before submitting
+  async getPolicy(): Promise<PasswordPolicy> {
+    const { data, error } = await supabase
+      .from('password_policy')
+      .select('min_length, max_length, require_uppercase, require_lowercase, require_number, require_special, special_characters, min_distinct_characters, disallow_user_info, disallowed_substrings, password_history_count, max_age_days, expiry_warning_days')
+      .eq('id', 1)
+      .single()
+
+    if (error) throw error
+    return data
+  },
+
+  async updatePolicy(policy: PasswordPolicy): Promise<PasswordPolicy> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-settings/password-policy`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify(policy)
+    })
+
+    const result = await handleResponse(response)
+    return result.policy
+  }
+}
+
+// Session timeout settings (per-role inactivity timeouts)
+export const sessionTimeoutsApi = {
+  async getTimeouts(): Promise<RoleSessionTimeout[]> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-settings/session-timeouts`, {
+      method: 'GET',
+      headers
+    })
+
+    const result = await handleResponse(response)
+    return result.timeouts
+  },
+
+  async updateTimeouts(timeouts: RoleSessionTimeout[]): Promise<RoleSessionTimeout[]> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-settings/session-timeouts`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ timeouts })
+    })
+
+    const result = await handleResponse(response)
+    return result.timeouts
+  }
+}
+
 // Auth API
 export const authApi = {
+  // Password sign-in goes through the edge function so failed attempts are throttled and counted
+  async signIn(email: string, password: string): Promise<{ access_token: string; refresh_token: string }> {
+    const response = await fetch(`${API_BASE_URL}/sign-in`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ email, password }),
+    })
+
+    const result = await handleResponse(response)
+    return result.session
+  },
+
   async updatePassword(newPassword: string, clearNeedsPasswordReset: boolean = false): Promise<{ message: string; user: any }> {
     const headers = await getAuthHeaders()
     const response = await fetch(`${API_BASE_URL}/update-password`, {
@@ -392,6 +735,202 @@ export const authApi = {
   }
 }
 
+// Multi-factor Authentication API
+export const mfaApi = {
+  async getAssuranceLevel(): Promise<AssuranceState> {
+    const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel()
+    if (error) throw error
+    return { currentLevel: data.currentLevel, nextLevel: data.nextLevel }
+  },
+
+  async listVerifiedFactors(): Promise<MfaFactor[]> {
+    const { data, error } = await supabase.auth.mfa.listFactors()
+    if (error) throw error
+    return data.totp
+  },
+
+  async enrollTotp(): Promise<MfaEnrollment> {
+    // Abandoned enrollments leave unverified factors behind; clear them first
+    const { data: factors, error: listError } = await supabase.auth.mfa.listFactors()
+    if (listError) throw listError
+    for (const factor of factors.all.filter(f => f.status === 'unverified')) {
+      await supabase.auth.mfa.unenroll({ factorId: factor.id })
+    }
+
+    const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp' })
+    if (error) throw error
+
+    const qrCode = data.totp.qr_code.startsWith('data:')
+      ? data.totp.qr_code
+      : `data:image/svg+xml;utf-8,${encodeURIComponent(data.totp.qr_code)}`
+
+    return { factorId: data.id, qrCode, secret: data.totp.secret }
+  },
+
+  // Used both to confirm a new enrollment and to pass the login challenge
+  async verifyTotp(factorId: string, code: string): Promise<void> {
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code })
+    if (error) throw error
+  },
+
+  async unenroll(factorId: string): Promise<void> {
+    const { error } = await supabase.auth.mfa.unenroll({ factorId })
+    if (error) throw error
+    // Refresh so the session no longer advertises the removed factor
+    await supabase.auth.refreshSession()
+  },
+
+  async generateRecoveryCodes(): Promise<string[]> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/mfa-recovery/generate`, {
+      method: 'POST',
+      headers
+    })
+
+    const result = await handleResponse(response)
+    return result.codes
+  },
+
+  async redeemRecoveryCode(code: string): Promise<{ message: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/mfa-recovery/redeem`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ code })
+    })
+
+    const result = await handleResponse(response)
+    // The server removed the factor; refresh so the session reflects it
+    await supabase.auth.refreshSession()
+    return result
+  }
+}
+
+// Sessions API (the caller's own sessions)
+export const sessionsApi = {
+  async getSessions(): Promise<UserSession[]> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/sessions`, {
+      method: 'GET',
+      headers
+    })
+
+    const result = await handleResponse(response)
+    return result.sessions
+  },
+
+  // Records activity for this device; creates its entry after sign-in
+  async touch(): Promise<void> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/sessions/touch`, {
+      method: 'POST',
+      headers
+    })
+
+    await handleResponse(response)
+  },
+
+  async revokeSession(sessionId: string): Promise<{ revoked: number }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}`, {
+      method: 'DELETE',
+      headers
+    })
+
+    const result = await handleResponse(response)
+    return result
+  },
+
+  async revokeOtherSessions(): Promise<{ revoked: number }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/sessions/others`, {
+      method: 'DELETE',
+      headers
+    })
+
+    const result = await handleResponse(response)
+    return result
+  }
+}
+
+// The organizations the caller belongs to are read with the profile
+export const organizationsApi = {
+  // Selects the organization the caller works in; reload the profile afterwards
+  async switchOrganization(organizationId: string): Promise<void> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/organizations/switch`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ organization_id: organizationId })
+    })
+
+    await handleResponse(response)
+  }
+}
+
+// The caller's own just-in-time access requests
+export const accessRequestsApi = {
+  async getRequests(): Promise<AccessRequest[]> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/access-requests`, {
+      method: 'GET',
+      headers
+    })
+
+    const result = await handleResponse(response)
+    return result.requests
+  },
+
+  async createRequest(data: CreateAccessRequestData): Promise<AccessRequest> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/access-requests`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(data)
+    })
+
+    const result = await handleResponse(response)
+    return result.request
+  },
+
+  async cancelRequest(requestId: string): Promise<AccessRequest> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/access-requests/${requestId}`, {
+      method: 'DELETE',
+      headers
+    })
+
+    const result = await handleResponse(response)
+    return result.request
+  }
+}
+
+// Review queue for holders of access:approve
+export const adminAccessRequestsApi = {
+  async getRequests(status: AccessRequestStatusFilter = 'pending'): Promise<AccessRequest[]> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-access-requests?status=${status}`, {
+      method: 'GET',
+      headers
+    })
+
+    const result = await handleResponse(response)
+    return result.requests
+  },
+
+  async reviewRequest(requestId: string, decision: 'approve' | 'reject', note?: string): Promise<AccessRequest> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-access-requests/${requestId}/${decision}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ note })
+    })
+
+    const result = await handleResponse(response)
+    return result.request
+  }
+}
+
 export const fetchUserProfile = async (userId: string) => {
   
   const { data, error } = await supabase
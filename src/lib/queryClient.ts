@@ -1,4 +1,5 @@
 import { QueryClient } from '@tanstack/react-query'
+import type { AccessRequestStatusFilter, AuditEventFilters, UserListParams } from '../types/auth'
 
 export const queryClient = new QueryClient({
   defaultOptions: {
@@ -40,11 +41,20 @@ export const queryKeys = {
   dashboardActivity: () => ['dashboard', 'activity'] as const,
   
   // Admin queries
-  adminUsers: () => ['admin', 'users'] as const,
+  adminUsers: (params?: UserListParams) => params ? ['admin', 'users', params] as const : ['admin', 'users'] as const,
   roles: () => ['roles'] as const,
   adminRoles: () => ['admin', 'roles'] as const,
+  adminGroups: () => ['admin', 'groups'] as const,
   adminPermissions: () => ['admin', 'permissions'] as const,
+  auditEvents: (filters: AuditEventFilters = {}) => ['admin', 'audit', filters] as const,
+  adminUserSessions: (userId: string) => ['admin', 'sessions', userId] as const,
+  adminAccessRequests: (status: AccessRequestStatusFilter) => ['admin', 'accessRequests', status] as const,
   
   // Auth queries
   currentUser: () => ['auth', 'currentUser'] as const,
+  mfaFactors: (userId: string) => ['auth', 'mfaFactors', userId] as const,
+  sessions: (userId: string) => ['auth', 'sessions', userId] as const,
+  accessRequests: (userId: string) => ['auth', 'accessRequests', userId] as const,
+  passwordPolicy: () => ['settings', 'passwordPolicy'] as const,
+  sessionTimeouts: () => ['settings', 'sessionTimeouts'] as const,
 } as const
\ No newline at end of file
@@ -28,6 +28,21 @@ export const getAccessToken = async (): Promise<string | null> => {
   }
 }
 
+/**
+ * Id of the current auth session, read from the access token's `session_id`
+ * claim. Matches `user_sessions.id` and `user_session_events.session_id`.
+ */
+export const getCurrentSessionId = async (): Promise<string | null> => {
+  const payload = (await getAccessToken())?.split('.')[1]
+  if (!payload) return null
+
+  try {
+    return JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/'))).session_id ?? null
+  } catch {
+    return null
+  }
+}
+
 // Helper function to get auth headers for API calls
 export const getAuthHeaders = async () => {
   const token = await getAccessToken()
@@ -0,0 +1,169 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { adminAccessRequestsApi, ApiError } from '../lib/dataFetching'
+import { useAuth } from '../contexts/AuthContext'
+import AccessRequestStatusBadge from '../components/AccessRequestStatusBadge'
+import { formatDuration } from '../utils/accessRequests'
+import type { AccessRequest, AccessRequestStatusFilter } from '../types/auth'
+import { UserCheck, CheckCircle, AlertCircle } from 'lucide-react'
+
+const statusOptions: { value: AccessRequestStatusFilter; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'all', label: 'All requests' },
+]
+
+export function AdminAccessRequests() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+  const [status, setStatus] = useState<AccessRequestStatusFilter>('pending')
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const { data: requests = [], isLoading, error } = useQuery({
+    queryKey: queryKeys.adminAccessRequests(status),
+    queryFn: () => adminAccessRequestsApi.getRequests(status),
+    staleTime: 30 * 1000,
+  })
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ request, decision }: { request: AccessRequest; decision: 'approve' | 'reject' }) =>
+      adminAccessRequestsApi.reviewRequest(request.id, decision, notes[request.id]),
+    onMutate: () => setMessage(null),
+    onSuccess: (reviewed) => {
+      setMessage({
+        type: 'success',
+        text: `${reviewed.role_name} for ${reviewed.user_email} ${reviewed.status === 'approved' ? 'approved' : 'rejected'}`
+      })
+    },
+    onError: (error) => {
+      setMessage({ type: 'error', text: error instanceof ApiError ? error.message : 'Failed to review the request' })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'accessRequests'] })
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboardStats() })
+    },
+  })
+
+  const handleReview = (request: AccessRequest, decision: 'approve' | 'reject') => {
+    const prompt = decision === 'approve'
+      ? `Grant ${request.role_name} to ${request.user_email} for ${formatDuration(request.duration_hours)}?`
+      : `Reject the request from ${request.user_email}?`
+    if (!confirm(prompt)) return
+    reviewMutation.mutate({ request, decision })
+  }
+
+  return (
+    <div className="space-y-6 pt-24">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <UserCheck className="h-7 w-7 text-emerald-600 mr-2" />
+            Access Requests
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Approve or reject requests for time-limited roles
+          </p>
+        </div>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as AccessRequestStatusFilter)}
+          className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          {statusOptions.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-md flex items-start ${
+          message.type === 'success' ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'
+        }`}>
+          {message.type === 'success'
+            ? <CheckCircle className="h-5 w-5 text-green-400 mt-0.5 mr-3 flex-shrink-0" />
+            : <AlertCircle className="h-5 w-5 text-red-400 mt-0.5 mr-3 flex-shrink-0" />}
+          <div className={`text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-700'}`}>{message.text}</div>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error instanceof ApiError ? error.message : 'Failed to load access requests'}</p>
+        </div>
+      )}
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : requests.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-600">No access requests to show.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {requests.map((request) => (
+              <li key={request.id} className="px-4 py-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {request.user_full_name || request.user_email} requests{' '}
+                      <span className="font-semibold">{request.role_name}</span> for {formatDuration(request.duration_hours)}
+                      <span className="ml-2"><AccessRequestStatusBadge status={request.status} /></span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {request.user_email} · Requested {new Date(request.created_at).toLocaleString()}
+                      {request.reviewed_at && ` · Reviewed by ${request.reviewer_email || 'unknown'} ${new Date(request.reviewed_at).toLocaleString()}`}
+                      {request.status === 'approved' && request.valid_until && ` · Expires ${new Date(request.valid_until).toLocaleString()}`}
+                    </div>
+                  </div>
+                </div>
+                <p className="text-sm text-gray-700 whitespace-pre-line">{request.justification}</p>
+                {request.review_note && (
+                  <p className="text-xs text-gray-500">Note: {request.review_note}</p>
+                )}
+                {request.status === 'pending' && (
+                  request.user_id === user?.id ? (
+                    <p className="text-xs text-gray-500">Your own requests must be reviewed by another approver.</p>
+                  ) : (
+                    <div className="flex items-center space-x-3">
+                      <input
+                        type="text"
+                        value={notes[request.id] || ''}
+                        onChange={(e) => setNotes(prev => ({ ...prev, [request.id]: e.target.value }))}
+                        placeholder="Note for the requester (optional)"
+                        maxLength={1000}
+                        className="flex-1 border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => handleReview(request, 'reject')}
+                        disabled={reviewMutation.isPending}
+                        className="px-3 py-1.5 text-sm font-medium text-red-700 bg-red-100 hover:bg-red-200 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Reject
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleReview(request, 'approve')}
+                        disabled={reviewMutation.isPending}
+                        className="px-3 py-1.5 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Approve
+                      </button>
+                    </div>
+                  )
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
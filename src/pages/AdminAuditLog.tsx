@@ -0,0 +1,229 @@
+import React, { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { ClipboardList, Filter, X } from 'lucide-react'
+import { auditApi, adminUsersApi, ApiError } from '../lib/dataFetching'
+import type { AuditEvent, AuditEventFilters, AuditTargetType, UserListParams } from '../types/auth'
+
+// Actor dropdown is populated with the first page of users sorted by name
+const actorOptionsParams: UserListParams = { limit: 100, sort: 'full_name', order: 'asc' }
+
+const emptyFilters = {
+  actor_id: '',
+  target_type: '' as AuditTargetType | '',
+  target_id: '',
+  from: '',
+  to: ''
+}
+
+// Convert the form state to API filters; dates are expanded to whole days
+function toApiFilters(form: typeof emptyFilters): AuditEventFilters {
+  return {
+    actor_id: form.actor_id || undefined,
+    target_type: form.target_type || undefined,
+    target_id: form.target_id.trim() || undefined,
+    from: form.from ? new Date(`${form.from}T00:00:00`).toISOString() : undefined,
+    to: form.to ? new Date(`${form.to}T23:59:59.999`).toISOString() : undefined,
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+export function AdminAuditLog() {
+  const [formFilters, setFormFilters] = useState(emptyFilters)
+  const [appliedFilters, setAppliedFilters] = useState<AuditEventFilters>({})
+
+  const { data: events = [], isLoading, error } = useQuery({
+    queryKey: queryKeys.auditEvents(appliedFilters),
+    queryFn: () => auditApi.getEvents(appliedFilters),
+    staleTime: 30 * 1000,
+  })
+
+  const { data: usersData } = useQuery({
+    queryKey: queryKeys.adminUsers(actorOptionsParams),
+    queryFn: () => adminUsersApi.getUsers(actorOptionsParams),
+  })
+
+  const users = usersData?.users || []
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault()
+    setAppliedFilters(toApiFilters(formFilters))
+  }
+
+  const handleReset = () => {
+    setFormFilters(emptyFilters)
+    setAppliedFilters({})
+  }
+
+  return (
+    <div className="space-y-6 pt-24">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+          <ClipboardList className="h-7 w-7 text-emerald-600 mr-2" />
+          Audit Log
+        </h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Review who changed users, roles and permissions, and when
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error instanceof ApiError ? error.message : 'Failed to load audit events'}</p>
+        </div>
+      )}
+
+      {/* Filters */}
+      <form onSubmit={handleApply} className="bg-white shadow-sm rounded-lg border border-gray-200 p-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Actor</label>
+            <select
+              value={formFilters.actor_id}
+              onChange={(e) => setFormFilters(prev => ({ ...prev, actor_id: e.target.value }))}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+            >
+              <option value="">All actors</option>
+              {users.map((user) => (
+                <option key={user.id} value={user.id}>{user.full_name || user.email}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Target Type</label>
+            <select
+              value={formFilters.target_type}
+              onChange={(e) => setFormFilters(prev => ({ ...prev, target_type: e.target.value as AuditTargetType | '' }))}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+            >
+              <option value="">All targets</option>
+              <option value="user">User</option>
+              <option value="role">Role</option>
+              <option value="permission">Permission</option>
+              <option value="settings">Settings</option>
+              <option value="access_request">Access request</option>
+              <option value="group">Group</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Target ID</label>
+            <input
+              type="text"
+              value={formFilters.target_id}
+              onChange={(e) => setFormFilters(prev => ({ ...prev, target_id: e.target.value }))}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              placeholder="Record ID"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">From</label>
+            <input
+              type="date"
+              value={formFilters.from}
+              onChange={(e) => setFormFilters(prev => ({ ...prev, from: e.target.value }))}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">To</label>
+            <input
+              type="date"
+              value={formFilters.to}
+              onChange={(e) => setFormFilters(prev => ({ ...prev, to: e.target.value }))}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <button
+            type="button"
+            onClick={handleReset}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+          >
+            <X className="h-4 w-4 mr-2" />
+            Clear
+          </button>
+          <button
+            type="submit"
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md"
+          >
+            <Filter className="h-4 w-4 mr-2" />
+            Apply Filters
+          </button>
+        </div>
+      </form>
+
+      {/* Events */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-600">No audit events match the selected filters.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {events.map((event) => (
+              <AuditEventRow key={event.id} event={event} />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function AuditEventRow({ event }: { event: AuditEvent }) {
+  const changes = Object.entries(event.changes || {})
+
+  return (
+    <li className="px-4 py-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="flex items-center">
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800">
+              {event.action}
+            </span>
+            <span className="ml-2 text-sm text-gray-900">
+              by <span className="font-medium">{event.actor_email || event.actor_id || 'Unknown'}</span>
+            </span>
+          </div>
+          <div className="text-sm text-gray-500 mt-1">
+            Target: {event.target_type} <span className="font-mono text-xs">{event.target_id}</span>
+          </div>
+        </div>
+        <div className="text-right">
+          <div className="text-xs text-gray-400">{new Date(event.created_at).toLocaleString()}</div>
+          <div className="text-xs text-gray-400" title={event.user_agent || undefined}>
+            {event.ip_address || 'Unknown IP'}
+          </div>
+        </div>
+      </div>
+
+      {changes.length > 0 && (
+        <div className="mt-3 ml-2 space-y-1">
+          {changes.map(([field, change]) => (
+            <div key={field} className="text-xs text-gray-600">
+              <span className="font-medium text-gray-700">{field}:</span>{' '}
+              <span className="text-red-600 line-through">{formatValue(change.before)}</span>{' '}
+              → <span className="text-green-700">{formatValue(change.after)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </li>
+  )
+}
@@ -1,6 +1,9 @@
 import React from 'react'
 import { Link } from 'react-router-dom'
-import { useAuth } from '../contexts/AuthContext'
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { dashboardApi } from '../lib/dataFetching'
+import type { DashboardStats } from '../types/auth'
 import { 
   Users, 
   Shield, 
@@ -15,28 +18,28 @@ import {
 const adminStats = [
   {
     name: 'Total Users',
-    value: '2,651',
+    getValue: (stats?: DashboardStats) => stats?.users?.total.toLocaleString() ?? '—',
     description: 'Registered system users',
     icon: Users,
     color: 'bg-blue-500'
   },
   {
     name: 'Active Sessions',
-    value: '127',
-    description: 'Currently logged in users',
+    getValue: (stats?: DashboardStats) => stats?.users?.active_sessions.toLocaleString() ?? '—',
+    description: 'Sessions active in the last 30 minutes',
     icon: Activity,
     color: 'bg-green-500'
   },
   {
     name: 'Pending Approvals',
-    value: '8',
-    description: 'Awaiting admin approval',
+    getValue: (stats?: DashboardStats) => stats?.pending_approvals?.toLocaleString() ?? '—',
+    description: 'Access requests awaiting review',
     icon: AlertCircle,
     color: 'bg-yellow-500'
   },
   {
     name: 'System Health',
-    value: '98.5%',
+    getValue: () => '98.5%',
     description: 'Overall system uptime',
     icon: CheckCircle,
     color: 'bg-emerald-500'
@@ -88,8 +91,27 @@ const quickActions = [
   },
 ]
 
+const activityColors = {
+  success: 'bg-green-400',
+  info: 'bg-blue-400',
+  warning: 'bg-yellow-400',
+}
+
 export function AdminDashboard() {
-  const { user } = useAuth()
+  const { data: stats } = useQuery({
+    queryKey: queryKeys.dashboardStats(),
+    queryFn: dashboardApi.getStats,
+    staleTime: 10 * 60 * 1000,
+  })
+
+  const { data: recentActivity = [] } = useQuery({
+    queryKey: queryKeys.dashboardActivity(),
+    queryFn: dashboardApi.getRecentActivity,
+    staleTime: 2 * 60 * 1000,
+  })
+
+  const roleDistribution = stats?.role_distribution || []
+  const totalAssignments = roleDistribution.reduce((sum, entry) => sum + entry.user_count, 0)
 
   return (
     <div className="space-y-6 pt-24">
@@ -127,7 +149,7 @@ export function AdminDashboard() {
                         {stat.name}
                       </dt>
                       <dd className="text-lg font-medium text-gray-900">
-                        {stat.value}
+                        {stat.getValue(stats)}
                       </dd>
                       <dd className="text-sm text-gray-500">
                         {stat.description}
@@ -172,6 +194,35 @@ export function AdminDashboard() {
         </div>
       </div>
 
+      {/* Role Distribution */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">
+            Role Distribution
+          </h3>
+          {roleDistribution.length === 0 ? (
+            <p className="text-sm text-gray-500">No role assignments yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {roleDistribution.map((entry) => (
+                <div key={entry.role_id}>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium text-gray-700">{entry.role_name}</span>
+                    <span className="text-gray-500">{entry.user_count} users</span>
+                  </div>
+                  <div className="mt-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-2 bg-emerald-500 rounded-full"
+                      style={{ width: `${totalAssignments > 0 ? (entry.user_count / totalAssignments) * 100 : 0}%` }}
+                    ></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
       {/* Recent Admin Activity */}
       <div className="bg-white shadow-sm rounded-lg border border-gray-200">
         <div className="px-4 py-5 sm:p-6">
@@ -179,37 +230,23 @@ export function AdminDashboard() {
             Recent Admin Activity
           </h3>
           <div className="space-y-4">
-            <div className="flex items-center space-x-3">
-              <div className="flex-shrink-0 h-2 w-2 bg-green-400 rounded-full"></div>
-              <p className="text-sm text-gray-600">
-                User <span className="font-medium">Fatima Al-Zahra</span> was activated by {user?.full_name}
-              </p>
-              <span className="text-xs text-gray-400">2 minutes ago</span>
-            </div>
-            <div className="flex items-center space-x-3">
-              <div className="flex-shrink-0 h-2 w-2 bg-blue-400 rounded-full"></div>
-              <p className="text-sm text-gray-600">
-                New user <span className="font-medium">Omar Khalid</span> created by {user?.full_name}
-              </p>
-              <span className="text-xs text-gray-400">15 minutes ago</span>
-            </div>
-            <div className="flex items-center space-x-3">
-              <div className="flex-shrink-0 h-2 w-2 bg-yellow-400 rounded-full"></div>
-              <p className="text-sm text-gray-600">
-                System backup completed successfully
-              </p>
-              <span className="text-xs text-gray-400">1 hour ago</span>
-            </div>
-            <div className="flex items-center space-x-3">
-              <div className="flex-shrink-0 h-2 w-2 bg-purple-400 rounded-full"></div>
-              <p className="text-sm text-gray-600">
-                User roles updated for <span className="font-medium">Aisha Rahman</span>
-              </p>
-              <span className="text-xs text-gray-400">2 hours ago</span>
-            </div>
+            {recentActivity.length === 0 && (
+              <p className="text-sm text-gray-500">No recent activity.</p>
+            )}
+            {recentActivity.map((activity) => (
+              <div key={activity.id} className="flex items-center space-x-3">
+                <div className={`flex-shrink-0 h-2 w-2 ${activityColors[activity.status] || 'bg-gray-400'} rounded-full`}></div>
+                <p className="text-sm text-gray-600">
+                  {activity.description}
+                </p>
+                <span className="text-xs text-gray-400">
+                  {new Date(activity.timestamp).toLocaleString()}
+                </span>
+              </div>
+            ))}
           </div>
         </div>
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
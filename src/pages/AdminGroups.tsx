@@ -0,0 +1,384 @@
+import React, { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { Plus, Search, Edit, Trash2, UsersRound, X } from 'lucide-react'
+import { adminGroupsApi, adminRolesApi, adminUsersApi, ApiError } from '../lib/dataFetching'
+import { useAuth } from '../contexts/AuthContext'
+import { hasPermission } from '../utils/permissions'
+import type { Group, GroupMember, Role, CreateGroupData } from '../types/auth'
+
+const MEMBER_SEARCH_DEBOUNCE_MS = 300
+const MEMBER_SEARCH_LIMIT = 10
+
+export function AdminGroups() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const canManage = hasPermission(user, 'groups', 'manage')
+
+  const [searchTerm, setSearchTerm] = useState('')
+  const [showModal, setShowModal] = useState(false)
+  const [selectedGroup, setSelectedGroup] = useState<Group | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  const { data: groups = [], isLoading: groupsLoading } = useQuery({
+    queryKey: queryKeys.adminGroups(),
+    queryFn: adminGroupsApi.getGroups,
+  })
+
+  const { data: roles = [] } = useQuery({
+    queryKey: queryKeys.adminRoles(),
+    queryFn: adminRolesApi.getRoles,
+    enabled: canManage,
+  })
+
+  // Group changes alter the effective roles of members, so user listings are refreshed too
+  const onGroupsChanged = (message: string) => {
+    setSuccess(message)
+    setError(null)
+    setShowModal(false)
+    setSelectedGroup(null)
+    queryClient.invalidateQueries({ queryKey: queryKeys.adminGroups() })
+    queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers() })
+  }
+
+  const saveGroupMutation = useMutation({
+    mutationFn: ({ groupId, groupData }: { groupId?: string; groupData: CreateGroupData }) =>
+      groupId ? adminGroupsApi.updateGroup(groupId, groupData) : adminGroupsApi.createGroup(groupData),
+    onSuccess: (_, { groupId }) => onGroupsChanged(groupId ? 'Group updated successfully' : 'Group created successfully'),
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to save group')
+    },
+  })
+
+  const deleteGroupMutation = useMutation({
+    mutationFn: adminGroupsApi.deleteGroup,
+    onSuccess: () => onGroupsChanged('Group deleted successfully'),
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to delete group')
+    },
+  })
+
+  const handleDeleteGroup = (group: Group) => {
+    if (!confirm(`Delete ${group.name}? Its members lose the roles they hold through it.`)) return
+    deleteGroupMutation.mutate(group.id)
+  }
+
+  const loading = groupsLoading || saveGroupMutation.isPending || deleteGroupMutation.isPending
+
+  const filteredGroups = groups.filter(group =>
+    group.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (group.description && group.description.toLowerCase().includes(searchTerm.toLowerCase()))
+  )
+
+  return (
+    <div className="space-y-6 pt-24">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <UsersRound className="h-7 w-7 text-emerald-600 mr-2" />
+            Group Management
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Assign roles to teams and departments; every member holds the group's roles
+          </p>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => {
+              setSelectedGroup(null)
+              setShowModal(true)
+            }}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Group
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      {/* Search */}
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <Search className="h-5 w-5 text-gray-400" />
+        </div>
+        <input
+          type="text"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500"
+          placeholder="Search groups..."
+        />
+      </div>
+
+      {/* Groups List */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : filteredGroups.length === 0 ? (
+          <p className="px-4 py-12 text-center text-sm text-gray-500">No groups found</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {filteredGroups.map((group) => (
+              <li key={group.id} className="px-4 py-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">{group.name}</div>
+                    <div className="text-sm text-gray-500">{group.description || 'No description'}</div>
+                    <div className="text-sm text-gray-500 mt-1">
+                      {group.members.length} {group.members.length === 1 ? 'member' : 'members'}
+                      {group.members.length > 0 && `: ${group.members.map(member => member.full_name || member.email).join(', ')}`}
+                    </div>
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {group.roles.length === 0 && <span className="text-xs text-gray-400">No roles</span>}
+                      {group.roles.map(role => (
+                        <span
+                          key={role.id}
+                          className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800"
+                        >
+                          {role.name}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  {canManage && (
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => {
+                          setSelectedGroup(group)
+                          setShowModal(true)
+                        }}
+                        className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                        aria-label={`Edit ${group.name}`}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteGroup(group)}
+                        className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                        aria-label={`Delete ${group.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {showModal && (
+        <GroupModal
+          group={selectedGroup}
+          roles={roles}
+          onClose={() => {
+            setShowModal(false)
+            setSelectedGroup(null)
+          }}
+          onSubmit={(groupData) => saveGroupMutation.mutate({ groupId: selectedGroup?.id, groupData })}
+        />
+      )}
+    </div>
+  )
+}
+
+// Create or edit a group; roles and members are saved as the full lists shown
+function GroupModal({
+  group,
+  roles,
+  onClose,
+  onSubmit
+}: {
+  group: Group | null
+  roles: Role[]
+  onClose: () => void
+  onSubmit: (groupData: CreateGroupData) => void
+}) {
+  const [formData, setFormData] = useState({
+    name: group?.name || '',
+    description: group?.description || '',
+    role_ids: group?.roles.map(role => role.id) || []
+  })
+  const [members, setMembers] = useState<GroupMember[]>(group?.members || [])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSubmit({ ...formData, member_ids: members.map(member => member.id) })
+  }
+
+  const handleRoleChange = (roleId: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      role_ids: checked ? [...new Set([...prev.role_ids, roleId])] : prev.role_ids.filter(id => id !== roleId)
+    }))
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-[600px] shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">{group ? 'Edit Group' : 'Create New Group'}</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Group Name</label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                placeholder="e.g., Finance Team"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Description</label>
+              <textarea
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                rows={2}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Roles</label>
+              <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-md p-3 space-y-2">
+                {roles.map(role => (
+                  <label key={role.id} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={formData.role_ids.includes(role.id)}
+                      onChange={(e) => handleRoleChange(role.id, e.target.checked)}
+                      className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">
+                      {role.name}
+                      {role.description && <span className="text-gray-500"> - {role.description}</span>}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <GroupMemberPicker members={members} onChange={setMembers} />
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md"
+              >
+                {group ? 'Update Group' : 'Create Group'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// Members as removable chips, with a user search for adding more
+function GroupMemberPicker({
+  members,
+  onChange
+}: {
+  members: GroupMember[]
+  onChange: (members: GroupMember[]) => void
+}) {
+  const [search, setSearch] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedSearch(search.trim()), MEMBER_SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeoutId)
+  }, [search])
+
+  const { data: results, isFetching, error } = useQuery({
+    queryKey: queryKeys.adminUsers({ search: debouncedSearch, limit: MEMBER_SEARCH_LIMIT }),
+    queryFn: () => adminUsersApi.getUsers({ search: debouncedSearch, limit: MEMBER_SEARCH_LIMIT }),
+    enabled: debouncedSearch.length > 0,
+  })
+
+  const candidates = (results?.users || []).filter(user => !members.some(member => member.id === user.id))
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Members</label>
+      <div className="flex flex-wrap gap-2 mb-2">
+        {members.length === 0 && <span className="text-sm text-gray-400">No members yet</span>}
+        {members.map(member => (
+          <span
+            key={member.id}
+            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800"
+          >
+            {member.full_name || member.email}
+            <button
+              type="button"
+              onClick={() => onChange(members.filter(m => m.id !== member.id))}
+              className="ml-1 text-gray-400 hover:text-red-600"
+              aria-label={`Remove ${member.email}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+      <input
+        type="text"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+        placeholder="Search users by name or email to add them"
+      />
+      {debouncedSearch && (
+        <div className="mt-1 border border-gray-200 rounded-md max-h-40 overflow-y-auto">
+          {error ? (
+            <p className="px-3 py-2 text-sm text-red-600">{error instanceof ApiError ? error.message : 'Failed to search users'}</p>
+          ) : isFetching ? (
+            <p className="px-3 py-2 text-sm text-gray-500">Searching...</p>
+          ) : candidates.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-gray-500">No matching users</p>
+          ) : (
+            candidates.map(user => (
+              <button
+                key={user.id}
+                type="button"
+                onClick={() => {
+                  onChange([...members, { id: user.id, email: user.email, full_name: user.full_name }])
+                  setSearch('')
+                }}
+                className="block w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+              >
+                {user.full_name} <span className="text-gray-500">{user.email}</span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { queryKeys } from '../lib/queryClient'
 import { Plus, Search, Edit, Trash2, Key, Shield } from 'lucide-react'
 import { adminPermissionsApi, ApiError } from '../lib/dataFetching'
+import ExportButton from '../components/ExportButton'
 import type { Permission, CreatePermissionData, UpdatePermissionData } from '../types/auth'
 
 export function AdminPermissions() {
@@ -105,13 +106,16 @@ export function AdminPermissions() {
             Create and manage system permissions for granular access control
           </p>
         </div>
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Permission
-        </button>
+        <div className="flex items-center space-x-3">
+          <ExportButton dataset="access-matrix" label="Export Access Matrix" onError={setError} />
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Permission
+          </button>
+        </div>
       </div>
 
       {error && (
@@ -245,7 +249,7 @@ function CreatePermissionModal({
                 value={formData.resource}
                 onChange={(e) => setFormData(prev => ({ ...prev, resource: e.target.value }))}
                 className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
-                placeholder="e.g., users, reports, transactions"
+                placeholder="e.g., users, reports.finance or *"
               />
             </div>
             
@@ -257,7 +261,7 @@ function CreatePermissionModal({
                 value={formData.action}
                 onChange={(e) => setFormData(prev => ({ ...prev, action: e.target.value }))}
                 className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
-                placeholder="e.g., create, read, update, delete"
+                placeholder="e.g., read, export or *"
               />
             </div>
 
@@ -3,7 +3,11 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { queryKeys } from '../lib/queryClient'
 import { Plus, Search, Edit, Trash2, Shield, Users } from 'lucide-react'
 import { adminRolesApi, adminPermissionsApi, ApiError } from '../lib/dataFetching'
-import type { Role, Permission, CreateRoleData, UpdateRoleData } from '../types/auth'
+import ExportButton from '../components/ExportButton'
+import PermissionConditionEditor from '../components/PermissionConditionEditor'
+import { createsRoleCycle, getRoleLineage, getRoleParents } from '../utils/roleHierarchy'
+import { describeCondition } from '../utils/conditions'
+import type { Role, Permission, Condition, CreateRoleData, UpdateRoleData } from '../types/auth'
 
 export function AdminRoles() {
   const queryClient = useQueryClient()
@@ -100,13 +104,16 @@ export function AdminRoles() {
             Create and manage system roles with granular permissions
           </p>
         </div>
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Role
-        </button>
+        <div className="flex items-center space-x-3">
+          <ExportButton dataset="roles" onError={setError} />
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Role
+          </button>
+        </div>
       </div>
 
       {error && (
@@ -160,8 +167,27 @@ export function AdminRoles() {
                         <div className="text-sm text-gray-500">
                           {role.description || 'No description'}
                         </div>
+                        {role.parent_role_id && (
+                          <div className="text-sm text-gray-500">
+                            Inherits from {roles.find(parent => parent.id === role.parent_role_id)?.name || 'an unknown role'}
+                          </div>
+                        )}
                         <div className="text-sm text-gray-500 mt-1">
                           {role.permissions?.length || 0} permissions assigned
+                          {!!role.inherited_permissions?.length && `, ${role.inherited_permissions.length} inherited`}
+                          {role.mfa_required && (
+                            <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                              2FA required
+                            </span>
+                          )}
+                          {!role.organization_id && (
+                            <span
+                              title="Applies in every organization; only admins can change it"
+                              className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                            >
+                              Global
+                            </span>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -187,15 +213,27 @@ export function AdminRoles() {
                   </div>
                   
                   {/* Permissions List */}
-                  {role.permissions && role.permissions.length > 0 && (
+                  {(!!role.permissions?.length || !!role.inherited_permissions?.length) && (
                     <div className="mt-3 ml-14">
                       <div className="flex flex-wrap gap-2">
-                        {role.permissions.map((permission) => (
+                        {role.permissions?.map((permission) => (
                           <span
                             key={permission.id}
+                            title={permission.conditions ? `Only if ${describeCondition(permission.conditions)}` : undefined}
                             className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800"
                           >
                             {permission.resource}.{permission.action}
+                            {permission.conditions && <span className="ml-1 text-amber-600">if…</span>}
+                          </span>
+                        ))}
+                        {role.inherited_permissions?.map((permission, index) => (
+                          <span
+                            key={`${permission.id}-${index}`}
+                            title={`Inherited from ${permission.inherited_from}${permission.conditions ? `, only if ${describeCondition(permission.conditions)}` : ''}`}
+                            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border border-dashed border-gray-300 text-gray-500"
+                          >
+                            {permission.resource}.{permission.action}
+                            {permission.conditions && <span className="ml-1 text-amber-600">if…</span>}
                           </span>
                         ))}
                       </div>
@@ -211,6 +249,7 @@ export function AdminRoles() {
       {/* Modals */}
       {showCreateModal && (
         <CreateRoleModal
+          roles={roles}
           permissions={permissions}
           onClose={() => setShowCreateModal(false)}
           onSubmit={handleCreateRole}
@@ -219,6 +258,7 @@ export function AdminRoles() {
       {showEditModal && selectedRole && (
         <EditRoleModal
           role={selectedRole}
+          roles={roles}
           permissions={permissions}
           onClose={() => {
             setShowEditModal(false)
@@ -233,10 +273,12 @@ export function AdminRoles() {
 
 // Create Role Modal Component
 function CreateRoleModal({ 
+  roles,
   permissions, 
   onClose, 
   onSubmit 
 }: { 
+  roles: Role[]
   permissions: Permission[]
   onClose: () => void
   onSubmit: (roleData: CreateRoleData) => void
@@ -244,8 +286,12 @@ function CreateRoleModal({
   const [formData, setFormData] = useState({
     name: '',
     description: '',
-    permission_ids: [] as string[]
+    mfa_required: false,
+    parent_role_id: null as string | null,
+    permission_ids: [] as string[],
+    permission_conditions: {} as Record<string, Condition>
   })
+  const [conditionErrors, setConditionErrors] = useState<Record<string, string>>({})
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
@@ -257,10 +303,24 @@ function CreateRoleModal({
       ...prev,
       permission_ids: checked 
         ? [...new Set([...prev.permission_ids, permissionId])]
-        : prev.permission_ids.filter(id => id !== permissionId)
+        : prev.permission_ids.filter(id => id !== permissionId),
+      permission_conditions: checked ? prev.permission_conditions : withoutKey(prev.permission_conditions, permissionId)
     }))
+    if (!checked) setConditionErrors(prev => withoutKey(prev, permissionId))
   }
 
+  const handleConditionChange = (permissionId: string, condition: Condition | undefined, error: string | null) => {
+    setFormData(prev => ({
+      ...prev,
+      permission_conditions: condition
+        ? { ...prev.permission_conditions, [permissionId]: condition }
+        : withoutKey(prev.permission_conditions, permissionId)
+    }))
+    setConditionErrors(prev => (error ? { ...prev, [permissionId]: error } : withoutKey(prev, permissionId)))
+  }
+
+  const hasConditionErrors = Object.keys(conditionErrors).length > 0
+
   // Group permissions by resource
   const groupedPermissions = permissions.reduce((acc, permission) => {
     if (!acc[permission.resource]) {
@@ -270,6 +330,8 @@ function CreateRoleModal({
     return acc
   }, {} as Record<string, Permission[]>)
 
+  const inheritedFrom = getInheritedPermissionSources(formData.parent_role_id, roles)
+
   return (
     <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
       <div className="relative top-20 mx-auto p-5 border w-[600px] shadow-lg rounded-md bg-white">
@@ -299,6 +361,26 @@ function CreateRoleModal({
               />
             </div>
 
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="create_mfa_required"
+                checked={formData.mfa_required}
+                onChange={(e) => setFormData(prev => ({ ...prev, mfa_required: e.target.checked }))}
+                className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+              />
+              <label htmlFor="create_mfa_required" className="ml-2 text-sm text-gray-700">
+                Require two-factor authentication for users with this role
+              </label>
+            </div>
+
+            <ParentRoleSelect
+              id="create_parent_role_id"
+              value={formData.parent_role_id}
+              roles={roles}
+              onChange={(parentRoleId) => setFormData(prev => ({ ...prev, parent_role_id: parentRoleId }))}
+            />
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Permissions</label>
               <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-md p-3">
@@ -307,20 +389,32 @@ function CreateRoleModal({
                     <h4 className="font-medium text-gray-900 mb-2 capitalize">{resource}</h4>
                     <div className="space-y-2 ml-4">
                       {resourcePermissions.map((permission) => (
-                        <label key={permission.id} className="flex items-center">
-                          <input
-                            type="checkbox"
-                            checked={formData.permission_ids.includes(permission.id)}
-                            onChange={(e) => handlePermissionChange(permission.id, e.target.checked)}
-                            className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
-                          />
-                          <span className="ml-2 text-sm text-gray-700">
-                            {permission.action}
-                            {permission.description && (
-                              <span className="text-gray-500"> - {permission.description}</span>
-                            )}
-                          </span>
-                        </label>
+                        <div key={permission.id}>
+                          <label className="flex items-center">
+                            <input
+                              type="checkbox"
+                              checked={formData.permission_ids.includes(permission.id) || inheritedFrom.has(permission.id)}
+                              disabled={inheritedFrom.has(permission.id) && !formData.permission_ids.includes(permission.id)}
+                              onChange={(e) => handlePermissionChange(permission.id, e.target.checked)}
+                              className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500 disabled:opacity-50"
+                            />
+                            <span className="ml-2 text-sm text-gray-700">
+                              {permission.action}
+                              {permission.description && (
+                                <span className="text-gray-500"> - {permission.description}</span>
+                              )}
+                              {inheritedFrom.has(permission.id) && (
+                                <span className="text-gray-400 italic"> (inherited from {inheritedFrom.get(permission.id)})</span>
+                              )}
+                            </span>
+                          </label>
+                          {formData.permission_ids.includes(permission.id) && (
+                            <PermissionConditionEditor
+                              value={formData.permission_conditions[permission.id]}
+                              onChange={(condition, error) => handleConditionChange(permission.id, condition, error)}
+                            />
+                          )}
+                        </div>
                       ))}
                     </div>
                   </div>
@@ -328,6 +422,10 @@ function CreateRoleModal({
               </div>
             </div>
 
+            {hasConditionErrors && (
+              <p className="text-sm text-red-600">Fix the permission conditions before saving</p>
+            )}
+
             <div className="flex justify-end space-x-3 pt-4">
               <button
                 type="button"
@@ -338,7 +436,8 @@ function CreateRoleModal({
               </button>
               <button
                 type="submit"
-                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md"
+                disabled={hasConditionErrors}
+                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Create Role
               </button>
@@ -353,11 +452,13 @@ function CreateRoleModal({
 // Edit Role Modal Component
 function EditRoleModal({ 
   role, 
+  roles,
   permissions, 
   onClose, 
   onSubmit 
 }: { 
   role: Role
+  roles: Role[]
   permissions: Permission[]
   onClose: () => void
   onSubmit: (roleData: UpdateRoleData) => void
@@ -365,8 +466,14 @@ function EditRoleModal({
   const [formData, setFormData] = useState({
     name: role.name,
     description: role.description || '',
-    permission_ids: role.permissions?.map(p => p.id) || []
+    mfa_required: role.mfa_required || false,
+    parent_role_id: role.parent_role_id ?? null,
+    permission_ids: role.permissions?.map(p => p.id) || [],
+    permission_conditions: Object.fromEntries(
+      (role.permissions || []).filter(p => p.conditions).map(p => [p.id, p.conditions!])
+    ) as Record<string, Condition>
   })
+  const [conditionErrors, setConditionErrors] = useState<Record<string, string>>({})
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
@@ -378,10 +485,24 @@ function EditRoleModal({
       ...prev,
       permission_ids: checked 
         ? [...new Set([...prev.permission_ids, permissionId])]
-        : prev.permission_ids.filter(id => id !== permissionId)
+        : prev.permission_ids.filter(id => id !== permissionId),
+      permission_conditions: checked ? prev.permission_conditions : withoutKey(prev.permission_conditions, permissionId)
     }))
+    if (!checked) setConditionErrors(prev => withoutKey(prev, permissionId))
   }
 
+  const handleConditionChange = (permissionId: string, condition: Condition | undefined, error: string | null) => {
+    setFormData(prev => ({
+      ...prev,
+      permission_conditions: condition
+        ? { ...prev.permission_conditions, [permissionId]: condition }
+        : withoutKey(prev.permission_conditions, permissionId)
+    }))
+    setConditionErrors(prev => (error ? { ...prev, [permissionId]: error } : withoutKey(prev, permissionId)))
+  }
+
+  const hasConditionErrors = Object.keys(conditionErrors).length > 0
+
   // Group permissions by resource
   const groupedPermissions = permissions.reduce((acc, permission) => {
     if (!acc[permission.resource]) {
@@ -391,6 +512,8 @@ function EditRoleModal({
     return acc
   }, {} as Record<string, Permission[]>)
 
+  const inheritedFrom = getInheritedPermissionSources(formData.parent_role_id, roles)
+
   return (
     <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
       <div className="relative top-20 mx-auto p-5 border w-[600px] shadow-lg rounded-md bg-white">
@@ -422,6 +545,26 @@ function EditRoleModal({
               />
             </div>
 
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="edit_mfa_required"
+                checked={formData.mfa_required}
+                onChange={(e) => setFormData(prev => ({ ...prev, mfa_required: e.target.checked }))}
+                className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+              />
+              <label htmlFor="edit_mfa_required" className="ml-2 text-sm text-gray-700">
+                Require two-factor authentication for users with this role
+              </label>
+            </div>
+
+            <ParentRoleSelect
+              id="edit_parent_role_id"
+              value={formData.parent_role_id}
+              roles={roles.filter(candidate => !createsRoleCycle(role.id, candidate.id, getRoleParents(roles)))}
+              onChange={(parentRoleId) => setFormData(prev => ({ ...prev, parent_role_id: parentRoleId }))}
+            />
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Permissions</label>
               <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-md p-3">
@@ -430,20 +573,32 @@ function EditRoleModal({
                     <h4 className="font-medium text-gray-900 mb-2 capitalize">{resource}</h4>
                     <div className="space-y-2 ml-4">
                       {resourcePermissions.map((permission) => (
-                        <label key={permission.id} className="flex items-center">
-                          <input
-                            type="checkbox"
-                            checked={formData.permission_ids.includes(permission.id)}
-                            onChange={(e) => handlePermissionChange(permission.id, e.target.checked)}
-                            className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
-                          />
-                          <span className="ml-2 text-sm text-gray-700">
-                            {permission.action}
-                            {permission.description && (
-                              <span className="text-gray-500"> - {permission.description}</span>
-                            )}
-                          </span>
-                        </label>
+                        <div key={permission.id}>
+                          <label className="flex items-center">
+                            <input
+                              type="checkbox"
+                              checked={formData.permission_ids.includes(permission.id) || inheritedFrom.has(permission.id)}
+                              disabled={inheritedFrom.has(permission.id) && !formData.permission_ids.includes(permission.id)}
+                              onChange={(e) => handlePermissionChange(permission.id, e.target.checked)}
+                              className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500 disabled:opacity-50"
+                            />
+                            <span className="ml-2 text-sm text-gray-700">
+                              {permission.action}
+                              {permission.description && (
+                                <span className="text-gray-500"> - {permission.description}</span>
+                              )}
+                              {inheritedFrom.has(permission.id) && (
+                                <span className="text-gray-400 italic"> (inherited from {inheritedFrom.get(permission.id)})</span>
+                              )}
+                            </span>
+                          </label>
+                          {formData.permission_ids.includes(permission.id) && (
+                            <PermissionConditionEditor
+                              value={formData.permission_conditions[permission.id]}
+                              onChange={(condition, error) => handleConditionChange(permission.id, condition, error)}
+                            />
+                          )}
+                        </div>
                       ))}
                     </div>
                   </div>
@@ -451,6 +606,10 @@ function EditRoleModal({
               </div>
             </div>
 
+            {hasConditionErrors && (
+              <p className="text-sm text-red-600">Fix the permission conditions before saving</p>
+            )}
+
             <div className="flex justify-end space-x-3 pt-4">
               <button
                 type="button"
@@ -461,7 +620,8 @@ function EditRoleModal({
               </button>
               <button
                 type="submit"
-                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md"
+                disabled={hasConditionErrors}
+                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Update Role
               </button>
@@ -471,4 +631,54 @@ function EditRoleModal({
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+function withoutKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const rest = { ...record }
+  delete rest[key]
+  return rest
+}
+
+// Permission id -> name of the nearest role in the parent's lineage that holds it directly
+function getInheritedPermissionSources(parentRoleId: string | null, roles: Role[]): Map<string, string> {
+  const sources = new Map<string, string>()
+  if (!parentRoleId) return sources
+
+  for (const roleId of getRoleLineage(parentRoleId, getRoleParents(roles))) {
+    const ancestor = roles.find(role => role.id === roleId)
+    ancestor?.permissions?.forEach(permission => {
+      if (!sources.has(permission.id)) sources.set(permission.id, ancestor.name)
+    })
+  }
+  return sources
+}
+
+function ParentRoleSelect({
+  id,
+  value,
+  roles,
+  onChange
+}: {
+  id: string
+  value: string | null
+  roles: Role[]
+  onChange: (parentRoleId: string | null) => void
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700">Inherits From</label>
+      <select
+        id={id}
+        value={value || ''}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+      >
+        <option value="">No parent role</option>
+        {roles.map(role => (
+          <option key={role.id} value={role.id}>{role.name}</option>
+        ))}
+      </select>
+      <p className="text-xs text-gray-500 mt-1">The role also receives every permission of the parent and its ancestors</p>
+    </div>
+  )
+}
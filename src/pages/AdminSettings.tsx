@@ -0,0 +1,345 @@
+import React, { useState, useEffect } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { Lock } from 'lucide-react'
+import { passwordPolicyApi, sessionTimeoutsApi, ApiError } from '../lib/dataFetching'
+import type { PasswordPolicy, RoleSessionTimeout } from '../types/auth'
+
+type NumberField = 'min_length' | 'max_length' | 'min_distinct_characters' | 'password_history_count' | 'max_age_days' | 'expiry_warning_days'
+
+type RequirementField = 'require_uppercase' | 'require_lowercase' | 'require_number' | 'require_special' | 'disallow_user_info'
+
+const requirementOptions: { field: RequirementField; label: string }[] = [
+  { field: 'require_uppercase', label: 'Require an uppercase letter' },
+  { field: 'require_lowercase', label: 'Require a lowercase letter' },
+  { field: 'require_number', label: 'Require a number' },
+  { field: 'require_special', label: 'Require a special character' },
+  { field: 'disallow_user_info', label: "Reject passwords containing the user's name or email" },
+]
+
+export function AdminSettings() {
+  const queryClient = useQueryClient()
+
+  const [formData, setFormData] = useState<PasswordPolicy | null>(null)
+  // Disallowed substrings are edited one per line
+  const [disallowedText, setDisallowedText] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  const { data: policy, isLoading, error: loadError } = useQuery({
+    queryKey: queryKeys.passwordPolicy(),
+    queryFn: passwordPolicyApi.getPolicy,
+  })
+
+  useEffect(() => {
+    if (policy) {
+      setFormData(policy)
+      setDisallowedText(policy.disallowed_substrings.join('\n'))
+    }
+  }, [policy])
+
+  const updatePolicyMutation = useMutation({
+    mutationFn: passwordPolicyApi.updatePolicy,
+    onSuccess: (updatedPolicy) => {
+      setSuccess('Password policy updated successfully')
+      queryClient.setQueryData(queryKeys.passwordPolicy(), updatedPolicy)
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to update password policy')
+    },
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData) return
+    setError(null)
+    setSuccess(null)
+
+    if (formData.max_length < formData.min_length) {
+      setError('Maximum length must be at least the minimum length')
+      return
+    }
+
+    updatePolicyMutation.mutate({
+      ...formData,
+      disallowed_substrings: disallowedText.split('\n').map(line => line.trim()).filter(Boolean),
+    })
+  }
+
+  const setNumber = (field: NumberField, value: string) => {
+    setFormData(prev => prev && { ...prev, [field]: parseInt(value, 10) || 0 })
+  }
+
+  if (isLoading || (!formData && !loadError)) {
+    return (
+      <div className="flex items-center justify-center h-64 pt-24">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6 pt-24">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+          <Lock className="h-7 w-7 text-emerald-600 mr-2" />
+          Security Settings
+        </h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Configure the rules every new password must satisfy and how long idle sessions last
+        </p>
+      </div>
+
+      {(error || loadError) && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error || (loadError instanceof Error ? loadError.message : 'Failed to load password policy')}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      {formData && (
+        <form onSubmit={handleSubmit} className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 space-y-6">
+          <h2 className="text-lg font-medium text-gray-900">Password Policy</h2>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div>
+              <label htmlFor="min_length" className="block text-sm font-medium text-gray-700">Minimum Length</label>
+              <input
+                id="min_length"
+                type="number"
+                min={1}
+                required
+                value={formData.min_length}
+                onChange={(e) => setNumber('min_length', e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="max_length" className="block text-sm font-medium text-gray-700">Maximum Length</label>
+              <input
+                id="max_length"
+                type="number"
+                min={formData.min_length}
+                required
+                value={formData.max_length}
+                onChange={(e) => setNumber('max_length', e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="min_distinct_characters" className="block text-sm font-medium text-gray-700">Minimum Distinct Characters</label>
+              <input
+                id="min_distinct_characters"
+                type="number"
+                min={0}
+                required
+                value={formData.min_distinct_characters}
+                onChange={(e) => setNumber('min_distinct_characters', e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="password_history_count" className="block text-sm font-medium text-gray-700">Remembered Passwords</label>
+              <input
+                id="password_history_count"
+                type="number"
+                min={0}
+                max={24}
+                required
+                value={formData.password_history_count}
+                onChange={(e) => setNumber('password_history_count', e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">Recent passwords that cannot be reused; 0 turns this off</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div>
+              <label htmlFor="max_age_days" className="block text-sm font-medium text-gray-700">Maximum Age (days)</label>
+              <input
+                id="max_age_days"
+                type="number"
+                min={0}
+                required
+                value={formData.max_age_days}
+                onChange={(e) => setNumber('max_age_days', e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">Users must choose a new password after this many days; 0 means never</p>
+            </div>
+            <div>
+              <label htmlFor="expiry_warning_days" className="block text-sm font-medium text-gray-700">Expiry Warning (days)</label>
+              <input
+                id="expiry_warning_days"
+                type="number"
+                min={0}
+                required
+                disabled={formData.max_age_days === 0}
+                value={formData.expiry_warning_days}
+                onChange={(e) => setNumber('expiry_warning_days', e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500 disabled:bg-gray-100"
+              />
+              <p className="mt-1 text-xs text-gray-500">Show a reminder this many days before the password expires</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {requirementOptions.map(({ field, label }) => (
+              <label key={field} className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData[field]}
+                  onChange={(e) => setFormData(prev => prev && { ...prev, [field]: e.target.checked })}
+                  className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">{label}</span>
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <label htmlFor="special_characters" className="block text-sm font-medium text-gray-700">Special Characters</label>
+            <input
+              id="special_characters"
+              type="text"
+              value={formData.special_characters}
+              onChange={(e) => setFormData(prev => prev && { ...prev, special_characters: e.target.value })}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 font-mono focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">Characters that count towards the special character requirement</p>
+          </div>
+
+          <div>
+            <label htmlFor="disallowed_substrings" className="block text-sm font-medium text-gray-700">Disallowed Words</label>
+            <textarea
+              id="disallowed_substrings"
+              rows={4}
+              value={disallowedText}
+              onChange={(e) => setDisallowedText(e.target.value)}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 font-mono focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              placeholder={'password\ncompanyname'}
+            />
+            <p className="mt-1 text-xs text-gray-500">One per line; matched case-insensitively anywhere in the password</p>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={updatePolicyMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {updatePolicyMutation.isPending ? 'Saving...' : 'Save Policy'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <SessionTimeoutSettings />
+    </div>
+  )
+}
+
+function SessionTimeoutSettings() {
+  const queryClient = useQueryClient()
+  // Minutes per role id as typed; blank means the default
+  const [minutesByRole, setMinutesByRole] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  const { data: timeouts, isLoading } = useQuery({
+    queryKey: queryKeys.sessionTimeouts(),
+    queryFn: sessionTimeoutsApi.getTimeouts,
+  })
+
+  useEffect(() => {
+    if (timeouts) {
+      setMinutesByRole(Object.fromEntries(timeouts.map(timeout => [timeout.role_id, timeout.inactivity_timeout_minutes?.toString() ?? ''])))
+    }
+  }, [timeouts])
+
+  const updateTimeoutsMutation = useMutation({
+    mutationFn: sessionTimeoutsApi.updateTimeouts,
+    onSuccess: (updatedTimeouts) => {
+      setSuccess('Session timeouts updated successfully')
+      queryClient.setQueryData(queryKeys.sessionTimeouts(), updatedTimeouts)
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to update session timeouts')
+    },
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!timeouts) return
+    setError(null)
+    setSuccess(null)
+
+    const updatedTimeouts: RoleSessionTimeout[] = timeouts.map(timeout => {
+      const value = minutesByRole[timeout.role_id]?.trim()
+      return { ...timeout, inactivity_timeout_minutes: value ? parseInt(value, 10) : null }
+    })
+    updateTimeoutsMutation.mutate(updatedTimeouts)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-medium text-gray-900">Session Timeouts</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          Minutes without activity before a user is signed out, with a warning a minute beforehand. Users with several
+          roles get the shortest timeout; leave a role blank to use the default of 15 minutes.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600"></div>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {timeouts?.map(timeout => (
+            <div key={timeout.role_id}>
+              <label htmlFor={`timeout_${timeout.role_id}`} className="block text-sm font-medium text-gray-700">{timeout.role_name}</label>
+              <input
+                id={`timeout_${timeout.role_id}`}
+                type="number"
+                min={1}
+                max={1440}
+                placeholder="15"
+                value={minutesByRole[timeout.role_id] ?? ''}
+                onChange={(e) => setMinutesByRole(prev => ({ ...prev, [timeout.role_id]: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={!timeouts || updateTimeoutsMutation.isPending}
+          className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {updateTimeoutsMutation.isPending ? 'Saving...' : 'Save Timeouts'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -1,41 +1,124 @@
 import React, { useState, useEffect } from 'react'
-import { useLoaderData } from 'react-router-dom'
+import { useLoaderData, useSearchParams } from 'react-router-dom'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { queryKeys } from '../lib/queryClient'
-import { Plus, Search, Edit, Trash2, Shield } from 'lucide-react'
-import { adminUsersApi, adminRolesApi, ApiError } from '../lib/dataFetching'
+import { Plus, Search, Edit, Trash2, Shield, ChevronLeft, ChevronRight, Unlock, Upload, RotateCcw, Monitor } from 'lucide-react'
+import { adminUsersApi, adminRolesApi, adminGroupsApi, ApiError, userListParamsFromSearch, userListParamsToSearch } from '../lib/dataFetching'
 import { generateTemporaryPassword } from '../utils/validation'
-import type { User, Role, CreateUserData, UpdateUserData } from '../types/auth'
+import ImportUsersModal from '../components/ImportUsersModal'
+import ExportButton from '../components/ExportButton'
+import UserSessionsModal from '../components/UserSessionsModal'
+import type { User, Role, Group, RoleAssignment, CreateUserData, UpdateUserData, UserListParams, PaginatedUsers, UserBatchAction, UserBatchResult, UserBatchReport } from '../types/auth'
+
+const DEFAULT_PAGE_SIZE = 20
+
+// Lockouts expire on their own, so only a future locked_until counts
+const isLocked = (user: User) => !!user.locked_until && new Date(user.locked_until).getTime() > Date.now()
+const SEARCH_DEBOUNCE_MS = 300
+
+// Completes "N users ..." after a bulk action
+const batchActionLabels: Record<UserBatchAction, string> = {
+  activate: 'activated',
+  deactivate: 'deactivated',
+  add_role: 'assigned the role',
+  remove_role: 'removed from the role',
+  force_password_reset: 'flagged for a password reset',
+  delete: 'deleted',
+}
+
+const bulkButtonClass = 'px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed'
+
+// Replace updated users in a cached page and drop deleted ones
+function mergeBatchReport(usersPage: PaginatedUsers | undefined, report: UserBatchReport): PaginatedUsers | undefined {
+  if (!usersPage) return usersPage
+  const updated = new Map(report.results.filter(result => result.user).map(result => [result.user_id, result.user!]))
+  const deleted = new Set(report.action === 'delete'
+    ? report.results.filter(result => result.status === 'succeeded').map(result => result.user_id)
+    : [])
+  const users = usersPage.users.filter(user => !deleted.has(user.id)).map(user => updated.get(user.id) ?? user)
+  return { ...usersPage, users, total: usersPage.total - (usersPage.users.length - users.length) }
+}
+
+const sortOptions = [
+  { value: 'created_at:desc', label: 'Newest first' },
+  { value: 'created_at:asc', label: 'Oldest first' },
+  { value: 'full_name:asc', label: 'Name (A–Z)' },
+  { value: 'full_name:desc', label: 'Name (Z–A)' },
+  { value: 'email:asc', label: 'Email (A–Z)' },
+  { value: 'email:desc', label: 'Email (Z–A)' },
+]
 
 export function AdminUsers() {
   const queryClient = useQueryClient()
-  const loaderData = useLoaderData() as { users: User[]; roles: Role[] }
-  
-  const [searchTerm, setSearchTerm] = useState('')
+  const loaderData = useLoaderData() as { usersData: PaginatedUsers | null; roles: Role[] }
+  const [searchParams, setSearchParams] = useSearchParams()
+  const listParams = userListParamsFromSearch(searchParams)
+  const page = listParams.page || 1
+  const limit = listParams.limit || DEFAULT_PAGE_SIZE
+
+  const [searchTerm, setSearchTerm] = useState(listParams.search || '')
   const [showCreateModal, setShowCreateModal] = useState(false)
   const [showEditModal, setShowEditModal] = useState(false)
+  const [showImportModal, setShowImportModal] = useState(false)
   const [selectedUser, setSelectedUser] = useState<User | null>(null)
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [bulkRoleId, setBulkRoleId] = useState('')
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
 
   // Use React Query with initial data from loader
   const { data: usersData, isLoading: usersLoading } = useQuery({
-    queryKey: queryKeys.adminUsers(),
-    queryFn: adminUsersApi.getUsers,
-    initialData: { users: loaderData.users },
+    queryKey: queryKeys.adminUsers(listParams),
+    queryFn: () => adminUsersApi.getUsers(listParams),
+    initialData: loaderData.usersData ?? undefined,
   })
 
+  // Update URL state; any filter change returns to the first page
+  const updateListParams = (changes: Partial<UserListParams>) => {
+    const next = { ...listParams, page: undefined, ...changes }
+    setSearchParams(userListParamsToSearch(next), { replace: true })
+  }
+
+  // Debounce search input before syncing it to the URL; params are read at that time
+  const urlSearch = listParams.search || ''
+  useEffect(() => {
+    if (searchTerm === urlSearch) return
+    const timeoutId = setTimeout(() => {
+      setSearchParams(current => userListParamsToSearch({
+        ...userListParamsFromSearch(current),
+        page: undefined,
+        search: searchTerm.trim() || undefined
+      }), { replace: true })
+    }, SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeoutId)
+  }, [searchTerm, urlSearch, setSearchParams])
+
+  // Selection applies to the visible page only
+  const listKey = searchParams.toString()
+  useEffect(() => {
+    setSelectedIds(new Set())
+  }, [listKey])
+
   const { data: roles } = useQuery({
     queryKey: queryKeys.adminRoles(),
     queryFn: adminRolesApi.getRoles,
     initialData: loaderData.roles,
   })
 
+  // Only the edit modal offers group membership
+  const { data: groups } = useQuery({
+    queryKey: queryKeys.adminGroups(),
+    queryFn: adminGroupsApi.getGroups,
+    enabled: showEditModal,
+  })
+
   // Mutations for user operations
   const createUserMutation = useMutation({
     mutationFn: adminUsersApi.createUser,
-    onSuccess: () => {
+    onSuccess: (result) => {
       setSuccess('User created successfully')
+      if (result.email_error) setError(result.email_error)
       setShowCreateModal(false)
       queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers() })
     },
@@ -47,11 +130,13 @@ export function AdminUsers() {
   const updateUserMutation = useMutation({
     mutationFn: ({ userId, userData }: { userId: string; userData: UpdateUserData }) =>
       adminUsersApi.updateUser(userId, userData),
-    onSuccess: () => {
+    onSuccess: (result) => {
       setSuccess('User updated successfully')
+      if (result.email_error) setError(result.email_error)
       setShowEditModal(false)
       setSelectedUser(null)
       queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers() })
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminGroups() })
     },
     onError: (error) => {
       setError(error instanceof ApiError ? error.message : 'Failed to update user')
@@ -69,6 +154,91 @@ export function AdminUsers() {
     },
   })
 
+  const restoreUserMutation = useMutation({
+    mutationFn: adminUsersApi.restoreUser,
+    onSuccess: () => {
+      setSuccess('User restored successfully')
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to restore user')
+    },
+  })
+
+  const unlockUserMutation = useMutation({
+    mutationFn: adminUsersApi.unlockUser,
+    onSuccess: () => {
+      setSuccess('User unlocked successfully')
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to unlock user')
+    },
+  })
+
+  const resetMfaMutation = useMutation({
+    mutationFn: adminUsersApi.resetMfa,
+    onSuccess: (result) => {
+      setSuccess(result.removed > 0 ? 'Two-factor authentication reset successfully' : 'User had no two-factor authenticators to reset')
+      setShowEditModal(false)
+      setSelectedUser(null)
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to reset two-factor authentication')
+    },
+  })
+
+  const batchMutation = useMutation({
+    mutationFn: ({ action, userIds, roleId }: { action: UserBatchAction; userIds: string[]; roleId?: string }) =>
+      adminUsersApi.batchUsers(action, userIds, roleId),
+    onSuccess: (report) => {
+      queryClient.setQueriesData<PaginatedUsers>({ queryKey: queryKeys.adminUsers() }, (usersPage) => mergeBatchReport(usersPage, report))
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers() })
+
+      const failures = report.results.filter(result => result.status === 'failed')
+      // Failed users stay selected so the action can be retried
+      setSelectedIds(new Set(failures.map(result => result.user_id)))
+      const { succeeded } = report.summary
+      setSuccess(succeeded > 0 ? `${succeeded} user${succeeded === 1 ? '' : 's'} ${batchActionLabels[report.action]}` : null)
+      const emailById = new Map(users.map(user => [user.id, user.email]))
+      const describe = (result: UserBatchResult, message?: string) => `${emailById.get(result.user_id) || result.user_id} (${message})`
+      const emailFailures = report.results.filter(result => result.email_error)
+      if (failures.length > 0) {
+        setError(`${failures.length} of ${report.summary.total} failed: ${failures
+          .map(result => describe(result, result.error))
+          .join('; ')}`)
+      } else if (emailFailures.length > 0) {
+        setError(`Password reset emails could not be sent to ${emailFailures
+          .map(result => describe(result, result.email_error))
+          .join('; ')}`)
+      }
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to apply bulk action')
+    },
+  })
+
+  const handleBatch = (action: UserBatchAction, confirmMessage?: string) => {
+    const count = selectedIds.size
+    if (confirmMessage && !confirm(confirmMessage.replace('{count}', `${count} user${count === 1 ? '' : 's'}`))) return
+    setError(null)
+    setSuccess(null)
+    batchMutation.mutate({
+      action,
+      userIds: [...selectedIds],
+      roleId: action === 'add_role' || action === 'remove_role' ? bulkRoleId : undefined,
+    })
+  }
+
+  const toggleSelected = (userId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(userId)) next.delete(userId)
+      else next.add(userId)
+      return next
+    })
+  }
+
   const handleCreateUser = (userData: CreateUserData) => {
     createUserMutation.mutate(userData)
   }
@@ -78,18 +248,21 @@ export function AdminUsers() {
     updateUserMutation.mutate({ userId: selectedUser.id, userData })
   }
 
+  const handleResetMfa = (userId: string) => {
+    if (!confirm('Remove all two-factor authenticators and recovery codes for this user? They will need to enroll again.')) return
+    resetMfaMutation.mutate(userId)
+  }
+
   const handleDeleteUser = (userId: string) => {
-    if (!confirm('Are you sure you want to delete this user?')) return
+    if (!confirm('Are you sure you want to delete this user? They can be restored from Deleted users until the account is purged.')) return
     deleteUserMutation.mutate(userId)
   }
 
   const users = usersData?.users || []
-  const loading = usersLoading || createUserMutation.isPending || updateUserMutation.isPending || deleteUserMutation.isPending
-
-  const filteredUsers = users.filter(user =>
-    user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    user.full_name.toLowerCase().includes(searchTerm.toLowerCase())
-  )
+  const total = usersData?.total || 0
+  const totalPages = Math.max(Math.ceil(total / limit), 1)
+  const loading = usersLoading || createUserMutation.isPending || updateUserMutation.isPending || deleteUserMutation.isPending || unlockUserMutation.isPending || resetMfaMutation.isPending || batchMutation.isPending || restoreUserMutation.isPending
+  const allSelected = users.length > 0 && users.every(user => selectedIds.has(user.id))
 
   return (
     <div className="space-y-6 pt-24">
@@ -100,13 +273,23 @@ export function AdminUsers() {
             Manage user accounts, roles, and permissions
           </p>
         </div>
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add User
-        </button>
+        <div className="flex items-center space-x-3">
+          <ExportButton dataset="users" onError={setError} />
+          <button
+            onClick={() => setShowImportModal(true)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import CSV
+          </button>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add User
+          </button>
+        </div>
       </div>
 
       {error && (
@@ -121,20 +304,133 @@ export function AdminUsers() {
         </div>
       )}
 
-      {/* Search */}
-      <div className="relative">
-        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-          <Search className="h-5 w-5 text-gray-400" />
+      {/* Search and Filters */}
+      <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+        <div className="relative flex-1">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search className="h-5 w-5 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500"
+            placeholder="Search by name or email..."
+          />
         </div>
-        <input
-          type="text"
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500"
-          placeholder="Search users..."
-        />
+        <select
+          value={listParams.role_id || ''}
+          onChange={(e) => updateListParams({ role_id: e.target.value || undefined })}
+          className="border border-gray-300 rounded-md px-3 py-2 bg-white text-sm focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          <option value="">All roles</option>
+          {(roles || []).map((role) => (
+            <option key={role.id} value={role.id}>{role.name}</option>
+          ))}
+        </select>
+        <select
+          value={listParams.deleted ? 'deleted' : ''}
+          onChange={(e) => updateListParams({ deleted: e.target.value === 'deleted' || undefined })}
+          className="border border-gray-300 rounded-md px-3 py-2 bg-white text-sm focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          <option value="">Current users</option>
+          <option value="deleted">Deleted users</option>
+        </select>
+        <select
+          value={listParams.is_active === undefined ? '' : String(listParams.is_active)}
+          onChange={(e) => updateListParams({ is_active: e.target.value === '' ? undefined : e.target.value === 'true' })}
+          className="border border-gray-300 rounded-md px-3 py-2 bg-white text-sm focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          <option value="">Any status</option>
+          <option value="true">Active</option>
+          <option value="false">Inactive</option>
+        </select>
+        <select
+          value={listParams.needs_password_reset === undefined ? '' : String(listParams.needs_password_reset)}
+          onChange={(e) => updateListParams({ needs_password_reset: e.target.value === '' ? undefined : e.target.value === 'true' })}
+          className="border border-gray-300 rounded-md px-3 py-2 bg-white text-sm focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          <option value="">Any password state</option>
+          <option value="true">Password reset required</option>
+          <option value="false">No reset required</option>
+        </select>
+        <select
+          value={`${listParams.sort || 'created_at'}:${listParams.order || 'desc'}`}
+          onChange={(e) => {
+            const [sort, order] = e.target.value.split(':') as [UserListParams['sort'], UserListParams['order']]
+            updateListParams({ sort, order })
+          }}
+          className="border border-gray-300 rounded-md px-3 py-2 bg-white text-sm focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          {sortOptions.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
       </div>
 
+      {/* Bulk Actions */}
+      {!listParams.deleted && (
+        <div className="flex flex-wrap items-center gap-3 bg-white shadow sm:rounded-md px-4 py-3">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              disabled={users.length === 0}
+              onChange={() => setSelectedIds(allSelected ? new Set() : new Set(users.map(user => user.id)))}
+              className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+            />
+            <span className="ml-2">{selectedIds.size > 0 ? `${selectedIds.size} selected` : 'Select all on this page'}</span>
+          </label>
+          {selectedIds.size > 0 && (
+            <>
+              <button onClick={() => handleBatch('activate')} disabled={batchMutation.isPending} className={bulkButtonClass}>
+                Activate
+              </button>
+              <button
+                onClick={() => handleBatch('deactivate', 'Deactivate {count}? They will no longer be able to sign in.')}
+                disabled={batchMutation.isPending}
+                className={bulkButtonClass}
+              >
+                Deactivate
+              </button>
+              <button
+                onClick={() => handleBatch('force_password_reset', 'Require {count} to reset their password? Each will receive a reset email.')}
+                disabled={batchMutation.isPending}
+                className={bulkButtonClass}
+              >
+                Force Password Reset
+              </button>
+              <select
+                value={bulkRoleId}
+                onChange={(e) => setBulkRoleId(e.target.value)}
+                className="border border-gray-300 rounded-md px-3 py-1.5 bg-white text-sm focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              >
+                <option value="">Choose a role...</option>
+                {(roles || []).map((role) => (
+                  <option key={role.id} value={role.id}>{role.name}</option>
+                ))}
+              </select>
+              <button onClick={() => handleBatch('add_role')} disabled={!bulkRoleId || batchMutation.isPending} className={bulkButtonClass}>
+                Add Role
+              </button>
+              <button onClick={() => handleBatch('remove_role')} disabled={!bulkRoleId || batchMutation.isPending} className={bulkButtonClass}>
+                Remove Role
+              </button>
+              <button
+                onClick={() => handleBatch('delete', 'Are you sure you want to delete {count}? They can be restored from Deleted users until purged.')}
+                disabled={batchMutation.isPending}
+                className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Delete
+              </button>
+              <button onClick={() => setSelectedIds(new Set())} className="text-sm text-gray-500 hover:text-gray-700">
+                Clear
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Users Table */}
       <div className="bg-white shadow overflow-hidden sm:rounded-md">
         {loading ? (
@@ -143,10 +439,22 @@ export function AdminUsers() {
           </div>
         ) : (
           <ul className="divide-y divide-gray-200">
-            {filteredUsers.map((user) => (
+            {users.length === 0 && (
+              <li className="px-4 py-12 text-center text-sm text-gray-500">No users match the current filters.</li>
+            )}
+            {users.map((user) => (
               <li key={user.id}>
                 <div className="px-4 py-4 flex items-center justify-between">
                   <div className="flex items-center">
+                    {!user.deleted_at && (
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(user.id)}
+                        onChange={() => toggleSelected(user.id)}
+                        aria-label={`Select ${user.email}`}
+                        className="mr-4 rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+                      />
+                    )}
                     <div className="flex-shrink-0 h-10 w-10">
                       <div className="h-10 w-10 rounded-full bg-emerald-100 flex items-center justify-center">
                         <Shield className="h-5 w-5 text-emerald-600" />
@@ -170,31 +478,72 @@ export function AdminUsers() {
                               Password Reset Required
                             </span>
                           )}
+                          {isLocked(user) && (
+                            <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                              Locked
+                            </span>
+                          )}
+                          {user.deleted_at && (
+                            <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-800">
+                              Deleted {new Date(user.deleted_at).toLocaleDateString()}
+                            </span>
+                          )}
                         </div>
                       </div>
                       <div className="text-sm text-gray-500">{user.email}</div>
                       <div className="text-sm text-gray-500">
-                        Roles: {user.roles?.map(role => role.name).join(', ') || 'No roles'}
+                        Roles: {user.roles?.map(role => describeUserRole(user, role)).join(', ') || 'No roles'}
                       </div>
+                      {user.groups && user.groups.length > 0 && (
+                        <div className="text-sm text-gray-500">
+                          Groups: {user.groups.map(group => group.name).join(', ')}
+                        </div>
+                      )}
                     </div>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <button
-                      onClick={() => {
-                        setSelectedUser(user)
-                        setShowEditModal(true)
-                      }}
-                      className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                    >
-                      <Edit className="h-4 w-4" />
-                    </button>
+                  {user.deleted_at ? (
                     <button
-                      onClick={() => handleDeleteUser(user.id)}
-                      className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                      onClick={() => restoreUserMutation.mutate(user.id)}
+                      title="Restore user"
+                      className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
                     >
-                      <Trash2 className="h-4 w-4" />
+                      <RotateCcw className="h-4 w-4" />
                     </button>
-                  </div>
+                  ) : (
+                    <div className="flex items-center space-x-2">
+                      {isLocked(user) && (
+                        <button
+                          onClick={() => unlockUserMutation.mutate(user.id)}
+                          title={`Locked until ${new Date(user.locked_until!).toLocaleString()}`}
+                          className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-amber-500 hover:bg-amber-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500"
+                        >
+                          <Unlock className="h-4 w-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setSessionsUser(user)}
+                        title="Active sessions"
+                        className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-gray-600 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                      >
+                        <Monitor className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => {
+                          setSelectedUser(user)
+                          setShowEditModal(true)
+                        }}
+                        className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteUser(user.id)}
+                        className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
                 </div>
               </li>
             ))}
@@ -202,6 +551,34 @@ export function AdminUsers() {
         )}
       </div>
 
+      {/* Pagination */}
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          {total === 0
+            ? 'No users'
+            : `Showing ${(page - 1) * limit + 1}–${Math.min(page * limit, total)} of ${total} users`}
+        </p>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => updateListParams({ page: page - 1 })}
+            disabled={page <= 1}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </button>
+          <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+          <button
+            onClick={() => updateListParams({ page: page + 1 })}
+            disabled={page >= totalPages}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </button>
+        </div>
+      </div>
+
       {/* Modals */}
       {showCreateModal && (
         <CreateUserModal
@@ -210,21 +587,128 @@ export function AdminUsers() {
           onSubmit={handleCreateUser}
         />
       )}
+      {showImportModal && (
+        <ImportUsersModal onClose={() => setShowImportModal(false)} />
+      )}
+      {sessionsUser && (
+        <UserSessionsModal user={sessionsUser} onClose={() => setSessionsUser(null)} />
+      )}
       {showEditModal && selectedUser && (
         <EditUserModal
           user={selectedUser}
           roles={roles || []}
+          groups={groups || []}
           onClose={() => {
             setShowEditModal(false)
             setSelectedUser(null)
           }}
           onSubmit={handleUpdateUser}
+          onResetMfa={handleResetMfa}
         />
       )}
     </div>
   )
 }
 
+// Role name with its validity window, e.g. `auditor (until 12/31/2025)`
+function describeUserRole(user: User, role: Role): string {
+  const assignment = user.role_assignments?.find(a => a.role_id === role.id)
+  const bounds = [
+    assignment?.valid_from && `from ${new Date(assignment.valid_from).toLocaleDateString()}`,
+    assignment?.valid_until && `until ${new Date(assignment.valid_until).toLocaleDateString()}`
+  ].filter(Boolean)
+  return bounds.length > 0 ? `${role.name} (${bounds.join(' ')})` : role.name
+}
+
+// Date input values per role id; empty strings leave that side of the window open
+type RoleDates = Record<string, { from: string; until: string }>
+
+function toDateInput(value: string | null): string {
+  if (!value) return ''
+  const date = new Date(value)
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+function toRoleDates(assignments: RoleAssignment[] = []): RoleDates {
+  return Object.fromEntries(assignments.map(a => [a.role_id, { from: toDateInput(a.valid_from), until: toDateInput(a.valid_until) }]))
+}
+
+// Whole days, like the audit log filters: a role applies from the start of `from` through the end of `until`
+function toRoleAssignments(roleIds: string[], dates: RoleDates): RoleAssignment[] {
+  return roleIds
+    .filter(roleId => dates[roleId]?.from || dates[roleId]?.until)
+    .map(roleId => ({
+      role_id: roleId,
+      valid_from: dates[roleId].from ? new Date(`${dates[roleId].from}T00:00:00`).toISOString() : null,
+      valid_until: dates[roleId].until ? new Date(`${dates[roleId].until}T23:59:59.999`).toISOString() : null
+    }))
+}
+
+function hasInvalidRoleDates(roleIds: string[], dates: RoleDates): boolean {
+  return roleIds.some(roleId => dates[roleId]?.from && dates[roleId]?.until && dates[roleId].until < dates[roleId].from)
+}
+
+// Role checkboxes with optional from/until dates for each checked role
+function RoleAssignmentPicker({
+  roles,
+  roleIds,
+  dates,
+  onRoleChange,
+  onDatesChange
+}: {
+  roles: Role[]
+  roleIds: string[]
+  dates: RoleDates
+  onRoleChange: (roleId: string, checked: boolean) => void
+  onDatesChange: (dates: RoleDates) => void
+}) {
+  const setDate = (roleId: string, field: 'from' | 'until', value: string) => {
+    onDatesChange({ ...dates, [roleId]: { ...(dates[roleId] ?? { from: '', until: '' }), [field]: value } })
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Roles</label>
+      <div className="space-y-2 max-h-48 overflow-y-auto">
+        {roles.map((role) => (
+          <div key={role.id}>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={roleIds.includes(role.id)}
+                onChange={(e) => onRoleChange(role.id, e.target.checked)}
+                className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+              />
+              <span className="ml-2 text-sm text-gray-700">{role.name}</span>
+            </label>
+            {roleIds.includes(role.id) && (
+              <div className="ml-6 mt-1 flex items-center space-x-2 text-xs text-gray-500">
+                <span>From</span>
+                <input
+                  type="date"
+                  value={dates[role.id]?.from || ''}
+                  onChange={(e) => setDate(role.id, 'from', e.target.value)}
+                  aria-label={`${role.name} valid from`}
+                  className="border border-gray-300 rounded-md px-1 py-0.5 text-xs focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                />
+                <span>until</span>
+                <input
+                  type="date"
+                  value={dates[role.id]?.until || ''}
+                  onChange={(e) => setDate(role.id, 'until', e.target.value)}
+                  aria-label={`${role.name} valid until`}
+                  className="border border-gray-300 rounded-md px-1 py-0.5 text-xs focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">Leave dates empty for a permanent assignment</p>
+    </div>
+  )
+}
+
 // Create User Modal Component
 function CreateUserModal({ 
   roles, 
@@ -239,11 +723,13 @@ function CreateUserModal({
     email: '',
     password: generateTemporaryPassword(),
     full_name: '',
+    department: '',
     role_ids: [] as string[],
     menu_access: [] as string[],
     sub_menu_access: {} as Record<string, string[]>,
     component_access: [] as string[]
   })
+  const [roleDates, setRoleDates] = useState<RoleDates>({})
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
@@ -251,7 +737,11 @@ function CreateUserModal({
       alert('Please select at least one role')
       return
     }
-    onSubmit(formData)
+    if (hasInvalidRoleDates(formData.role_ids, roleDates)) {
+      alert('A role assignment cannot end before it starts')
+      return
+    }
+    onSubmit({ ...formData, role_assignments: toRoleAssignments(formData.role_ids, roleDates) })
   }
 
   const handleRoleChange = (roleId: string, checked: boolean) => {
@@ -291,6 +781,16 @@ function CreateUserModal({
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Department</label>
+              <input
+                type="text"
+                value={formData.department}
+                onChange={(e) => setFormData(prev => ({ ...prev, department: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700">Temporary Password</label>
               <input
@@ -302,22 +802,13 @@ function CreateUserModal({
               <p className="text-xs text-gray-500 mt-1">User will be required to change this password on first login</p>
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Roles</label>
-              <div className="space-y-2 max-h-32 overflow-y-auto">
-                {roles.map((role) => (
-                  <label key={role.id} className="flex items-center">
-                    <input
-                      type="checkbox"
-                      checked={formData.role_ids.includes(role.id)}
-                      onChange={(e) => handleRoleChange(role.id, e.target.checked)}
-                      className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
-                    />
-                    <span className="ml-2 text-sm text-gray-700">{role.name}</span>
-                  </label>
-                ))}
-              </div>
-            </div>
+            <RoleAssignmentPicker
+              roles={roles}
+              roleIds={formData.role_ids}
+              dates={roleDates}
+              onRoleChange={handleRoleChange}
+              onDatesChange={setRoleDates}
+            />
 
             <div className="flex justify-end space-x-3 pt-4">
               <button
@@ -345,23 +836,30 @@ function CreateUserModal({
 function EditUserModal({ 
   user, 
   roles, 
+  groups,
   onClose, 
-  onSubmit 
+  onSubmit,
+  onResetMfa
 }: { 
   user: User
   roles: Role[]
+  groups: Group[]
   onClose: () => void
   onSubmit: (userData: UpdateUserData) => void
+  onResetMfa: (userId: string) => void
 }) {
   const [formData, setFormData] = useState({
     full_name: user.full_name,
+    department: user.department || '',
     role_ids: user.role_ids || [],
+    group_ids: user.groups?.map(group => group.id) || [],
     menu_access: user.menu_access || [],
     sub_menu_access: user.sub_menu_access || {},
     component_access: user.component_access || [],
     is_active: user.is_active,
     needs_password_reset: user.needs_password_reset || false
   })
+  const [roleDates, setRoleDates] = useState<RoleDates>(() => toRoleDates(user.role_assignments))
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
@@ -369,7 +867,11 @@ function EditUserModal({
       alert('Please select at least one role')
       return
     }
-    onSubmit(formData)
+    if (hasInvalidRoleDates(formData.role_ids, roleDates)) {
+      alert('A role assignment cannot end before it starts')
+      return
+    }
+    onSubmit({ ...formData, role_assignments: toRoleAssignments(formData.role_ids, roleDates) })
   }
 
   const handleRoleChange = (roleId: string, checked: boolean) => {
@@ -381,6 +883,15 @@ function EditUserModal({
     }))
   }
 
+  const handleGroupChange = (groupId: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      group_ids: checked
+        ? [...new Set([...prev.group_ids, groupId])]
+        : prev.group_ids.filter(id => id !== groupId)
+    }))
+  }
+
   return (
     <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
       <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
@@ -409,20 +920,47 @@ function EditUserModal({
             </div>
 
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Roles</label>
-              <div className="space-y-2 max-h-32 overflow-y-auto">
-                {roles.map((role) => (
-                  <label key={role.id} className="flex items-center">
-                    <input
-                      type="checkbox"
-                      checked={formData.role_ids.includes(role.id)}
-                      onChange={(e) => handleRoleChange(role.id, e.target.checked)}
-                      className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
-                    />
-                    <span className="ml-2 text-sm text-gray-700">{role.name}</span>
-                  </label>
-                ))}
-              </div>
+              <label className="block text-sm font-medium text-gray-700">Department</label>
+              <input
+                type="text"
+                value={formData.department}
+                onChange={(e) => setFormData(prev => ({ ...prev, department: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+
+            <RoleAssignmentPicker
+              roles={roles}
+              roleIds={formData.role_ids}
+              dates={roleDates}
+              onRoleChange={handleRoleChange}
+              onDatesChange={setRoleDates}
+            />
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Member of groups</label>
+              {groups.length === 0 ? (
+                <p className="text-sm text-gray-500">No groups in this organization</p>
+              ) : (
+                <div className="max-h-32 overflow-y-auto border border-gray-200 rounded-md p-3 space-y-2">
+                  {groups.map(group => (
+                    <label key={group.id} className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={formData.group_ids.includes(group.id)}
+                        onChange={(e) => handleGroupChange(group.id, e.target.checked)}
+                        className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">
+                        {group.name}
+                        {group.roles.length > 0 && (
+                          <span className="text-gray-500"> - {group.roles.map(role => role.name).join(', ')}</span>
+                        )}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
             </div>
 
             <div className="flex items-center">
@@ -449,6 +987,17 @@ function EditUserModal({
               </label>
             </div>
 
+            <div className="flex items-center justify-between border-t border-gray-200 pt-4">
+              <span className="text-sm text-gray-700">Two-factor authentication</span>
+              <button
+                type="button"
+                onClick={() => onResetMfa(user.id)}
+                className="px-3 py-1.5 text-sm font-medium text-red-700 bg-red-100 hover:bg-red-200 rounded-md"
+              >
+                Reset factors
+              </button>
+            </div>
+
             <div className="flex justify-end space-x-3 pt-4">
               <button
                 type="button"
@@ -5,59 +5,64 @@ import { queryKeys } from '../lib/queryClient'
 import { dashboardApi } from '../lib/dataFetching'
 import { useAuth } from '../contexts/AuthContext'
 import { hasPermission } from '../utils/permissions'
+import type { DashboardStats, DashboardActivity } from '../types/auth'
 import { 
   Users, 
-  TrendingUp, 
+  UserCheck,
+  UserX,
+  KeyRound,
   DollarSign, 
   FileText,
-  ArrowUpRight,
-  ArrowDownRight
+  ArrowUpRight
 } from 'lucide-react'
 
-const defaultStats = [
+interface StatCard {
+  name: string
+  getValue: (stats: DashboardStats) => number | undefined
+  getChange?: (stats: DashboardStats) => string | null
+  icon: React.ComponentType<{ className?: string }>
+  permission?: { resource: string; action: string }
+}
+
+const defaultStats: StatCard[] = [
   {
     name: 'Total Users',
-    value: '2,651',
-    change: '+4.75%',
-    changeType: 'positive' as const,
+    getValue: (stats: DashboardStats) => stats.users?.total,
+    getChange: (stats: DashboardStats) => stats.users ? `+${stats.users.new_last_30_days} in 30 days` : null,
     icon: Users,
     permission: { resource: 'users', action: 'read' }
   },
   {
-    name: 'Active Transactions',
-    value: '₹1,24,35,000',
-    change: '+12.5%',
-    changeType: 'positive' as const,
-    icon: DollarSign,
-    permission: { resource: 'transactions', action: 'create' }
+    name: 'Active Users',
+    getValue: (stats: DashboardStats) => stats.users?.active,
+    icon: UserCheck,
+    permission: { resource: 'users', action: 'read' }
   },
   {
-    name: 'Monthly Growth',
-    value: '23.4%',
-    change: '+2.1%',
-    changeType: 'positive' as const,
-    icon: TrendingUp,
-    permission: { resource: 'reports', action: 'view' }
+    name: 'Inactive Users',
+    getValue: (stats: DashboardStats) => stats.users?.inactive,
+    icon: UserX,
+    permission: { resource: 'users', action: 'read' }
   },
   {
-    name: 'Reports Generated',
-    value: '145',
-    change: '-1.2%',
-    changeType: 'negative' as const,
-    icon: FileText,
-    permission: { resource: 'reports', action: 'view' }
+    name: 'Pending Password Reset',
+    getValue: (stats: DashboardStats) => stats.users?.pending_password_reset,
+    icon: KeyRound,
+    permission: { resource: 'users', action: 'read' }
   },
 ]
 
+const emptyStats: DashboardStats = { users: null, role_distribution: null, pending_approvals: null }
+
 export function Dashboard() {
   const { user } = useAuth()
-  const loaderData = useLoaderData() as { stats: any[]; activity: any[] }
+  const loaderData = useLoaderData() as { stats: DashboardStats | null; activity: DashboardActivity[] }
 
   // Use React Query with initial data from loader
-  const { data: stats = defaultStats } = useQuery({
+  const { data: stats = emptyStats } = useQuery({
     queryKey: queryKeys.dashboardStats(),
     queryFn: dashboardApi.getStats,
-    initialData: loaderData.stats.length > 0 ? loaderData.stats : defaultStats,
+    initialData: loaderData.stats ?? undefined,
     staleTime: 10 * 60 * 1000, // Dashboard stats can be cached longer (10 minutes)
     placeholderData: (previousData) => previousData,
   })
@@ -70,7 +75,7 @@ export function Dashboard() {
     placeholderData: (previousData) => previousData,
   })
 
-  const visibleStats = stats.filter(stat => {
+  const visibleStats = defaultStats.filter(stat => {
     if (!stat.permission) return true
     return hasPermission(user, stat.permission.resource, stat.permission.action)
   })
@@ -90,6 +95,8 @@ export function Dashboard() {
       <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4">
         {visibleStats.map((stat) => {
           const Icon = stat.icon
+          const value = stat.getValue(stats)
+          const change = stat.getChange?.(stats)
           return (
             <div
               key={stat.name}
@@ -104,24 +111,15 @@ export function Dashboard() {
                 </p>
               </dt>
               <dd className="ml-16 pb-6 flex items-baseline sm:pb-7">
-                <p className="text-2xl font-semibold text-gray-900">{stat.value}</p>
-                <p
-                  className={`ml-2 flex items-baseline text-sm font-semibold ${
-                    stat.changeType === 'positive'
-                      ? 'text-green-600'
-                      : 'text-red-600'
-                  }`}
-                >
-                  {stat.changeType === 'positive' ? (
-                    <ArrowUpRight className="h-4 w-4 flex-shrink-0 self-center" />
-                  ) : (
-                    <ArrowDownRight className="h-4 w-4 flex-shrink-0 self-center" />
-                  )}
-                  <span className="sr-only">
-                    {stat.changeType === 'positive' ? 'Increased' : 'Decreased'} by
-                  </span>
-                  {stat.change}
+                <p className="text-2xl font-semibold text-gray-900">
+                  {value !== undefined ? value.toLocaleString() : '—'}
                 </p>
+                {change && (
+                  <p className="ml-2 flex items-baseline text-sm font-semibold text-green-600">
+                    <ArrowUpRight className="h-4 w-4 flex-shrink-0 self-center" />
+                    {change}
+                  </p>
+                )}
               </dd>
             </div>
           )
@@ -169,6 +167,9 @@ export function Dashboard() {
             Recent Activity
           </h3>
           <div className="space-y-4">
+            {recentActivity.length === 0 && (
+              <p className="text-sm text-gray-500">No recent activity.</p>
+            )}
             {recentActivity.map((activity) => (
               <div key={activity.id} className="flex items-center space-x-3">
                 <div className={`flex-shrink-0 h-2 w-2 rounded-full ${
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
-import { validatePasswordStrength } from '../utils/validation'
+import { validatePasswordStrength, isPasswordReuseError } from '../utils/validation'
+import type { PasswordValidationResult } from '../types/auth'
 import { Shield, Eye, EyeOff, AlertCircle, CheckCircle } from 'lucide-react'
 
 export function ForcePasswordChangePage() {
@@ -14,11 +15,7 @@ export function ForcePasswordChangePage() {
   const [message, setMessage] = useState<string | null>(null)
   const [isSuccess, setIsSuccess] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
-  const [passwordValidation, setPasswordValidation] = useState<{
-    isValid: boolean
-    message: string
-    errors: string[]
-  } | null>(null)
+  const [passwordValidation, setPasswordValidation] = useState<PasswordValidationResult | null>(null)
 
   useEffect(() => {
     // If user is not logged in or doesn't need password reset, redirect
@@ -29,13 +26,13 @@ export function ForcePasswordChangePage() {
 
   useEffect(() => {
     if (password) {
-      validatePasswordStrength(password).then(result => {
+      validatePasswordStrength(password, { email: user?.email, fullName: user?.full_name }).then(result => {
         setPasswordValidation(result)
       })
     } else {
       setPasswordValidation(null)
     }
-  }, [password])
+  }, [password, user?.email, user?.full_name])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -78,6 +75,10 @@ export function ForcePasswordChangePage() {
     } catch (error) {
       setMessage(error instanceof Error ? error.message : 'Failed to change password.')
       setIsSuccess(false)
+      if (isPasswordReuseError(error)) {
+        setPassword('')
+        setConfirmPassword('')
+      }
     } finally {
       setIsLoading(false)
     }
@@ -153,8 +154,8 @@ export function ForcePasswordChangePage() {
                   </p>
                   {!passwordValidation.isValid && passwordValidation.errors.length > 0 && (
                     <ul className="mt-1 text-xs text-red-600 list-disc list-inside">
-                      {passwordValidation.errors.map((error, index) => (
-                        <li key={index}>{error}</li>
+                      {passwordValidation.errors.map((error) => (
+                        <li key={error.code}>{error.message}</li>
                       ))}
                     </ul>
                   )}
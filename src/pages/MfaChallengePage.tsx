@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react'
+import { useNavigate, useLocation } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { useAuth } from '../contexts/AuthContext'
+import { mfaApi } from '../lib/dataFetching'
+import { queryKeys } from '../lib/queryClient'
+import { ShieldCheck, AlertCircle } from 'lucide-react'
+
+export function MfaChallengePage() {
+  const navigate = useNavigate()
+  const location = useLocation()
+  const { user, loading: authLoading, assurance, mfaChallengeRequired, refreshAssurance, signOut } = useAuth()
+
+  const [code, setCode] = useState('')
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [recovered, setRecovered] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const from = location.state?.from?.pathname || '/dashboard'
+
+  const { data: factors = [] } = useQuery({
+    queryKey: queryKeys.mfaFactors(user?.id),
+    queryFn: mfaApi.listVerifiedFactors,
+    enabled: !!user && mfaChallengeRequired,
+  })
+
+  useEffect(() => {
+    // Leave once there is nothing left to verify. After a recovery code the
+    // lost authenticator is gone, so go straight to enrolling a replacement.
+    if (authLoading || !assurance) return
+    if (!user) {
+      navigate('/login', { replace: true })
+    } else if (!mfaChallengeRequired) {
+      if (recovered) {
+        navigate('/mfa-setup', { replace: true, state: location.state })
+      } else {
+        navigate(from, { replace: true })
+      }
+    }
+  }, [user, authLoading, assurance, mfaChallengeRequired, recovered, from, location.state, navigate])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setMessage(null)
+    setIsLoading(true)
+
+    try {
+      if (useRecoveryCode) {
+        await mfaApi.redeemRecoveryCode(code)
+        setRecovered(true)
+        await refreshAssurance()
+        return
+      }
+
+      const factor = factors[0]
+      if (!factor) {
+        setMessage('No authenticator is registered for this account.')
+        return
+      }
+
+      await mfaApi.verifyTotp(factor.id, code)
+      await refreshAssurance()
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Verification failed.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(prev => !prev)
+    setCode('')
+    setMessage(null)
+  }
+
+  if (authLoading || !user || !mfaChallengeRequired) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-emerald-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 to-blue-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <div className="mx-auto h-16 w-16 bg-emerald-600 rounded-full flex items-center justify-center mb-6">
+            <ShieldCheck className="h-8 w-8 text-white" />
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-bold text-gray-900">
+            Two-Factor Verification
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {useRecoveryCode
+              ? 'Enter one of the recovery codes you saved when setting up your authenticator.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+          </p>
+        </div>
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          {message && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 flex items-start">
+              <AlertCircle className="h-5 w-5 text-red-400 mt-0.5 mr-3 flex-shrink-0" />
+              <div className="text-sm text-red-700">{message}</div>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="mfa-code" className="block text-sm font-medium text-gray-700 mb-1">
+              {useRecoveryCode ? 'Recovery Code' : 'Verification Code'}
+            </label>
+            <input
+              id="mfa-code"
+              name="mfa-code"
+              type="text"
+              inputMode={useRecoveryCode ? 'text' : 'numeric'}
+              autoComplete="one-time-code"
+              autoFocus
+              required
+              value={code}
+              onChange={(e) => setCode(useRecoveryCode ? e.target.value.toUpperCase() : e.target.value.replace(/\D/g, '').slice(0, 6))}
+              className="relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md font-mono tracking-widest focus:outline-none focus:ring-emerald-500 focus:border-emerald-500 focus:z-10 sm:text-sm"
+              placeholder={useRecoveryCode ? 'XXXXX-XXXXX' : '123456'}
+            />
+          </div>
+
+          <div>
+            <button
+              type="submit"
+              disabled={isLoading || (useRecoveryCode ? !code.trim() : code.length !== 6)}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              {isLoading ? (
+                <div className="flex items-center">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                  Verifying...
+                </div>
+              ) : (
+                'Verify'
+              )}
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between text-sm">
+            <button type="button" onClick={toggleRecoveryCode} className="font-medium text-emerald-600 hover:text-emerald-500">
+              {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+            </button>
+            <button type="button" onClick={() => signOut()} className="font-medium text-gray-600 hover:text-gray-500">
+              Sign out
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
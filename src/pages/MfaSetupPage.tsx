@@ -0,0 +1,66 @@
+import { useEffect } from 'react'
+import { useNavigate, useLocation } from 'react-router-dom'
+import { useAuth } from '../contexts/AuthContext'
+import MfaEnrollment from '../components/MfaEnrollment'
+import { ShieldCheck } from 'lucide-react'
+
+export function MfaSetupPage() {
+  const navigate = useNavigate()
+  const location = useLocation()
+  const { user, loading: authLoading, mfaChallengeRequired, signOut } = useAuth()
+
+  const from = location.state?.from?.pathname || '/dashboard'
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) {
+      navigate('/login', { replace: true })
+    } else if (mfaChallengeRequired) {
+      // An authenticator already exists; verify it instead of enrolling another
+      navigate('/mfa-challenge', { replace: true, state: location.state })
+    }
+  }, [user, authLoading, mfaChallengeRequired, location.state, navigate])
+
+  if (authLoading || !user) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-emerald-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 to-blue-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-lg w-full space-y-8">
+        <div>
+          <div className="mx-auto h-16 w-16 bg-emerald-600 rounded-full flex items-center justify-center mb-6">
+            <ShieldCheck className="h-8 w-8 text-white" />
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-bold text-gray-900">
+            Set Up Two-Factor Authentication
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {user.mfa_required
+              ? 'Your role requires two-factor authentication before you can continue.'
+              : 'Administrative areas require two-factor authentication.'}
+          </p>
+        </div>
+
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+          <MfaEnrollment onComplete={() => navigate(from, { replace: true })} />
+        </div>
+
+        <div className="flex items-center justify-between text-sm">
+          {!user.mfa_required ? (
+            <button type="button" onClick={() => navigate('/dashboard', { replace: true })} className="font-medium text-emerald-600 hover:text-emerald-500">
+              Back to dashboard
+            </button>
+          ) : <span />}
+          <button type="button" onClick={() => signOut()} className="font-medium text-gray-600 hover:text-gray-500">
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,17 @@
 import React, { useState, useEffect } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { useAuth } from '../contexts/AuthContext'
 import { supabase } from '../lib/supabase'
-import { User, Mail, Edit, CheckCircle, AlertCircle, Shield } from 'lucide-react'
+import { accessRequestsApi, mfaApi, rolesApi, sessionsApi } from '../lib/dataFetching'
+import { queryKeys } from '../lib/queryClient'
+import { User, Mail, Edit, CheckCircle, AlertCircle, Shield, ShieldCheck, KeyRound } from 'lucide-react'
 import ChangePasswordForm from '../components/ChangePasswordForm'
+import MfaEnrollment, { RecoveryCodesList } from '../components/MfaEnrollment'
+import SessionList from '../components/SessionList'
+import AccessRequestStatusBadge from '../components/AccessRequestStatusBadge'
+import { ACCESS_REQUEST_DURATIONS, formatDuration } from '../utils/accessRequests'
+import { isRoleInOrganization } from '../utils/permissions'
+import type { AccessRequest, Role, UserSession } from '../types/auth'
 
 export function ProfilePage() {
   const { user, refreshUser } = useAuth()
@@ -135,6 +144,355 @@ export function ProfilePage() {
         <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Change Password</h3>
         <ChangePasswordForm />
       </div>
+
+      {/* Two-Factor Authentication Section */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Two-Factor Authentication</h3>
+        <TwoFactorSettings />
+      </div>
+
+      {/* Active Sessions Section */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Active Sessions</h3>
+        <ActiveSessions />
+      </div>
+
+      {/* Elevated Access Section */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4 flex items-center">
+          <KeyRound className="h-5 w-5 text-gray-400 mr-2" />
+          Elevated Access
+        </h3>
+        <ElevatedAccess />
+      </div>
+    </div>
+  )
+}
+
+function TwoFactorSettings() {
+  const { user, refreshAssurance } = useAuth()
+  const queryClient = useQueryClient()
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const { data: factors = [], isLoading: factorsLoading } = useQuery({
+    queryKey: queryKeys.mfaFactors(user?.id),
+    queryFn: mfaApi.listVerifiedFactors,
+    enabled: !!user,
+  })
+
+  const refreshFactors = () => queryClient.invalidateQueries({ queryKey: queryKeys.mfaFactors(user?.id) })
+
+  const handleRegenerateCodes = async () => {
+    if (!confirm('Generate new recovery codes? Your existing codes will stop working.')) return
+    setMessage(null)
+    setIsLoading(true)
+    try {
+      setRecoveryCodes(await mfaApi.generateRecoveryCodes())
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to generate recovery codes.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleDisable = async () => {
+    if (!confirm('Disable two-factor authentication for your account?')) return
+    setMessage(null)
+    setIsLoading(true)
+    try {
+      for (const factor of factors) {
+        await mfaApi.unenroll(factor.id)
+      }
+      await refreshAssurance()
+      await refreshFactors()
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to disable two-factor authentication.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (factorsLoading) {
+    return <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600"></div>
+  }
+
+  if (recoveryCodes) {
+    return <RecoveryCodesList codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+  }
+
+  if (factors.length === 0) {
+    return <MfaEnrollment onComplete={refreshFactors} />
+  }
+
+  return (
+    <div className="space-y-4">
+      {message && (
+        <div className="p-4 rounded-md bg-red-50 border border-red-200 flex items-start">
+          <AlertCircle className="h-5 w-5 text-red-400 mt-0.5 mr-3 flex-shrink-0" />
+          <div className="text-sm text-red-700">{message}</div>
+        </div>
+      )}
+      <div className="flex items-center">
+        <ShieldCheck className="h-5 w-5 text-green-500 mr-3" />
+        <p className="text-gray-700">
+          Authenticator app is <span className="font-medium text-green-700">enabled</span>
+          {user?.mfa_required && <span className="text-gray-500"> (required by your role)</span>}
+        </p>
+      </div>
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={handleRegenerateCodes}
+          disabled={isLoading}
+          className="px-4 py-2 text-sm font-medium text-emerald-700 bg-emerald-100 hover:bg-emerald-200 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Regenerate recovery codes
+        </button>
+        {!user?.mfa_required && (
+          <button
+            type="button"
+            onClick={handleDisable}
+            disabled={isLoading}
+            className="px-4 py-2 text-sm font-medium text-red-700 bg-red-100 hover:bg-red-200 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Disable
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function ActiveSessions() {
+  const { user, signOut } = useAuth()
+  const queryClient = useQueryClient()
+  const sessionsKey = queryKeys.sessions(user?.id ?? '')
+
+  const { data: sessions = [], isLoading } = useQuery({
+    queryKey: sessionsKey,
+    queryFn: sessionsApi.getSessions,
+    enabled: !!user,
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: async (session: UserSession) => {
+      await sessionsApi.revokeSession(session.id)
+      if (session.current) await signOut()
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: sessionsKey }),
+  })
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: sessionsApi.revokeOtherSessions,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: sessionsKey }),
+  })
+
+  const handleRevoke = (session: UserSession) => {
+    const prompt = session.current ? 'Sign out of this device?' : 'Sign out of this session?'
+    if (!confirm(prompt)) return
+    revokeOthersMutation.reset()
+    revokeMutation.mutate(session)
+  }
+
+  const handleRevokeOthers = () => {
+    if (!confirm('Sign out of all other devices?')) return
+    revokeMutation.reset()
+    revokeOthersMutation.mutate()
+  }
+
+  if (isLoading) {
+    return <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600"></div>
+  }
+
+  const error = revokeMutation.error || revokeOthersMutation.error
+  const isPending = revokeMutation.isPending || revokeOthersMutation.isPending
+  const hasOtherSessions = sessions.some(session => !session.current)
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-4 rounded-md bg-red-50 border border-red-200 flex items-start">
+          <AlertCircle className="h-5 w-5 text-red-400 mt-0.5 mr-3 flex-shrink-0" />
+          <div className="text-sm text-red-700">{error.message || 'Failed to sign out the session.'}</div>
+        </div>
+      )}
+      {revokeOthersMutation.isSuccess && (
+        <div className="p-4 rounded-md bg-green-50 border border-green-200 flex items-start">
+          <CheckCircle className="h-5 w-5 text-green-400 mt-0.5 mr-3 flex-shrink-0" />
+          <div className="text-sm text-green-700">
+            Signed out of {revokeOthersMutation.data.revoked} other {revokeOthersMutation.data.revoked === 1 ? 'session' : 'sessions'}.
+          </div>
+        </div>
+      )}
+      <SessionList sessions={sessions} onRevoke={handleRevoke} disabled={isPending} />
+      {hasOtherSessions && (
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={handleRevokeOthers}
+            disabled={isPending}
+            className="px-4 py-2 text-sm font-medium text-red-700 bg-red-100 hover:bg-red-200 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Sign out all other devices
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ElevatedAccess() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+  const requestsKey = queryKeys.accessRequests(user?.id ?? '')
+  const [form, setForm] = useState({ role_id: '', duration_hours: 8, justification: '' })
+
+  const { data: requests = [], isLoading } = useQuery({
+    queryKey: requestsKey,
+    queryFn: accessRequestsApi.getRequests,
+    enabled: !!user,
+  })
+
+  const { data: roles = [] } = useQuery({
+    queryKey: queryKeys.roles(),
+    queryFn: rolesApi.getRoles,
+  })
+
+  // Roles the user already holds, and those of other organizations, are not offered
+  const requestableRoles = roles.filter(role =>
+    isRoleInOrganization(role, user?.active_organization_id ?? null) &&
+    !user?.roles?.some((held: Role) => held.id === role.id)
+  )
+
+  const createMutation = useMutation({
+    mutationFn: accessRequestsApi.createRequest,
+    onSuccess: () => setForm(prev => ({ ...prev, role_id: '', justification: '' })),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: requestsKey }),
+  })
+
+  const cancelMutation = useMutation({
+    mutationFn: (request: AccessRequest) => accessRequestsApi.cancelRequest(request.id),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: requestsKey }),
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    cancelMutation.reset()
+    createMutation.mutate({ ...form, justification: form.justification.trim() })
+  }
+
+  const handleCancel = (request: AccessRequest) => {
+    if (!confirm(`Withdraw your request for ${request.role_name}?`)) return
+    createMutation.reset()
+    cancelMutation.mutate(request)
+  }
+
+  const error = createMutation.error || cancelMutation.error
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Request a role for a limited time. An approver reviews the request and the role is removed again when the time runs out.
+      </p>
+
+      {error && (
+        <div className="p-4 rounded-md bg-red-50 border border-red-200 flex items-start">
+          <AlertCircle className="h-5 w-5 text-red-400 mt-0.5 mr-3 flex-shrink-0" />
+          <div className="text-sm text-red-700">{error.message || 'Failed to update the access request.'}</div>
+        </div>
+      )}
+      {createMutation.isSuccess && (
+        <div className="p-4 rounded-md bg-green-50 border border-green-200 flex items-start">
+          <CheckCircle className="h-5 w-5 text-green-400 mt-0.5 mr-3 flex-shrink-0" />
+          <div className="text-sm text-green-700">Your request has been sent for approval.</div>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Role</label>
+            <select
+              required
+              value={form.role_id}
+              onChange={(e) => setForm(prev => ({ ...prev, role_id: e.target.value }))}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+            >
+              <option value="">Select a role</option>
+              {requestableRoles.map((role) => (
+                <option key={role.id} value={role.id}>{role.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Duration</label>
+            <select
+              value={form.duration_hours}
+              onChange={(e) => setForm(prev => ({ ...prev, duration_hours: Number(e.target.value) }))}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+            >
+              {ACCESS_REQUEST_DURATIONS.map((hours) => (
+                <option key={hours} value={hours}>{formatDuration(hours)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Justification</label>
+          <textarea
+            required
+            rows={3}
+            maxLength={1000}
+            value={form.justification}
+            onChange={(e) => setForm(prev => ({ ...prev, justification: e.target.value }))}
+            placeholder="Why do you need this role?"
+            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+          />
+        </div>
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={createMutation.isPending || !form.role_id || !form.justification.trim()}
+            className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {createMutation.isPending ? 'Sending...' : 'Request access'}
+          </button>
+        </div>
+      </form>
+
+      {isLoading ? (
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600"></div>
+      ) : requests.length > 0 && (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {requests.map((request) => (
+            <li key={request.id} className="px-4 py-3 flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-gray-900">
+                  {request.role_name} for {formatDuration(request.duration_hours)}
+                  <span className="ml-2"><AccessRequestStatusBadge status={request.status} /></span>
+                </div>
+                <div className="text-xs text-gray-500">
+                  Requested {new Date(request.created_at).toLocaleString()}
+                  {request.status === 'approved' && request.valid_until && ` · Expires ${new Date(request.valid_until).toLocaleString()}`}
+                  {request.review_note && ` · ${request.review_note}`}
+                </div>
+              </div>
+              {request.status === 'pending' && (
+                <button
+                  type="button"
+                  onClick={() => handleCancel(request)}
+                  disabled={cancelMutation.isPending}
+                  className="ml-4 px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Withdraw
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -1,12 +1,13 @@
 import React, { useState, useEffect } from 'react'
 import { useNavigate, Link } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
-import { validatePasswordStrength } from '../utils/validation'
+import { validatePasswordStrength, isPasswordReuseError } from '../utils/validation'
+import type { PasswordValidationResult } from '../types/auth'
 import { Shield, Eye, EyeOff, AlertCircle, CheckCircle } from 'lucide-react'
 
 export function ResetPasswordPage() {
   const navigate = useNavigate()
-  const { changePassword } = useAuth()
+  const { user, changePassword } = useAuth()
 
   const [password, setPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
@@ -15,11 +16,7 @@ export function ResetPasswordPage() {
   const [isSuccess, setIsSuccess] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [accessToken, setAccessToken] = useState<string | null>(null)
-  const [passwordValidation, setPasswordValidation] = useState<{
-    isValid: boolean
-    message: string
-    errors: string[]
-  } | null>(null)
+  const [passwordValidation, setPasswordValidation] = useState<PasswordValidationResult | null>(null)
 
   // Extract access token from hash or query params
   useEffect(() => {
@@ -49,11 +46,11 @@ export function ResetPasswordPage() {
 
   useEffect(() => {
     if (password) {
-      validatePasswordStrength(password).then(result => setPasswordValidation(result))
+      validatePasswordStrength(password, { email: user?.email, fullName: user?.full_name }).then(result => setPasswordValidation(result))
     } else {
       setPasswordValidation(null)
     }
-  }, [password])
+  }, [password, user?.email, user?.full_name])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -95,7 +92,11 @@ export function ResetPasswordPage() {
     } catch (error: any) {
       const errorMessage = error?.message || 'Failed to reset password.'
 
-      if (errorMessage.includes('expired') || errorMessage.includes('invalid')) {
+      if (isPasswordReuseError(error)) {
+        setMessage(errorMessage)
+        setPassword('')
+        setConfirmPassword('')
+      } else if (errorMessage.includes('expired') || errorMessage.includes('invalid')) {
         setMessage('This reset link has expired or is invalid. Please request a new password reset email.')
       } else {
         setMessage(errorMessage)
@@ -168,8 +169,8 @@ export function ResetPasswordPage() {
                   </p>
                   {!passwordValidation.isValid && passwordValidation.errors.length > 0 && (
                     <ul className="mt-1 text-xs text-red-600 list-disc list-inside">
-                      {passwordValidation.errors.map((error, index) => (
-                        <li key={index}>{error}</li>
+                      {passwordValidation.errors.map((error) => (
+                        <li key={error.code}>{error.message}</li>
                       ))}
                     </ul>
                   )}
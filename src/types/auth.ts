@@ -2,6 +2,7 @@ export interface User {
   id: string
   email: string
   full_name: string
+  department?: string | null
   role_ids?: string[]
   menu_access: string[]
   sub_menu_access: Record<string, string[]>
@@ -9,8 +10,37 @@ export interface User {
   is_active: boolean
   created_at: string
   needs_password_reset?: boolean
+  locked_until?: string | null
+  password_changed_at?: string
+  // Null when the password policy has no maximum age
+  password_expires_at?: string | null
+  // Set while the account is soft-deleted and awaiting purge
+  deleted_at?: string | null
+  deleted_by?: string | null
+  mfa_required?: boolean
+  // Shortest inactivity timeout among the user's roles; null uses the app default
+  inactivity_timeout_minutes?: number | null
   roles?: Role[]
+  // Validity window per assigned role, as returned by the admin users API
+  role_assignments?: RoleAssignment[]
   permissions?: Permission[]
+  // The organization the user works in; roles and admin data are scoped to it
+  active_organization_id?: string | null
+  organizations?: Organization[]
+  // Groups of the active organization; their roles are included in `roles`
+  groups?: Pick<Group, 'id' | 'name'>[]
+}
+
+export interface Organization {
+  id: string
+  name: string
+}
+
+// A role grant limited in time; null bounds are open
+export interface RoleAssignment {
+  role_id: string
+  valid_from: string | null
+  valid_until: string | null
 }
 
 export interface AuthState {
@@ -28,7 +58,10 @@ export interface CreateUserData {
   email: string
   password: string
   full_name: string
+  department?: string
   role_ids: string[]
+  // Roles without an entry are assigned permanently
+  role_assignments?: RoleAssignment[]
   menu_access?: string[]
   sub_menu_access?: Record<string, string[]>
   component_access?: string[]
@@ -36,20 +69,102 @@ export interface CreateUserData {
 
 export interface UpdateUserData {
   full_name: string
+  // An empty string clears the department; leaving it out keeps it
+  department?: string
   role_ids: string[]
+  // Replaces the validity windows of all kept roles when present
+  role_assignments?: RoleAssignment[]
   menu_access: string[]
   sub_menu_access: Record<string, string[]>
   component_access: string[]
   is_active: boolean
   needs_password_reset?: boolean
+  // Replaces the user's groups in the active organization when present
+  group_ids?: string[]
+}
+
+export type UserSortField = 'created_at' | 'email' | 'full_name'
+
+export interface UserListParams {
+  page?: number
+  limit?: number
+  sort?: UserSortField
+  order?: 'asc' | 'desc'
+  search?: string
+  role_id?: string
+  is_active?: boolean
+  needs_password_reset?: boolean
+  // When true only soft-deleted users are listed
+  deleted?: boolean
+}
+
+export interface PaginatedUsers {
+  users: User[]
+  total: number
+  page: number
+  limit: number
+}
+
+// One parsed CSV line; roles are matched by name on the server
+export interface UserImportRow {
+  email: string
+  full_name: string
+  roles: string[]
+  menu_access: string[]
+}
+
+export type UserImportRowStatus = 'valid' | 'invalid' | 'created' | 'failed'
+
+export interface UserImportRowResult {
+  row: number
+  email: string
+  status: UserImportRowStatus
+  errors: string[]
+  user_id?: string
+}
+
+export interface UserImportReport {
+  dry_run: boolean
+  summary: Record<'total' | 'valid' | 'invalid' | 'created' | 'failed', number>
+  results: UserImportRowResult[]
+}
+
+export type UserBatchAction = 'activate' | 'deactivate' | 'add_role' | 'remove_role' | 'force_password_reset' | 'delete'
+
+export interface UserBatchResult {
+  user_id: string
+  status: 'succeeded' | 'failed'
+  error?: string
+  // Updated user in the list shape; absent for deleted users and failures
+  user?: User
+  // Set when the action succeeded but its password reset email could not be sent
+  email_error?: string
 }
 
+export interface UserBatchReport {
+  action: UserBatchAction
+  summary: Record<'total' | 'succeeded' | 'failed', number>
+  results: UserBatchResult[]
+}
+
+export type ExportDataset = 'users' | 'roles' | 'access-matrix'
+
+export type ExportFormat = 'csv' | 'json'
+
 export interface Role {
   id: string
   name: string
   description: string
+  mfa_required?: boolean
+  inactivity_timeout_minutes?: number | null
+  // Inherits every permission of this role and its ancestors
+  parent_role_id?: string | null
+  // Null for global roles, which apply in every organization
+  organization_id?: string | null
   created_at: string
   permissions?: Permission[]
+  // Reached through ancestors only; returned by admin-roles
+  inherited_permissions?: InheritedPermission[]
 }
 
 export interface Permission {
@@ -58,24 +173,141 @@ export interface Permission {
   action: string
   description: string
   created_at: string
+  // Set on permissions held through a role; null when the role grants it unconditionally
+  conditions?: Condition | null
+}
+
+export type ConditionOperator = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte' | 'in' | 'not_in' | 'contains'
+
+export interface ComparisonCondition {
+  attribute: string
+  operator: ConditionOperator
+  // A literal, or `{ attribute: 'user.…' }` to compare against another attribute
+  value: unknown
+}
+
+// Permission condition evaluated by src/utils/conditions.ts
+export type Condition =
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition }
+  | ComparisonCondition
+
+export interface InheritedPermission extends Permission {
+  // Name of the nearest ancestor role holding the permission
+  inherited_from: string
+}
+
+export interface PasswordPolicy {
+  min_length: number
+  max_length: number
+  require_uppercase: boolean
+  require_lowercase: boolean
+  require_number: boolean
+  require_special: boolean
+  special_characters: string
+  min_distinct_characters: number
+  disallow_user_info: boolean
+  disallowed_substrings: string[]
+  // Previous passwords that may not be reused; checked by update-password only
+  password_history_count: number
+  // Days before a password must be changed; 0 disables expiry
+  max_age_days: number
+  expiry_warning_days: number
+}
+
+export interface RoleSessionTimeout {
+  role_id: string
+  role_name: string
+  // Null for global roles, whose timeouts only admins change
+  organization_id: string | null
+  // Null uses the app default
+  inactivity_timeout_minutes: number | null
+}
+
+export type PasswordErrorCode =
+  | 'too_short'
+  | 'too_long'
+  | 'missing_uppercase'
+  | 'missing_lowercase'
+  | 'missing_number'
+  | 'missing_special'
+  | 'too_few_distinct_characters'
+  | 'contains_user_info'
+  | 'contains_disallowed_substring'
+  | 'password_reused'
+  | 'breached_password'
+  | 'dictionary_word'
+  | 'invalid_format'
+  | 'server_error'
+  | 'network_error'
+
+export interface PasswordValidationError {
+  code: PasswordErrorCode
+  message: string
 }
 
 export interface PasswordValidationResult {
   isValid: boolean
   message: string
-  errors: string[]
+  errors: PasswordValidationError[]
+}
+
+// Details about the account the password is for, used by the user-info rule
+export interface PasswordContext {
+  email?: string | null
+  fullName?: string | null
 }
 
 export interface CreateRoleData {
   name: string
   description?: string
+  mfa_required?: boolean
+  parent_role_id?: string | null
   permission_ids?: string[]
+  // Keyed by permission id; permissions without an entry are granted unconditionally
+  permission_conditions?: Record<string, Condition>
 }
 
 export interface UpdateRoleData {
   name: string
   description?: string
+  mfa_required?: boolean
+  parent_role_id?: string | null
   permission_ids?: string[]
+  // Keyed by permission id; permissions without an entry are granted unconditionally
+  permission_conditions?: Record<string, Condition>
+}
+
+export interface GroupMember {
+  id: string
+  email: string
+  full_name: string | null
+}
+
+// A team or department whose members all hold its roles
+export interface Group {
+  id: string
+  organization_id: string
+  name: string
+  description: string | null
+  created_at: string
+  roles: Pick<Role, 'id' | 'name'>[]
+  members: GroupMember[]
+}
+
+export interface CreateGroupData {
+  name: string
+  description?: string
+  role_ids: string[]
+  member_ids: string[]
+}
+
+export interface UpdateGroupData {
+  name: string
+  description?: string
+  role_ids: string[]
+  member_ids: string[]
 }
 
 export interface CreatePermissionData {
@@ -88,4 +320,120 @@ export interface UpdatePermissionData {
   resource: string
   action: string
   description?: string
-}
\ No newline at end of file
+}
+
+export type AuditTargetType = 'user' | 'role' | 'permission' | 'settings' | 'access_request'
+
+export interface AuditEvent {
+  id: string
+  actor_id: string | null
+  actor_email: string | null
+  action: string
+  target_type: AuditTargetType
+  target_id: string
+  // Null for system-wide changes such as permissions and settings
+  organization_id: string | null
+  changes: Record<string, { before: unknown; after: unknown }>
+  ip_address: string | null
+  user_agent: string | null
+  created_at: string
+}
+
+export interface AuditEventFilters {
+  actor_id?: string
+  target_type?: AuditTargetType
+  target_id?: string
+  from?: string
+  to?: string
+  limit?: number
+}
+
+export interface RoleDistributionEntry {
+  role_id: string
+  role_name: string
+  user_count: number
+}
+
+export interface UserSession {
+  id: string
+  ip_address: string | null
+  user_agent: string | null
+  created_at: string
+  last_seen_at: string
+  // Only set on the caller's own list; true for the session making the request
+  current?: boolean
+}
+
+export type AccessRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled'
+
+// Filter for the review queue; `all` includes every status
+export type AccessRequestStatusFilter = AccessRequestStatus | 'all'
+
+export interface AccessRequest {
+  id: string
+  user_id: string
+  organization_id: string | null
+  user_email: string | null
+  user_full_name: string | null
+  role_id: string
+  role_name: string | null
+  duration_hours: number
+  justification: string
+  status: AccessRequestStatus
+  reviewed_by: string | null
+  reviewer_email: string | null
+  reviewed_at: string | null
+  review_note: string | null
+  // End of the grant, set on approval
+  valid_until: string | null
+  created_at: string
+}
+
+export interface CreateAccessRequestData {
+  role_id: string
+  duration_hours: number
+  justification: string
+}
+
+export interface DashboardStats {
+  users: {
+    total: number
+    active: number
+    inactive: number
+    pending_password_reset: number
+    new_last_30_days: number
+    // Sessions that reported activity in the last 30 minutes
+    active_sessions: number
+  } | null
+  role_distribution: RoleDistributionEntry[] | null
+  // Access requests awaiting review; null when the caller cannot review them
+  pending_approvals: number | null
+}
+
+export interface DashboardActivity {
+  id: string
+  type: string
+  description: string
+  timestamp: string
+  status: 'success' | 'info' | 'warning'
+}
+
+export type AssuranceLevel = 'aal1' | 'aal2'
+
+export interface AssuranceState {
+  currentLevel: AssuranceLevel | null
+  nextLevel: AssuranceLevel | null
+}
+
+export interface MfaFactor {
+  id: string
+  friendly_name?: string
+  status: 'verified' | 'unverified'
+  created_at: string
+}
+
+export interface MfaEnrollment {
+  factorId: string
+  qrCode: string
+  secret: string
+}
@@ -6,11 +6,18 @@ export interface Database {
           id: string
           email: string
           full_name: string
+          department: string | null
           menu_access: string[]
           sub_menu_access: Record<string, string[]>
           component_access: string[]
           is_active: boolean
           needs_password_reset: boolean
+          failed_login_attempts: number
+          locked_until: string | null
+          password_changed_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          active_organization_id: string | null
           created_at: string
           updated_at: string
         }
@@ -18,11 +25,18 @@ export interface Database {
           id?: string
           email: string
           full_name?: string
+          department?: string | null
           menu_access?: string[]
           sub_menu_access?: Record<string, string[]>
           component_access?: string[]
           is_active?: boolean
           needs_password_reset?: boolean
+          failed_login_attempts?: number
+          locked_until?: string | null
+          password_changed_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          active_organization_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -30,11 +44,18 @@ export interface Database {
           id?: string
           email?: string
           full_name?: string
+          department?: string | null
           menu_access?: string[]
           sub_menu_access?: Record<string, string[]>
           component_access?: string[]
           is_active?: boolean
           needs_password_reset?: boolean
+          failed_login_attempts?: number
+          locked_until?: string | null
+          password_changed_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          active_organization_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -44,18 +65,30 @@ export interface Database {
           id: string
           name: string
           description: string | null
+          mfa_required: boolean
+          inactivity_timeout_minutes: number | null
+          parent_role_id: string | null
+          organization_id: string | null
           created_at: string
         }
         Insert: {
           id?: string
           name: string
           description?: string | null
+          mfa_required?: boolean
+          inactivity_timeout_minutes?: number | null
+          parent_role_id?: string | null
+          organization_id?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           name?: string
           description?: string | null
+          mfa_required?: boolean
+          inactivity_timeout_minutes?: number | null
+          parent_role_id?: string | null
+          organization_id?: string | null
           created_at?: string
         }
       }
@@ -87,18 +120,21 @@ export interface Database {
           id: string
           role_id: string
           permission_id: string
+          conditions: Record<string, unknown> | null
           created_at: string
         }
         Insert: {
           id?: string
           role_id: string
           permission_id: string
+          conditions?: Record<string, unknown> | null
           created_at?: string
         }
         Update: {
           id?: string
           role_id?: string
           permission_id?: string
+          conditions?: Record<string, unknown> | null
           created_at?: string
         }
       }
@@ -107,18 +143,408 @@ export interface Database {
           id: string
           user_id: string
           role_id: string
+          valid_from: string | null
+          valid_until: string | null
           created_at: string
         }
         Insert: {
           id?: string
           user_id: string
           role_id: string
+          valid_from?: string | null
+          valid_until?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           user_id?: string
           role_id?: string
+          valid_from?: string | null
+          valid_until?: string | null
+          created_at?: string
+        }
+      }
+      mfa_recovery_codes: {
+        Row: {
+          id: string
+          user_id: string
+          code_hash: string
+          used_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          code_hash: string
+          used_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          code_hash?: string
+          used_at?: string | null
+          created_at?: string
+        }
+      }
+      login_attempts: {
+        Row: {
+          id: string
+          email: string
+          user_id: string | null
+          ip_address: string | null
+          user_agent: string | null
+          succeeded: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          email: string
+          user_id?: string | null
+          ip_address?: string | null
+          user_agent?: string | null
+          succeeded: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          email?: string
+          user_id?: string | null
+          ip_address?: string | null
+          user_agent?: string | null
+          succeeded?: boolean
+          created_at?: string
+        }
+      }
+      password_policy: {
+        Row: {
+          id: number
+          min_length: number
+          max_length: number
+          require_uppercase: boolean
+          require_lowercase: boolean
+          require_number: boolean
+          require_special: boolean
+          special_characters: string
+          min_distinct_characters: number
+          disallow_user_info: boolean
+          disallowed_substrings: string[]
+          password_history_count: number
+          max_age_days: number
+          expiry_warning_days: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: number
+          min_length?: number
+          max_length?: number
+          require_uppercase?: boolean
+          require_lowercase?: boolean
+          require_number?: boolean
+          require_special?: boolean
+          special_characters?: string
+          min_distinct_characters?: number
+          disallow_user_info?: boolean
+          disallowed_substrings?: string[]
+          password_history_count?: number
+          max_age_days?: number
+          expiry_warning_days?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: number
+          min_length?: number
+          max_length?: number
+          require_uppercase?: boolean
+          require_lowercase?: boolean
+          require_number?: boolean
+          require_special?: boolean
+          special_characters?: string
+          min_distinct_characters?: number
+          disallow_user_info?: boolean
+          disallowed_substrings?: string[]
+          password_history_count?: number
+          max_age_days?: number
+          expiry_warning_days?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+      }
+      password_history: {
+        Row: {
+          id: string
+          user_id: string
+          password_hash: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          password_hash: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          password_hash?: string
+          created_at?: string
+        }
+      }
+      user_session_events: {
+        Row: {
+          id: string
+          user_id: string
+          session_id: string | null
+          action: 'sign_out' | 'refresh'
+          reason: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          session_id?: string | null
+          action: 'sign_out' | 'refresh'
+          reason: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          session_id?: string | null
+          action?: 'sign_out' | 'refresh'
+          reason?: string
+          created_at?: string
+        }
+      }
+      user_sessions: {
+        Row: {
+          id: string
+          user_id: string
+          ip_address: string | null
+          user_agent: string | null
+          created_at: string
+          last_seen_at: string
+        }
+        Insert: {
+          id: string
+          user_id: string
+          ip_address?: string | null
+          user_agent?: string | null
+          created_at?: string
+          last_seen_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          ip_address?: string | null
+          user_agent?: string | null
+          created_at?: string
+          last_seen_at?: string
+        }
+      }
+      access_requests: {
+        Row: {
+          id: string
+          user_id: string
+          organization_id: string | null
+          role_id: string
+          duration_hours: number
+          justification: string
+          status: 'pending' | 'approved' | 'rejected' | 'cancelled'
+          reviewed_by: string | null
+          reviewed_at: string | null
+          review_note: string | null
+          valid_until: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          organization_id?: string | null
+          role_id: string
+          duration_hours: number
+          justification: string
+          status?: 'pending' | 'approved' | 'rejected' | 'cancelled'
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          review_note?: string | null
+          valid_until?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          organization_id?: string | null
+          role_id?: string
+          duration_hours?: number
+          justification?: string
+          status?: 'pending' | 'approved' | 'rejected' | 'cancelled'
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          review_note?: string | null
+          valid_until?: string | null
+          created_at?: string
+        }
+      }
+      breached_password_hashes: {
+        Row: {
+          prefix: string
+          suffix: string
+          occurrences: number
+        }
+        Insert: {
+          prefix: string
+          suffix: string
+          occurrences?: number
+        }
+        Update: {
+          prefix?: string
+          suffix?: string
+          occurrences?: number
+        }
+      }
+      password_dictionary_words: {
+        Row: {
+          word: string
+        }
+        Insert: {
+          word: string
+        }
+        Update: {
+          word?: string
+        }
+      }
+      audit_events: {
+        Row: {
+          id: string
+          actor_id: string | null
+          actor_email: string | null
+          action: string
+          target_type: string
+          target_id: string
+          organization_id: string | null
+          changes: Record<string, { before: unknown; after: unknown }>
+          ip_address: string | null
+          user_agent: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          actor_id?: string | null
+          actor_email?: string | null
+          action: string
+          target_type: string
+          target_id: string
+          organization_id?: string | null
+          changes?: Record<string, { before: unknown; after: unknown }>
+          ip_address?: string | null
+          user_agent?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          actor_id?: string | null
+          actor_email?: string | null
+          action?: string
+          target_type?: string
+          target_id?: string
+          organization_id?: string | null
+          changes?: Record<string, { before: unknown; after: unknown }>
+          ip_address?: string | null
+          user_agent?: string | null
+          created_at?: string
+        }
+      }
+      organizations: {
+        Row: {
+          id: string
+          name: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          created_at?: string
+        }
+      }
+      organization_members: {
+        Row: {
+          organization_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          organization_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          organization_id?: string
+          user_id?: string
+          created_at?: string
+        }
+      }
+      groups: {
+        Row: {
+          id: string
+          organization_id: string
+          name: string
+          description: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          name: string
+          description?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          name?: string
+          description?: string | null
+          created_at?: string
+        }
+      }
+      group_members: {
+        Row: {
+          group_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          group_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          group_id?: string
+          user_id?: string
+          created_at?: string
+        }
+      }
+      group_roles: {
+        Row: {
+          group_id: string
+          role_id: string
+          created_at: string
+        }
+        Insert: {
+          group_id: string
+          role_id: string
+          created_at?: string
+        }
+        Update: {
+          group_id?: string
+          role_id?: string
           created_at?: string
         }
       }
@@ -127,7 +553,11 @@ export interface Database {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      // Computed column, selectable as `password_expires_at` on users
+      password_expires_at: {
+        Args: { '': Database['public']['Tables']['users']['Row'] }
+        Returns: string | null
+      }
     }
     Enums: {
       [_ in never]: never
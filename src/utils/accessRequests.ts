@@ -0,0 +1,7 @@
+// Durations offered when requesting a role, up to the 168-hour limit enforced by access-requests
+export const ACCESS_REQUEST_DURATIONS = [1, 4, 8, 24, 72, 168]
+
+export function formatDuration(hours: number): string {
+  if (hours % 24 === 0) return hours === 24 ? '1 day' : `${hours / 24} days`
+  return hours === 1 ? '1 hour' : `${hours} hours`
+}
@@ -0,0 +1,137 @@
+/**
+ * Conditions attached to a role permission. A condition is a JSON tree of
+ * `all`, `any` and `not` nodes over comparisons such as
+ * `{ "attribute": "resource.amount", "operator": "lt", "value": 100000 }`.
+ * A value of `{ "attribute": "user.email_domain" }` compares against another
+ * attribute instead of a literal. The evaluator and validator are kept
+ * identical to supabase/functions/_shared/conditions.ts.
+ */
+
+import type { Condition, ConditionOperator } from '../types/auth'
+
+export const CONDITION_OPERATORS: ConditionOperator[] = ['eq', 'neq', 'lt', 'lte', 'gt', 'gte', 'in', 'not_in', 'contains']
+
+// `user` is the caller, `resource` the record being acted on
+export interface ConditionContext {
+  user?: Record<string, unknown>
+  resource?: Record<string, unknown>
+}
+
+const MAX_CONDITION_DEPTH = 5
+const ATTRIBUTE_PATTERN = /^(user|resource)(\.[\w-]+)+$/
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isAttributeReference(value: unknown): value is { attribute: string } {
+  return isRecord(value) && Object.keys(value).length === 1 && typeof value.attribute === 'string'
+}
+
+function readAttribute(context: ConditionContext, path: string): unknown {
+  let current: unknown = context
+  for (const key of path.split('.')) {
+    if (!isRecord(current)) return undefined
+    current = current[key]
+  }
+  return current
+}
+
+function compare(operator: ConditionOperator, left: unknown, right: unknown): boolean {
+  const ordered = (typeof left === 'number' && typeof right === 'number') ||
+    (typeof left === 'string' && typeof right === 'string')
+
+  switch (operator) {
+    case 'eq': return left === right
+    case 'neq': return left !== right
+    case 'lt': return ordered && (left as number) < (right as number)
+    case 'lte': return ordered && (left as number) <= (right as number)
+    case 'gt': return ordered && (left as number) > (right as number)
+    case 'gte': return ordered && (left as number) >= (right as number)
+    case 'in': return Array.isArray(right) && right.includes(left)
+    case 'not_in': return Array.isArray(right) && !right.includes(left)
+    case 'contains':
+      if (Array.isArray(left)) return left.includes(right)
+      return typeof left === 'string' && typeof right === 'string' && left.includes(right)
+  }
+}
+
+/**
+ * Whether the condition holds in the given context. A comparison whose
+ * attribute (or referenced value) is missing is false, so an unknown
+ * attribute never grants access, not even through `neq` or `not_in`.
+ */
+export function evaluateCondition(condition: Condition, context: ConditionContext): boolean {
+  if ('all' in condition) return condition.all.every(child => evaluateCondition(child, context))
+  if ('any' in condition) return condition.any.some(child => evaluateCondition(child, context))
+  if ('not' in condition) return !evaluateCondition(condition.not, context)
+
+  const left = readAttribute(context, condition.attribute)
+  const right = isAttributeReference(condition.value) ? readAttribute(context, condition.value.attribute) : condition.value
+  if (left === undefined || right === undefined) return false
+  return compare(condition.operator, left, right)
+}
+
+// Returns an error message for the first problem found, or null when the condition is well formed
+export function validateCondition(condition: unknown, depth = 0): string | null {
+  if (depth >= MAX_CONDITION_DEPTH) return `Conditions can be nested at most ${MAX_CONDITION_DEPTH} levels deep`
+  if (!isRecord(condition)) return 'A condition must be an object'
+
+  const keys = Object.keys(condition)
+  for (const group of ['all', 'any'] as const) {
+    if (group in condition) {
+      const children = condition[group]
+      if (keys.length !== 1) return `"${group}" cannot be combined with other keys`
+      if (!Array.isArray(children) || children.length === 0) return `"${group}" needs a non-empty list of conditions`
+      for (const child of children) {
+        const error = validateCondition(child, depth + 1)
+        if (error) return error
+      }
+      return null
+    }
+  }
+  if ('not' in condition) {
+    if (keys.length !== 1) return '"not" cannot be combined with other keys'
+    return validateCondition(condition.not, depth + 1)
+  }
+
+  const { attribute, operator, value } = condition
+  if (typeof attribute !== 'string' || !ATTRIBUTE_PATTERN.test(attribute)) {
+    return 'Attributes must start with "user." or "resource."'
+  }
+  if (!CONDITION_OPERATORS.includes(operator as ConditionOperator)) {
+    return `Operator must be one of: ${CONDITION_OPERATORS.join(', ')}`
+  }
+  if (value === undefined) return `A value is required for ${attribute}`
+  if (isAttributeReference(value)) {
+    if (!ATTRIBUTE_PATTERN.test(value.attribute)) return 'Referenced attributes must start with "user." or "resource."'
+  } else if ((operator === 'in' || operator === 'not_in') && !Array.isArray(value)) {
+    return `"${operator}" needs a list of values`
+  }
+  if (keys.some(key => !['attribute', 'operator', 'value'].includes(key))) {
+    return 'Comparisons only take "attribute", "operator" and "value"'
+  }
+  return null
+}
+
+const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  eq: '=',
+  neq: '≠',
+  lt: '<',
+  lte: '≤',
+  gt: '>',
+  gte: '≥',
+  in: 'in',
+  not_in: 'not in',
+  contains: 'contains',
+}
+
+// One-line reading of a condition for role lists and tooltips
+export function describeCondition(condition: Condition): string {
+  if ('all' in condition) return condition.all.map(child => `(${describeCondition(child)})`).join(' and ')
+  if ('any' in condition) return condition.any.map(child => `(${describeCondition(child)})`).join(' or ')
+  if ('not' in condition) return `not (${describeCondition(condition.not)})`
+
+  const value = isAttributeReference(condition.value) ? condition.value.attribute : JSON.stringify(condition.value)
+  return `${condition.attribute} ${OPERATOR_LABELS[condition.operator]} ${value}`
+}
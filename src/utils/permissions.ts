@@ -1,4 +1,5 @@
-import type { User } from '../types/auth'
+import type { Permission, Role, RoleAssignment, User } from '../types/auth'
+import { evaluateCondition } from './conditions'
 
 // Cache for permission checks to avoid repeated calculations
 const permissionCache = new Map<string, boolean>()
@@ -34,9 +35,86 @@ export function hasComponentAccess(user: User | null, componentId: string): bool
   return user.component_access.includes(componentId)
 }
 
-export function hasPermission(user: User | null, resource: string, action: string): boolean {
+/**
+ * Whether a granted permission covers the requested one: `*` matches any
+ * resource or action, and `reports` also grants `reports.finance`. Kept
+ * identical to permissionMatches in supabase/functions/_shared/authorization.ts.
+ */
+export function permissionMatches(granted: Pick<Permission, 'resource' | 'action'>, resource: string, action: string): boolean {
+  const actionMatches = granted.action === '*' || granted.action === action
+  const resourceMatches = granted.resource === '*' ||
+    granted.resource === resource ||
+    resource.startsWith(`${granted.resource}.`)
+  return actionMatches && resourceMatches
+}
+
+/**
+ * Whether a role assignment applies at the given time. Kept identical to
+ * isRoleAssignmentActive in supabase/functions/_shared/authorization.ts.
+ */
+export function isRoleAssignmentActive(assignment: Pick<RoleAssignment, 'valid_from' | 'valid_until'>, now: Date = new Date()): boolean {
+  if (assignment.valid_from && new Date(assignment.valid_from) > now) return false
+  if (assignment.valid_until && new Date(assignment.valid_until) <= now) return false
+  return true
+}
+
+/**
+ * The organization a user works in: the selected one while they are still a
+ * member of it. Kept identical to getActiveOrganizationId in
+ * supabase/functions/_shared/authorization.ts.
+ */
+export function getActiveOrganizationId(
+  activeOrganizationId: string | null,
+  memberships: { organization_id: string }[] | null
+): string | null {
+  if (!activeOrganizationId) return null
+  return memberships?.some(m => m.organization_id === activeOrganizationId) ? activeOrganizationId : null
+}
+
+// Global roles apply in every organization; the others only in their own
+export function isRoleInOrganization(role: Pick<Role, 'organization_id'>, organizationId: string | null): boolean {
+  return !role.organization_id || role.organization_id === organizationId
+}
+
+/**
+ * The `user.*` attributes permission conditions see for a user. Kept identical
+ * to getUserAttributes in supabase/functions/_shared/authorization.ts.
+ */
+export function getUserAttributes(user: Pick<User, 'id' | 'email' | 'full_name' | 'department' | 'roles' | 'active_organization_id'>): Record<string, unknown> {
+  return {
+    id: user.id,
+    email: user.email,
+    email_domain: user.email.split('@').pop()?.toLowerCase(),
+    full_name: user.full_name,
+    department: user.department ?? null,
+    roles: user.roles?.map(role => role.name) || [],
+    organization_id: user.active_organization_id ?? null
+  }
+}
+
+/**
+ * Whether the user holds the permission. Conditions are only evaluated when
+ * the attributes of the record being acted on are given; without them a
+ * conditional grant counts, so menus and routes stay reachable for users who
+ * may act on some records. Checks with resource attributes are not cached.
+ */
+export function hasPermission(
+  user: User | null,
+  resource: string,
+  action: string,
+  resourceAttributes?: Record<string, unknown>
+): boolean {
   if (!user || !user.is_active) return false
   
+  if (resourceAttributes) {
+    if (user.roles?.some(role => role.name === 'admin')) return true
+    const context = { user: getUserAttributes(user), resource: resourceAttributes }
+    return user.permissions?.some(permission =>
+      permissionMatches(permission, resource, action) &&
+      (!permission.conditions || evaluateCondition(permission.conditions, context))
+    ) || false
+  }
+
   // Clean expired cache entries
   cleanPermissionCache()
   
@@ -52,9 +130,9 @@ export function hasPermission(user: User | null, resource: string, action: strin
   if (user.roles?.some(role => role.name === 'admin')) {
     hasAccess = true
   } else {
-    // Check if user has the specific permission through their roles
+    // Check if any permission from the user's roles covers this one
     hasAccess = user.permissions?.some(permission => 
-      permission.resource === resource && permission.action === action
+      permissionMatches(permission, resource, action)
     ) || false
   }
   
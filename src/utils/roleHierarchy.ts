@@ -0,0 +1,28 @@
+import type { Role } from '../types/auth'
+
+// parent_role_id of every role, keyed by role id
+export type RoleParents = Map<string, string | null>
+
+export function getRoleParents(roles: Pick<Role, 'id' | 'parent_role_id'>[]): RoleParents {
+  return new Map(roles.map(role => [role.id, role.parent_role_id ?? null]))
+}
+
+/**
+ * The role followed by its ancestors, nearest first. Mirrors getRoleLineage in
+ * supabase/functions/_shared/roleHierarchy.ts so the UI resolves inheritance
+ * exactly as the API does.
+ */
+export function getRoleLineage(roleId: string, parents: RoleParents): string[] {
+  const lineage: string[] = []
+  let current: string | null | undefined = roleId
+  while (current && !lineage.includes(current)) {
+    lineage.push(current)
+    current = parents.get(current)
+  }
+  return lineage
+}
+
+// Whether giving `roleId` the parent `parentId` would make the role its own ancestor
+export function createsRoleCycle(roleId: string, parentId: string, parents: RoleParents): boolean {
+  return getRoleLineage(parentId, parents).includes(roleId)
+}
@@ -0,0 +1,27 @@
+// Checked in order: Edge and Opera also announce Chrome, and Chrome announces Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Version\/.*Safari\//, 'Safari'],
+]
+
+const DEVICES: [RegExp, string][] = [
+  [/iPhone/, 'iPhone'],
+  [/iPad/, 'iPad'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Macintosh|Mac OS X/, 'Mac'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+]
+
+// Summarize a user agent string as a browser and device name for session lists
+export function describeUserAgent(userAgent: string | null): { browser: string; device: string } {
+  const ua = userAgent || ''
+  return {
+    browser: BROWSERS.find(([pattern]) => pattern.test(ua))?.[1] || 'Unknown browser',
+    device: DEVICES.find(([pattern]) => pattern.test(ua))?.[1] || 'Unknown device',
+  }
+}
@@ -1,43 +1,95 @@
-import type { PasswordValidationResult } from '../types/auth'
+import type { PasswordPolicy, PasswordContext, PasswordValidationError, PasswordValidationResult } from '../types/auth'
+import { queryClient, queryKeys } from '../lib/queryClient'
+import { passwordPolicyApi, ApiError } from '../lib/dataFetching'
 
-export async function validatePasswordStrength(password: string): Promise<PasswordValidationResult> {
-  const minLength = 8
-  const hasUppercase = /[A-Z]/.test(password)
-  const hasLowercase = /[a-z]/.test(password)
-  const hasNumber = /[0-9]/.test(password)
-  const hasSpecialChar = /[!@#$%^&*(),.?":{}|<>]/.test(password)
+// Used when the stored policy cannot be loaded; matches the seeded password_policy row
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  min_length: 8,
+  max_length: 128,
+  require_uppercase: true,
+  require_lowercase: true,
+  require_number: true,
+  require_special: true,
+  special_characters: '!@#$%^&*(),.?":{}|<>',
+  min_distinct_characters: 1,
+  disallow_user_info: true,
+  disallowed_substrings: [],
+  password_history_count: 5,
+  max_age_days: 0,
+  expiry_warning_days: 14,
+}
+
+// Name fragments of at least three characters taken from the email and full name
+function getUserInfoTokens(context: PasswordContext): string[] {
+  const emailName = context.email?.split('@')[0] || ''
+  const parts = [emailName, ...emailName.split(/[._+-]/), ...(context.fullName || '').split(/\s+/)]
+  return [...new Set(parts.map(part => part.toLowerCase()).filter(part => part.length >= 3))]
+}
 
-  const errors: string[] = []
-  let isValid = true
+/**
+ * Mirrors evaluatePasswordPolicy in supabase/functions/_shared/passwordPolicy.ts;
+ * keep the two in step so the form shows the errors the server will return.
+ */
+export function evaluatePasswordPolicy(password: string, policy: PasswordPolicy, context: PasswordContext = {}): PasswordValidationResult {
+  const errors: PasswordValidationError[] = []
+  const lowerPassword = password.toLowerCase()
 
-  if (password.length < minLength) {
-    errors.push(`Password must be at least ${minLength} characters long`)
-    isValid = false
+  if (password.length < policy.min_length) {
+    errors.push({ code: 'too_short', message: `Password must be at least ${policy.min_length} characters long` })
+  }
+  if (password.length > policy.max_length) {
+    errors.push({ code: 'too_long', message: `Password must be at most ${policy.max_length} characters long` })
   }
-  if (!hasUppercase) {
-    errors.push('Password must contain at least one uppercase letter')
-    isValid = false
+  if (policy.require_uppercase && !/[A-Z]/.test(password)) {
+    errors.push({ code: 'missing_uppercase', message: 'Password must contain at least one uppercase letter' })
   }
-  if (!hasLowercase) {
-    errors.push('Password must contain at least one lowercase letter')
-    isValid = false
+  if (policy.require_lowercase && !/[a-z]/.test(password)) {
+    errors.push({ code: 'missing_lowercase', message: 'Password must contain at least one lowercase letter' })
   }
-  if (!hasNumber) {
-    errors.push('Password must contain at least one number')
-    isValid = false
+  if (policy.require_number && !/[0-9]/.test(password)) {
+    errors.push({ code: 'missing_number', message: 'Password must contain at least one number' })
   }
-  if (!hasSpecialChar) {
-    errors.push('Password must contain at least one special character (!@#$%^&*(),.?":{}|<>)')
-    isValid = false
+  if (policy.require_special && ![...password].some(char => policy.special_characters.includes(char))) {
+    errors.push({ code: 'missing_special', message: `Password must contain at least one special character (${policy.special_characters})` })
+  }
+  if (new Set(password).size < policy.min_distinct_characters) {
+    errors.push({ code: 'too_few_distinct_characters', message: `Password must contain at least ${policy.min_distinct_characters} different characters` })
+  }
+  if (policy.disallow_user_info && getUserInfoTokens(context).some(token => lowerPassword.includes(token))) {
+    errors.push({ code: 'contains_user_info', message: 'Password must not contain your name or email address' })
+  }
+  if (policy.disallowed_substrings.some(substring => substring && lowerPassword.includes(substring.toLowerCase()))) {
+    errors.push({ code: 'contains_disallowed_substring', message: 'Password contains a word or pattern that is not allowed' })
   }
 
-  const message = isValid 
-    ? 'Password meets all strength requirements' 
-    : errors.join('. ')
+  const isValid = errors.length === 0
+  const message = isValid
+    ? 'Password meets all strength requirements'
+    : errors.map(error => error.message).join('. ')
 
   return { isValid, message, errors }
 }
 
+// Check a password against the configured policy, caching the policy between keystrokes
+export async function validatePasswordStrength(password: string, context: PasswordContext = {}): Promise<PasswordValidationResult> {
+  let policy = DEFAULT_PASSWORD_POLICY
+  try {
+    policy = await queryClient.fetchQuery({
+      queryKey: queryKeys.passwordPolicy(),
+      queryFn: passwordPolicyApi.getPolicy,
+    })
+  } catch (error) {
+    console.warn('⚠️ Failed to load password policy, using defaults:', error)
+  }
+
+  return evaluatePasswordPolicy(password, policy, context)
+}
+
+// update-password rejects the current password and recent ones with this code
+export function isPasswordReuseError(error: unknown): boolean {
+  return error instanceof ApiError && error.data.code === 'password_reused'
+}
+
 // Generate a secure temporary password
 export function generateTemporaryPassword(): string {
   const uppercase = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'
@@ -63,7 +115,7 @@ export function generateTemporaryPassword(): string {
 }
 
 // Server-side validation via Edge Function
-export const validatePasswordServerSide = async (password: string): Promise<PasswordValidationResult> => {
+export const validatePasswordServerSide = async (password: string, context: PasswordContext = {}): Promise<PasswordValidationResult> => {
   try {
     const API_BASE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`
     const response = await fetch(`${API_BASE_URL}/validate-password`, {
@@ -71,7 +123,7 @@ export const validatePasswordServerSide = async (password: string): Promise<Pass
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ password }),
+      body: JSON.stringify({ password, email: context.email, full_name: context.fullName }),
     })
 
     if (!response.ok) {
@@ -79,7 +131,7 @@ export const validatePasswordServerSide = async (password: string): Promise<Pass
       return { 
         isValid: false, 
         message: errorData.message || 'Server-side validation failed.',
-        errors: errorData.errors || ['Server error']
+        errors: errorData.errors || [{ code: 'server_error', message: 'Server error' }]
       }
     }
 
@@ -89,7 +141,7 @@ export const validatePasswordServerSide = async (password: string): Promise<Pass
     return { 
       isValid: false, 
       message: 'Could not connect to password validation service.',
-      errors: ['Network error']
+      errors: [{ code: 'network_error', message: 'Network error' }]
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import type { AuditSnapshot } from './audit.ts'
+
+export const ACCESS_REQUEST_STATUSES = ['pending', 'approved', 'rejected', 'cancelled'] as const
+
+export type AccessRequestStatus = typeof ACCESS_REQUEST_STATUSES[number]
+
+export interface AccessRequest {
+  id: string
+  user_id: string
+  // The organization the requester worked in; only its approvers review the request
+  organization_id: string | null
+  user_email: string | null
+  user_full_name: string | null
+  role_id: string
+  role_name: string | null
+  duration_hours: number
+  justification: string
+  status: AccessRequestStatus
+  reviewed_by: string | null
+  reviewer_email: string | null
+  reviewed_at: string | null
+  review_note: string | null
+  valid_until: string | null
+  created_at: string
+}
+
+const MAX_LISTED_REQUESTS = 200
+
+// users is referenced twice, so each embed names its foreign key
+const ACCESS_REQUEST_COLUMNS = `
+  id,
+  user_id,
+  organization_id,
+  role_id,
+  duration_hours,
+  justification,
+  status,
+  reviewed_by,
+  reviewed_at,
+  review_note,
+  valid_until,
+  created_at,
+  requester:users!access_requests_user_id_fkey(email, full_name),
+  reviewer:users!access_requests_reviewed_by_fkey(email),
+  roles(name)
+`
+
+// Access requests, newest first, with the requester, reviewer and role names flattened in
+export async function listAccessRequests(
+  supabase: SupabaseClient,
+  filters: { id?: string; userId?: string; organizationId?: string; status?: AccessRequestStatus } = {}
+): Promise<AccessRequest[]> {
+  let query = supabase
+    .from('access_requests')
+    .select(ACCESS_REQUEST_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(MAX_LISTED_REQUESTS)
+
+  if (filters.id) query = query.eq('id', filters.id)
+  if (filters.userId) query = query.eq('user_id', filters.userId)
+  if (filters.organizationId) query = query.eq('organization_id', filters.organizationId)
+  if (filters.status) query = query.eq('status', filters.status)
+
+  const { data, error } = await query
+  if (error) throw error
+
+  return (data || []).map(({ requester, reviewer, roles, ...request }) => ({
+    ...request,
+    user_email: requester?.email ?? null,
+    user_full_name: requester?.full_name ?? null,
+    reviewer_email: reviewer?.email ?? null,
+    role_name: roles?.name ?? null
+  })) as AccessRequest[]
+}
+
+export async function getAccessRequest(supabase: SupabaseClient, id: string): Promise<AccessRequest | null> {
+  const [request] = await listAccessRequests(supabase, { id })
+  return request ?? null
+}
+
+// Audit snapshot of a request; ids are replaced by the requester's email and the role name
+export const accessRequestSnapshot = (request: AccessRequest): AuditSnapshot => ({
+  user: request.user_email,
+  role: request.role_name,
+  duration_hours: request.duration_hours,
+  justification: request.justification,
+  status: request.status,
+  review_note: request.review_note,
+  valid_until: request.valid_until
+})
@@ -0,0 +1,80 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+
+export type AuditTargetType = 'user' | 'role' | 'permission' | 'settings' | 'access_request' | 'group'
+
+export type AuditSnapshot = Record<string, unknown>
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>
+
+export interface AuditEventInput {
+  actor: { id: string; email?: string | null }
+  action: string
+  targetType: AuditTargetType
+  targetId: string
+  // The organization the change was made in; null for system-wide changes, which only admins see
+  organizationId: string | null
+  before?: AuditSnapshot | null
+  after?: AuditSnapshot | null
+}
+
+/**
+ * Computes a per-field diff between two snapshots.
+ * Only fields whose serialized value changed are included.
+ */
+export function diffSnapshots(before: AuditSnapshot | null | undefined, after: AuditSnapshot | null | undefined): AuditChanges {
+  const changes: AuditChanges = {}
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})])
+
+  for (const key of keys) {
+    const beforeValue = before?.[key] ?? null
+    const afterValue = after?.[key] ?? null
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes[key] = { before: beforeValue, after: afterValue }
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Extract client IP and user agent from the incoming request. The IP is the one the
+ * platform proxy saw: `x-real-ip`, else the last `x-forwarded-for` entry. Earlier
+ * entries come from the client and can be forged, which would defeat IP throttling.
+ */
+export function getRequestMetadata(req: Request): { ipAddress: string | null; userAgent: string | null } {
+  const forwardedFor = req.headers.get('x-forwarded-for')
+  const ipAddress = req.headers.get('x-real-ip')?.trim() || forwardedFor?.split(',').pop()?.trim() || null
+
+  return {
+    ipAddress,
+    userAgent: req.headers.get('user-agent'),
+  }
+}
+
+/**
+ * Persists an audit event. Failures are logged but never propagated, so an
+ * audit write problem cannot roll back or block the admin operation itself.
+ */
+export async function recordAuditEvent(supabase: SupabaseClient, req: Request, event: AuditEventInput): Promise<void> {
+  try {
+    const { ipAddress, userAgent } = getRequestMetadata(req)
+
+    const { error } = await supabase
+      .from('audit_events')
+      .insert({
+        actor_id: event.actor.id,
+        actor_email: event.actor.email || null,
+        action: event.action,
+        target_type: event.targetType,
+        target_id: event.targetId,
+        organization_id: event.organizationId,
+        changes: diffSnapshots(event.before, event.after),
+        ip_address: ipAddress,
+        user_agent: userAgent,
+      })
+
+    if (error) console.error('Failed to record audit event:', error)
+  } catch (err) {
+    console.error('Error recording audit event:', err)
+  }
+}
@@ -0,0 +1,309 @@
+import type { SupabaseClient, User } from 'npm:@supabase/supabase-js@2'
+import { getRolesPermissions } from './roleHierarchy.ts'
+import { evaluateCondition, type Condition } from './conditions.ts'
+
+export interface PermissionRequirement {
+  resource: string
+  action: string
+}
+
+/**
+ * Permissions required per HTTP method. The caller needs at least one of the
+ * listed permissions; methods missing from the map are rejected.
+ */
+export type MethodPermissions = Partial<Record<string, PermissionRequirement[]>>
+
+// A permission held through one of the caller's roles, with the role's conditions
+export interface GrantedPermission extends PermissionRequirement {
+  conditions: Condition | null
+}
+
+export interface CallerAccess {
+  roleNames: string[]
+  permissions: GrantedPermission[]
+  mfaRequired: boolean
+  // The `user.*` attributes that permission conditions are evaluated against
+  attributes: Record<string, unknown>
+  // The selected organization, null when the caller is not a member of one
+  organizationId: string | null
+}
+
+// Optional validity window of a user_roles row; null bounds are open
+export interface RoleAssignmentWindow {
+  valid_from: string | null
+  valid_until: string | null
+}
+
+export interface AuthorizedCaller {
+  user: User
+  access: CallerAccess
+}
+
+export type AuthorizationResult =
+  | { caller: AuthorizedCaller }
+  | { status: number; error: string }
+
+// Validate the bearer token and return the authenticated user
+export async function authenticateRequest(supabase: SupabaseClient, req: Request): Promise<{ user: User } | { status: number; error: string }> {
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) {
+    return { status: 401, error: 'Missing authorization header' }
+  }
+
+  const token = authHeader.replace('Bearer ', '')
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+  if (authError || !user) {
+    return { status: 401, error: 'Invalid authorization token' }
+  }
+
+  return { user }
+}
+
+/**
+ * Whether a role assignment applies at the given time. Expired rows are
+ * removed by expire_role_assignments every few minutes; until then they are
+ * skipped here. Mirrors isRoleAssignmentActive in src/utils/permissions.ts.
+ */
+export function isRoleAssignmentActive(assignment: RoleAssignmentWindow, now: Date = new Date()): boolean {
+  if (assignment.valid_from && new Date(assignment.valid_from) > now) return false
+  if (assignment.valid_until && new Date(assignment.valid_until) <= now) return false
+  return true
+}
+
+/**
+ * Attributes of a user as seen by permission conditions, both for the caller
+ * (`user.*`) and for a user being acted on (`resource.*`). Built the same way
+ * as getUserAttributes in src/utils/permissions.ts.
+ */
+export function getUserAttributes(
+  user: { id?: string; email: string; full_name: string | null; department?: string | null },
+  roleNames: string[],
+  organizationId: string | null = null
+): Record<string, unknown> {
+  return {
+    id: user.id,
+    email: user.email,
+    email_domain: user.email.split('@').pop()?.toLowerCase(),
+    full_name: user.full_name,
+    department: user.department ?? null,
+    roles: roleNames,
+    organization_id: organizationId
+  }
+}
+
+/**
+ * The organization a user works in: the selected one while they are still a
+ * member of it. Mirrors getActiveOrganizationId in src/utils/permissions.ts.
+ */
+export function getActiveOrganizationId(
+  activeOrganizationId: string | null,
+  memberships: { organization_id: string }[] | null
+): string | null {
+  if (!activeOrganizationId) return null
+  return memberships?.some(m => m.organization_id === activeOrganizationId) ? activeOrganizationId : null
+}
+
+// Global roles apply in every organization; the others only in their own
+export function isRoleInOrganization(role: { organization_id: string | null }, organizationId: string | null): boolean {
+  return role.organization_id === null || role.organization_id === organizationId
+}
+
+/**
+ * Whether any of the roles is global. Global roles apply in every organization
+ * their holder belongs to, so only admins may grant, revoke or extend them,
+ * as only admins may change them in admin-roles.
+ */
+export async function includesGlobalRole(supabase: SupabaseClient, roleIds: string[]): Promise<boolean> {
+  if (roleIds.length === 0) return false
+  const { data, error } = await supabase.from('roles').select('id').in('id', roleIds).is('organization_id', null)
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+// Resolve the user's effective permissions through user_roles -> role_permissions,
+// including the permissions each role inherits from its ancestors and the roles
+// of the user's groups. Assignments outside their validity window, and roles and
+// groups of organizations other than the selected one, grant nothing.
+export async function getEffectivePermissions(supabase: SupabaseClient, userId: string): Promise<CallerAccess> {
+  const [{ data, error }, { data: profile, error: profileError }, { data: groupData, error: groupError }] = await Promise.all([
+    supabase
+      .from('user_roles')
+      .select(`
+        valid_from,
+        valid_until,
+        roles(
+          id,
+          name,
+          mfa_required,
+          organization_id
+        )
+      `)
+      .eq('user_id', userId),
+    supabase
+      .from('users')
+      .select('id, email, full_name, department, active_organization_id, organization_members(organization_id)')
+      .eq('id', userId)
+      .maybeSingle(),
+    supabase
+      .from('group_members')
+      .select(`
+        groups(
+          organization_id,
+          group_roles(
+            roles(
+              id,
+              name,
+              mfa_required,
+              organization_id
+            )
+          )
+        )
+      `)
+      .eq('user_id', userId)
+  ])
+
+  if (error) throw error
+  if (profileError) throw profileError
+  if (groupError) throw groupError
+
+  const organizationId = profile ? getActiveOrganizationId(profile.active_organization_id, profile.organization_members) : null
+  const directRoles = data?.filter(ur => isRoleAssignmentActive(ur)).map(ur => ur.roles) || []
+  const groupRoles = (groupData || [])
+    .filter(gm => gm.groups && gm.groups.organization_id === organizationId)
+    .flatMap(gm => gm.groups!.group_roles.map(gr => gr.roles))
+  // A role held both directly and through a group counts once
+  const roles = [...directRoles, ...groupRoles]
+    .filter(role => role && isRoleInOrganization(role, organizationId))
+    .filter((role, index, array) => array.findIndex(r => r!.id === role!.id) === index)
+  const roleNames = roles.map(role => role.name)
+  const permissions = (await getRolesPermissions(supabase, roles.map(role => role.id)))
+    .map(permission => ({ resource: permission.resource, action: permission.action, conditions: permission.conditions }))
+
+  return {
+    roleNames,
+    permissions,
+    mfaRequired: roles.some(role => role.mfa_required),
+    attributes: profile ? getUserAttributes(profile, roleNames, organizationId) : { id: userId, roles: roleNames },
+    organizationId
+  }
+}
+
+// Decode the bearer token's payload without verifying it
+function readTokenClaims(req: Request): Record<string, unknown> | null {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+  const payload = token?.split('.')[1]
+  if (!payload) return null
+
+  try {
+    return JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reads the authenticator assurance level (`aal1` or `aal2`) from the bearer
+ * token. Only call this after the token has been validated by getUser.
+ */
+export function getAssuranceLevel(req: Request): string | null {
+  const aal = readTokenClaims(req)?.aal
+  return typeof aal === 'string' ? aal : null
+}
+
+/**
+ * Reads the auth session id from the bearer token, as stored in
+ * `user_sessions.id`. Only call this after the token has been validated.
+ */
+export function getSessionId(req: Request): string | null {
+  const sessionId = readTokenClaims(req)?.session_id
+  return typeof sessionId === 'string' ? sessionId : null
+}
+
+/**
+ * Whether a granted permission covers the requested resource and action. `*`
+ * matches any resource or any action, and a resource also covers its dotted
+ * descendants, so `reports` grants `reports.finance`.
+ */
+export function permissionMatches(granted: PermissionRequirement, resource: string, action: string): boolean {
+  const actionMatches = granted.action === '*' || granted.action === action
+  const resourceMatches = granted.resource === '*' ||
+    granted.resource === resource ||
+    resource.startsWith(`${granted.resource}.`)
+  return actionMatches && resourceMatches
+}
+
+// Resources are `*` or dot-separated names; actions are `*` or a single name
+export function isValidPermissionPattern(resource: string, action: string): boolean {
+  return /^(\*|[\w-]+(\.[\w-]+)*)$/.test(resource) && /^(\*|[\w-]+)$/.test(action)
+}
+
+/**
+ * Same semantics as hasPermission in src/utils/permissions.ts so that what the
+ * UI shows and what the API allows stay in agreement. Conditions are only
+ * evaluated when the attributes of the record being acted on are given;
+ * without them a conditional grant counts, as it allows access to some
+ * records, so callers must then check each record themselves.
+ */
+export function hasPermission(
+  access: CallerAccess,
+  resource: string,
+  action: string,
+  resourceAttributes?: Record<string, unknown>
+): boolean {
+  if (access.roleNames.includes('admin')) return true
+  return access.permissions.some(permission =>
+    permissionMatches(permission, resource, action) &&
+    (!permission.conditions || !resourceAttributes ||
+      evaluateCondition(permission.conditions, { user: access.attributes, resource: resourceAttributes }))
+  )
+}
+
+// Whether the permission is granted without conditions, so it applies to every record
+export function hasUnconditionalPermission(access: CallerAccess, resource: string, action: string): boolean {
+  if (access.roleNames.includes('admin')) return true
+  return access.permissions.some(permission => !permission.conditions && permissionMatches(permission, resource, action))
+}
+
+/**
+ * Authenticate the caller and check the permissions required for the request
+ * method. Admin APIs additionally require a session verified with a second
+ * factor (AAL2), matching the admin route guard in ProtectedRoute.
+ *
+ * Conditional grants only pass when `checksConditions` is set, for handlers
+ * that evaluate them against each record they read or change; everywhere else
+ * they would act as unconditional grants, so they are refused.
+ */
+export async function authorizeRequest(
+  supabase: SupabaseClient,
+  req: Request,
+  methodPermissions: MethodPermissions,
+  options: { checksConditions?: boolean } = {}
+): Promise<AuthorizationResult> {
+  const authentication = await authenticateRequest(supabase, req)
+  if ('error' in authentication) return authentication
+
+  const requirements = methodPermissions[req.method]
+  if (!requirements) {
+    return { status: 405, error: 'Method not allowed' }
+  }
+
+  let access: CallerAccess
+  try {
+    access = await getEffectivePermissions(supabase, authentication.user.id)
+  } catch (err) {
+    console.error('Failed to resolve caller permissions:', err)
+    return { status: 403, error: 'Insufficient permissions' }
+  }
+
+  const isGranted = options.checksConditions ? hasPermission : hasUnconditionalPermission
+  if (!requirements.some(requirement => isGranted(access, requirement.resource, requirement.action))) {
+    return { status: 403, error: 'Insufficient permissions' }
+  }
+
+  if (getAssuranceLevel(req) !== 'aal2') {
+    return { status: 403, error: 'Multi-factor authentication required' }
+  }
+
+  return { caller: { user: authentication.user, access } }
+}
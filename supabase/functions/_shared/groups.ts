@@ -0,0 +1,79 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import type { AuditSnapshot } from './audit.ts'
+
+export interface GroupMember {
+  id: string
+  email: string
+  full_name: string | null
+}
+
+export interface Group {
+  id: string
+  organization_id: string
+  name: string
+  description: string | null
+  created_at: string
+  // Held by every member in addition to their own roles
+  roles: { id: string; name: string }[]
+  members: GroupMember[]
+}
+
+const GROUP_COLUMNS = `
+  id,
+  organization_id,
+  name,
+  description,
+  created_at,
+  group_roles(
+    roles(
+      id,
+      name
+    )
+  ),
+  group_members(
+    users(
+      id,
+      email,
+      full_name
+    )
+  )
+`
+
+// Groups of the organization by name, with their roles and members flattened in
+export async function listGroups(
+  supabase: SupabaseClient,
+  organizationId: string,
+  filters: { id?: string } = {}
+): Promise<Group[]> {
+  let query = supabase
+    .from('groups')
+    .select(GROUP_COLUMNS)
+    .eq('organization_id', organizationId)
+    .order('name')
+
+  if (filters.id) query = query.eq('id', filters.id)
+
+  const { data, error } = await query
+  if (error) throw error
+
+  return (data || []).map(({ group_roles, group_members, ...group }) => ({
+    ...group,
+    roles: (group_roles || []).map(gr => gr.roles).filter(Boolean)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    members: (group_members || []).map(gm => gm.users).filter(Boolean)
+      .sort((a, b) => a.email.localeCompare(b.email))
+  })) as Group[]
+}
+
+export async function getGroup(supabase: SupabaseClient, organizationId: string, id: string): Promise<Group | null> {
+  const [group] = await listGroups(supabase, organizationId, { id })
+  return group ?? null
+}
+
+// Audit snapshot of a group; roles and members are listed by name and email
+export const groupSnapshot = (group: Group): AuditSnapshot => ({
+  name: group.name,
+  description: group.description,
+  roles: group.roles.map(role => role.name),
+  members: group.members.map(member => member.email)
+})
@@ -0,0 +1,55 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import type { PasswordValidationError } from './passwordPolicy.ts'
+
+// Common character substitutions undone before the dictionary lookup
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '@': 'a', '$': 's', '!': 'i',
+}
+
+async function sha1Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase()
+}
+
+// The password itself plus versions with leading/trailing digits and symbols stripped and substitutions undone
+function getDictionaryCandidates(password: string): string[] {
+  const lower = password.toLowerCase()
+  const trim = (value: string) => value.replace(/^[^a-z]+|[^a-z]+$/g, '')
+  const unleet = [...lower].map(char => LEET_SUBSTITUTIONS[char] || char).join('')
+  return [...new Set([lower, trim(lower), unleet, trim(unleet)].filter(candidate => candidate.length > 0))]
+}
+
+/**
+ * Check a password against the local breached-password and dictionary tables.
+ * Only the 5-character SHA-1 prefix is used in the query; the bucket is
+ * compared here, so the lookup works without reaching any external service.
+ */
+export async function checkPasswordCorpus(supabase: SupabaseClient, password: string): Promise<PasswordValidationError[]> {
+  const errors: PasswordValidationError[] = []
+  const hash = await sha1Hex(password)
+
+  const { data: bucket, error: bucketError } = await supabase
+    .from('breached_password_hashes')
+    .select('suffix')
+    .eq('prefix', hash.slice(0, 5))
+
+  if (bucketError) throw bucketError
+
+  if (bucket?.some(row => row.suffix === hash.slice(5))) {
+    errors.push({ code: 'breached_password', message: 'This password has appeared in a data breach and cannot be used' })
+  }
+
+  const { data: words, error: wordsError } = await supabase
+    .from('password_dictionary_words')
+    .select('word')
+    .in('word', getDictionaryCandidates(password))
+    .limit(1)
+
+  if (wordsError) throw wordsError
+
+  if (words && words.length > 0) {
+    errors.push({ code: 'dictionary_word', message: 'Password is too close to a common word or password' })
+  }
+
+  return errors
+}
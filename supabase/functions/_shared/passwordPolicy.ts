@@ -0,0 +1,139 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+
+export interface PasswordPolicy {
+  min_length: number
+  max_length: number
+  require_uppercase: boolean
+  require_lowercase: boolean
+  require_number: boolean
+  require_special: boolean
+  special_characters: string
+  min_distinct_characters: number
+  disallow_user_info: boolean
+  disallowed_substrings: string[]
+  // Previous passwords that may not be reused; checked by update-password only
+  password_history_count: number
+  // Days before a password must be changed; 0 disables expiry
+  max_age_days: number
+  expiry_warning_days: number
+}
+
+export type PasswordErrorCode =
+  | 'too_short'
+  | 'too_long'
+  | 'missing_uppercase'
+  | 'missing_lowercase'
+  | 'missing_number'
+  | 'missing_special'
+  | 'too_few_distinct_characters'
+  | 'contains_user_info'
+  | 'contains_disallowed_substring'
+  | 'password_reused'
+  | 'breached_password'
+  | 'dictionary_word'
+  | 'invalid_format'
+  | 'server_error'
+  | 'network_error'
+
+export interface PasswordValidationError {
+  code: PasswordErrorCode
+  message: string
+}
+
+export interface PasswordValidationResult {
+  isValid: boolean
+  message: string
+  errors: PasswordValidationError[]
+}
+
+// Details about the account the password is for, used by the user-info rule
+export interface PasswordContext {
+  email?: string | null
+  fullName?: string | null
+}
+
+export const PASSWORD_POLICY_COLUMNS = 'min_length, max_length, require_uppercase, require_lowercase, require_number, require_special, special_characters, min_distinct_characters, disallow_user_info, disallowed_substrings, password_history_count, max_age_days, expiry_warning_days'
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  min_length: 8,
+  max_length: 128,
+  require_uppercase: true,
+  require_lowercase: true,
+  require_number: true,
+  require_special: true,
+  special_characters: '!@#$%^&*(),.?":{}|<>',
+  min_distinct_characters: 1,
+  disallow_user_info: true,
+  disallowed_substrings: [],
+  password_history_count: 5,
+  max_age_days: 0,
+  expiry_warning_days: 14,
+}
+
+// Load the stored policy, falling back to the defaults if the row is missing
+export async function getPasswordPolicy(supabase: SupabaseClient): Promise<PasswordPolicy> {
+  const { data, error } = await supabase
+    .from('password_policy')
+    .select(PASSWORD_POLICY_COLUMNS)
+    .eq('id', 1)
+    .maybeSingle()
+
+  if (error) console.error('Failed to load password policy:', error)
+  return data ? { ...DEFAULT_PASSWORD_POLICY, ...data } : DEFAULT_PASSWORD_POLICY
+}
+
+// Name fragments of at least three characters taken from the email and full name
+function getUserInfoTokens(context: PasswordContext): string[] {
+  const emailName = context.email?.split('@')[0] || ''
+  const parts = [emailName, ...emailName.split(/[._+-]/), ...(context.fullName || '').split(/\s+/)]
+  return [...new Set(parts.map(part => part.toLowerCase()).filter(part => part.length >= 3))]
+}
+
+/**
+ * Same rules and messages as evaluatePasswordPolicy in src/utils/validation.ts,
+ * so the client and the edge functions report identical errors.
+ */
+export function evaluatePasswordPolicy(password: string, policy: PasswordPolicy, context: PasswordContext = {}): PasswordValidationResult {
+  const errors: PasswordValidationError[] = []
+  const lowerPassword = password.toLowerCase()
+
+  if (password.length < policy.min_length) {
+    errors.push({ code: 'too_short', message: `Password must be at least ${policy.min_length} characters long` })
+  }
+  if (password.length > policy.max_length) {
+    errors.push({ code: 'too_long', message: `Password must be at most ${policy.max_length} characters long` })
+  }
+  if (policy.require_uppercase && !/[A-Z]/.test(password)) {
+    errors.push({ code: 'missing_uppercase', message: 'Password must contain at least one uppercase letter' })
+  }
+  if (policy.require_lowercase && !/[a-z]/.test(password)) {
+    errors.push({ code: 'missing_lowercase', message: 'Password must contain at least one lowercase letter' })
+  }
+  if (policy.require_number && !/[0-9]/.test(password)) {
+    errors.push({ code: 'missing_number', message: 'Password must contain at least one number' })
+  }
+  if (policy.require_special && ![...password].some(char => policy.special_characters.includes(char))) {
+    errors.push({ code: 'missing_special', message: `Password must contain at least one special character (${policy.special_characters})` })
+  }
+  if (new Set(password).size < policy.min_distinct_characters) {
+    errors.push({ code: 'too_few_distinct_characters', message: `Password must contain at least ${policy.min_distinct_characters} different characters` })
+  }
+  if (policy.disallow_user_info && getUserInfoTokens(context).some(token => lowerPassword.includes(token))) {
+    errors.push({ code: 'contains_user_info', message: 'Password must not contain your name or email address' })
+  }
+  if (policy.disallowed_substrings.some(substring => substring && lowerPassword.includes(substring.toLowerCase()))) {
+    errors.push({ code: 'contains_disallowed_substring', message: 'Password contains a word or pattern that is not allowed' })
+  }
+
+  return toValidationResult(errors)
+}
+
+// Build the response shape from a list of failed rules, e.g. after adding corpus checks
+export function toValidationResult(errors: PasswordValidationError[]): PasswordValidationResult {
+  const isValid = errors.length === 0
+  const message = isValid
+    ? 'Password meets all strength requirements'
+    : errors.map(error => error.message).join('. ')
+
+  return { isValid, message, errors }
+}
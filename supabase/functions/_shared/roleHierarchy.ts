@@ -0,0 +1,78 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import type { Condition } from './conditions.ts'
+
+export interface RolePermission {
+  id: string
+  resource: string
+  action: string
+  description: string | null
+  // Null when the role holds the permission unconditionally
+  conditions: Condition | null
+}
+
+// parent_role_id of every role, keyed by role id
+export type RoleParents = Map<string, string | null>
+
+export async function getRoleParents(supabase: SupabaseClient): Promise<RoleParents> {
+  const { data, error } = await supabase
+    .from('roles')
+    .select('id, parent_role_id')
+
+  if (error) throw error
+  return new Map((data || []).map(role => [role.id, role.parent_role_id]))
+}
+
+/**
+ * The role followed by its ancestors, nearest first. Same walk as
+ * getRoleLineage in src/utils/roleHierarchy.ts; a repeated role ends it, so
+ * a cycle in the data cannot loop forever.
+ */
+export function getRoleLineage(roleId: string, parents: RoleParents): string[] {
+  const lineage: string[] = []
+  let current: string | null | undefined = roleId
+  while (current && !lineage.includes(current)) {
+    lineage.push(current)
+    current = parents.get(current)
+  }
+  return lineage
+}
+
+// Whether giving `roleId` the parent `parentId` would make the role its own ancestor
+export function createsRoleCycle(roleId: string, parentId: string, parents: RoleParents): boolean {
+  return getRoleLineage(parentId, parents).includes(roleId)
+}
+
+// Direct and inherited permissions of the given roles, without duplicates. The
+// same permission held under different conditions is kept once per condition.
+export async function getRolesPermissions(supabase: SupabaseClient, roleIds: string[]): Promise<RolePermission[]> {
+  if (roleIds.length === 0) return []
+
+  const parents = await getRoleParents(supabase)
+  const lineageIds = [...new Set(roleIds.flatMap(roleId => getRoleLineage(roleId, parents)))]
+
+  const { data, error } = await supabase
+    .from('role_permissions')
+    .select(`
+      conditions,
+      permissions(
+        id,
+        resource,
+        action,
+        description
+      )
+    `)
+    .in('role_id', lineageIds)
+
+  if (error) throw error
+
+  const permissions = (data || [])
+    .filter(rp => rp.permissions)
+    .map(rp => ({ ...rp.permissions, conditions: rp.conditions ?? null })) as unknown as RolePermission[]
+  return permissions.filter((permission, index, array) =>
+    array.findIndex(p =>
+      p.resource === permission.resource &&
+      p.action === permission.action &&
+      JSON.stringify(p.conditions) === JSON.stringify(permission.conditions)
+    ) === index
+  )
+}
@@ -0,0 +1,41 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+
+export interface TrackedSession {
+  id: string
+  ip_address: string | null
+  user_agent: string | null
+  created_at: string
+  last_seen_at: string
+}
+
+// A user's tracked sessions, most recently active first
+export async function listUserSessions(supabase: SupabaseClient, userId: string): Promise<TrackedSession[]> {
+  const { data, error } = await supabase
+    .from('user_sessions')
+    .select('id, ip_address, user_agent, created_at, last_seen_at')
+    .eq('user_id', userId)
+    .order('last_seen_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * End a user's auth sessions through revoke_user_sessions: all of them, only
+ * `sessionIds`, or all but `keepSessionId`. Refresh tokens stop working and
+ * each affected tab receives a sign_out event. Returns the number revoked.
+ */
+export async function revokeUserSessions(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { sessionIds?: string[]; keepSessionId?: string | null } = {}
+): Promise<number> {
+  const { data, error } = await supabase.rpc('revoke_user_sessions', {
+    p_user_id: userId,
+    p_session_ids: options.sessionIds ?? null,
+    p_keep_session_id: options.keepSessionId ?? null
+  })
+
+  if (error) throw error
+  return data ?? 0
+}
@@ -0,0 +1,207 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { authenticateRequest, getEffectivePermissions, isRoleAssignmentActive, isRoleInOrganization } from '../_shared/authorization.ts'
+import { recordAuditEvent } from '../_shared/audit.ts'
+import { accessRequestSnapshot, getAccessRequest, listAccessRequests } from '../_shared/accessRequests.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+}
+
+const MAX_DURATION_HOURS = 168
+const MAX_JUSTIFICATION_LENGTH = 1000
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Callers only ever see and change their own requests; reviewing goes through admin-access-requests
+    const authentication = await authenticateRequest(supabase, req)
+
+    if ('error' in authentication) {
+      return new Response(
+        JSON.stringify({ error: authentication.error }),
+        { status: authentication.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { user } = authentication
+    const url = new URL(req.url)
+
+    // GET the caller's requests
+    if (req.method === 'GET' && url.pathname.endsWith('/access-requests')) {
+      const requests = await listAccessRequests(supabase, { userId: user.id })
+      return new Response(
+        JSON.stringify({ requests }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // POST request a role for a limited time
+    if (req.method === 'POST' && url.pathname.endsWith('/access-requests')) {
+      const { role_id, duration_hours, justification } = await req.json()
+      const reason = typeof justification === 'string' ? justification.trim() : ''
+
+      if (typeof role_id !== 'string' || !role_id) {
+        return new Response(
+          JSON.stringify({ error: 'A role is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      if (!Number.isInteger(duration_hours) || duration_hours < 1 || duration_hours > MAX_DURATION_HOURS) {
+        return new Response(
+          JSON.stringify({ error: `Duration must be between 1 and ${MAX_DURATION_HOURS} hours` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      if (!reason || reason.length > MAX_JUSTIFICATION_LENGTH) {
+        return new Response(
+          JSON.stringify({ error: `A justification of up to ${MAX_JUSTIFICATION_LENGTH} characters is required` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      // Requests belong to the organization the caller works in, and are reviewed there
+      const { organizationId } = await getEffectivePermissions(supabase, user.id)
+      if (!organizationId) {
+        return new Response(
+          JSON.stringify({ error: 'Select an organization first' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      // Only global roles and those of the organization the caller works in can be requested
+      const { data: role, error: roleError } = await supabase
+        .from('roles')
+        .select('organization_id')
+        .eq('id', role_id)
+        .maybeSingle()
+
+      if (roleError && roleError.code !== '22P02') throw roleError
+      if (!role || !isRoleInOrganization(role, organizationId)) {
+        return new Response(
+          JSON.stringify({ error: 'Role not found' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      // A permanent grant already in effect makes the request pointless; a time-bound one may be extended
+      const { data: assignment, error: assignmentError } = await supabase
+        .from('user_roles')
+        .select('valid_from, valid_until')
+        .eq('user_id', user.id)
+        .eq('role_id', role_id)
+        .maybeSingle()
+
+      if (assignmentError) throw assignmentError
+      if (assignment && !assignment.valid_until && isRoleAssignmentActive(assignment)) {
+        return new Response(
+          JSON.stringify({ error: 'You already have this role' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { data: created, error } = await supabase
+        .from('access_requests')
+        .insert({ user_id: user.id, organization_id: organizationId, role_id, duration_hours, justification: reason })
+        .select('id')
+        .single()
+
+      if (error?.code === '23505') {
+        return new Response(
+          JSON.stringify({ error: 'You already have a pending request for this role' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      if (error?.code === '23503' || error?.code === '22P02') {
+        return new Response(
+          JSON.stringify({ error: 'Role not found' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      if (error) throw error
+
+      const request = (await getAccessRequest(supabase, created.id))!
+
+      await recordAuditEvent(supabase, req, {
+        actor: user,
+        action: 'access_request.create',
+        targetType: 'access_request',
+        targetId: request.id,
+        organizationId,
+        after: accessRequestSnapshot(request)
+      })
+
+      return new Response(
+        JSON.stringify({ request }),
+        { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // DELETE withdraw one of the caller's pending requests
+    if (req.method === 'DELETE') {
+      const requestId = url.pathname.split('/').pop()!
+      const before = await getAccessRequest(supabase, requestId)
+
+      if (!before || before.user_id !== user.id) {
+        return new Response(
+          JSON.stringify({ error: 'Access request not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      // The status guard keeps a concurrent approval from being overwritten
+      const { data: cancelled, error } = await supabase
+        .from('access_requests')
+        .update({ status: 'cancelled' })
+        .eq('id', requestId)
+        .eq('status', 'pending')
+        .select('id')
+
+      if (error) throw error
+      if (!cancelled?.length) {
+        return new Response(
+          JSON.stringify({ error: 'Only pending requests can be cancelled' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const request = (await getAccessRequest(supabase, requestId))!
+
+      await recordAuditEvent(supabase, req, {
+        actor: user,
+        action: 'access_request.cancel',
+        targetType: 'access_request',
+        targetId: requestId,
+        organizationId: before.organization_id,
+        before: accessRequestSnapshot(before),
+        after: accessRequestSnapshot(request)
+      })
+
+      return new Response(
+        JSON.stringify({ request }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in access-requests function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
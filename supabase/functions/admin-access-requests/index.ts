@@ -0,0 +1,194 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { authorizeRequest, includesGlobalRole } from '../_shared/authorization.ts'
+import { recordAuditEvent } from '../_shared/audit.ts'
+import {
+  ACCESS_REQUEST_STATUSES,
+  accessRequestSnapshot,
+  getAccessRequest,
+  listAccessRequests,
+  type AccessRequestStatus
+} from '../_shared/accessRequests.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+}
+
+const MAX_NOTE_LENGTH = 1000
+
+// HTTP status for errors raised by approve_access_request
+const APPROVAL_ERRORS: Record<string, number> = {
+  'P0002': 404,
+  '55000': 409,
+  '42501': 403,
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Authenticate the caller and check permissions for the request method
+    const authorization = await authorizeRequest(supabase, req, {
+      GET: [{ resource: 'access', action: 'approve' }],
+      POST: [{ resource: 'access', action: 'approve' }]
+    })
+
+    if ('error' in authorization) {
+      return new Response(
+        JSON.stringify({ error: authorization.error }),
+        { status: authorization.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { user, access } = authorization.caller
+    const { organizationId } = access
+
+    // Requests are reviewed within the organization they were made in
+    if (!organizationId) {
+      return new Response(
+        JSON.stringify({ error: 'Select an organization first' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const url = new URL(req.url)
+
+    // GET requests, pending ones by default; status=all lists every request
+    if (req.method === 'GET') {
+      const status = url.searchParams.get('status') || 'pending'
+      if (status !== 'all' && !ACCESS_REQUEST_STATUSES.includes(status as AccessRequestStatus)) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid status' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const requests = await listAccessRequests(
+        supabase,
+        status === 'all' ? { organizationId } : { organizationId, status: status as AccessRequestStatus }
+      )
+      return new Response(
+        JSON.stringify({ requests }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const [requestId, decision] = url.pathname.split('/').slice(-2)
+    if (decision !== 'approve' && decision !== 'reject') {
+      return new Response(
+        JSON.stringify({ error: 'Not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { note } = await req.json().catch(() => ({}))
+    const reviewNote = typeof note === 'string' && note.trim() ? note.trim() : null
+
+    if (reviewNote && reviewNote.length > MAX_NOTE_LENGTH) {
+      return new Response(
+        JSON.stringify({ error: `Notes are limited to ${MAX_NOTE_LENGTH} characters` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const before = await getAccessRequest(supabase, requestId)
+    if (!before || before.organization_id !== organizationId) {
+      return new Response(
+        JSON.stringify({ error: 'Access request not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (before.user_id === user.id) {
+      return new Response(
+        JSON.stringify({ error: 'You cannot review your own request' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // POST approve: the request is closed and the time-limited grant written in one transaction
+    if (decision === 'approve') {
+      if (!access.roleNames.includes('admin') && await includesGlobalRole(supabase, [before.role_id])) {
+        return new Response(
+          JSON.stringify({ error: 'Only admins can approve requests for global roles' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { error } = await supabase.rpc('approve_access_request', {
+        p_request_id: requestId,
+        p_reviewer_id: user.id,
+        p_note: reviewNote,
+        p_organization_id: organizationId
+      })
+
+      if (error) {
+        const status = APPROVAL_ERRORS[error.code || '']
+        if (!status) throw error
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      // Open tabs of the requester reload the profile to pick up the role
+      const { error: notifyError } = await supabase.rpc('notify_user_session', {
+        p_user_id: before.user_id,
+        p_action: 'refresh',
+        p_reason: 'access_approved'
+      })
+      if (notifyError) console.error('Failed to notify user session:', notifyError)
+    }
+
+    // POST reject: the status guard keeps a concurrent review or cancellation from being overwritten
+    if (decision === 'reject') {
+      const { data: rejected, error } = await supabase
+        .from('access_requests')
+        .update({ status: 'rejected', reviewed_by: user.id, reviewed_at: new Date().toISOString(), review_note: reviewNote })
+        .eq('id', requestId)
+        .eq('organization_id', organizationId)
+        .eq('status', 'pending')
+        .select('id')
+
+      if (error) throw error
+      if (!rejected?.length) {
+        return new Response(
+          JSON.stringify({ error: `Access request has already been ${before.status}` }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
+    const request = (await getAccessRequest(supabase, requestId))!
+
+    await recordAuditEvent(supabase, req, {
+      actor: user,
+      action: `access_request.${decision}`,
+      targetType: 'access_request',
+      targetId: requestId,
+      organizationId,
+      before: accessRequestSnapshot(before),
+      after: accessRequestSnapshot(request)
+    })
+
+    return new Response(
+      JSON.stringify({ request }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in admin-access-requests function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
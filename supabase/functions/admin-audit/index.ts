@@ -0,0 +1,95 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { authorizeRequest } from '../_shared/authorization.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+}
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 500
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Authenticate the caller and check permissions for the request method
+    const authorization = await authorizeRequest(supabase, req, {
+      GET: [{ resource: 'audit', action: 'read' }]
+    })
+
+    if ('error' in authorization) {
+      return new Response(
+        JSON.stringify({ error: authorization.error }),
+        { status: authorization.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { access } = authorization.caller
+    const { organizationId } = access
+
+    // Events are read within the caller's selected organization
+    if (!organizationId) {
+      return new Response(
+        JSON.stringify({ error: 'Select an organization first' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // GET audit events with optional filters
+    const params = new URL(req.url).searchParams
+    const actorId = params.get('actor_id')
+    const targetType = params.get('target_type')
+    const targetId = params.get('target_id')
+    const from = params.get('from')
+    const to = params.get('to')
+    const requestedLimit = parseInt(params.get('limit') || '', 10)
+    const limit = Number.isNaN(requestedLimit) ? DEFAULT_LIMIT : Math.min(Math.max(requestedLimit, 1), MAX_LIMIT)
+
+    let query = supabase
+      .from('audit_events')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    // System-wide events (permissions, settings, global roles) have no organization and are for admins only
+    query = access.roleNames.includes('admin')
+      ? query.or(`organization_id.eq.${organizationId},organization_id.is.null`)
+      : query.eq('organization_id', organizationId)
+
+    if (actorId) query = query.eq('actor_id', actorId)
+    if (targetType) query = query.eq('target_type', targetType)
+    if (targetId) query = query.eq('target_id', targetId)
+    if (from) query = query.gte('created_at', from)
+    if (to) query = query.lte('created_at', to)
+
+    const { data: events, error: eventsError } = await query
+
+    if (eventsError) {
+      return new Response(
+        JSON.stringify({ error: eventsError.message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ events: events || [] }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in admin-audit function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,352 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { authorizeRequest, isRoleAssignmentActive, isRoleInOrganization, permissionMatches } from '../_shared/authorization.ts'
+import { getRoleLineage } from '../_shared/roleHierarchy.ts'
+import type { Condition } from '../_shared/conditions.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Expose-Headers': 'content-disposition',
+}
+
+type Cell = string | number | boolean | null | undefined
+
+interface RoleRow {
+  id: string
+  name: string
+  description: string | null
+  mfa_required: boolean
+  parent_role_id: string | null
+  // Null for global roles
+  organization_id: string | null
+  role_permissions: { conditions: Condition | null; permissions: { resource: string; action: string } | null }[] | null
+}
+
+interface UserRow {
+  id: string
+  email: string
+  full_name: string
+  is_active: boolean
+  needs_password_reset: boolean
+  created_at: string
+  user_roles: { valid_from: string | null; valid_until: string | null; roles: RoleRow | null }[] | null
+  group_members: { groups: { name: string; organization_id: string; group_roles: { roles: RoleRow | null }[] } | null }[] | null
+}
+
+const permissionKey = (permission: { resource: string; action: string }) => `${permission.resource}:${permission.action}`
+
+// RFC 4180 quoting; a leading =, +, - or @ is prefixed so spreadsheets do not evaluate it
+function toCsv(header: string[], rows: Cell[][]): string {
+  const escape = (value: Cell) => {
+    let text = value === null || value === undefined ? '' : String(value)
+    if (/^[=+\-@]/.test(text)) text = `'${text}`
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+  return [header, ...rows].map(row => row.map(escape).join(',')).join('\r\n') + '\r\n'
+}
+
+const ROLE_COLUMNS = `
+  id,
+  name,
+  description,
+  mfa_required,
+  parent_role_id,
+  organization_id,
+  role_permissions(
+    conditions,
+    permissions(
+      resource,
+      action
+    )
+  )
+`
+
+// Users who belong to the organization, with all their roles and groups
+async function fetchUsers(supabase: SupabaseClient, organizationId: string): Promise<UserRow[]> {
+  const { data, error } = await supabase
+    .from('users')
+    .select(`
+      id,
+      email,
+      full_name,
+      is_active,
+      needs_password_reset,
+      created_at,
+      user_roles(
+        valid_from,
+        valid_until,
+        roles(${ROLE_COLUMNS})
+      ),
+      group_members(
+        groups(
+          name,
+          organization_id,
+          group_roles(
+            roles(${ROLE_COLUMNS})
+          )
+        )
+      ),
+      org_filter:organization_members!inner(organization_id)
+    `)
+    .eq('org_filter.organization_id', organizationId)
+    .is('deleted_at', null)
+    .order('email')
+
+  if (error) throw error
+  return (data || []) as unknown as UserRow[]
+}
+
+// Global roles and those of the organization
+async function fetchRoles(supabase: SupabaseClient, organizationId: string): Promise<RoleRow[]> {
+  const { data, error } = await supabase
+    .from('roles')
+    .select(ROLE_COLUMNS)
+    .or(`organization_id.is.null,organization_id.eq.${organizationId}`)
+    .order('name')
+
+  if (error) throw error
+  return (data || []) as unknown as RoleRow[]
+}
+
+// Number of the organization's members holding each role directly within its validity window, keyed by role id
+async function countRoleAssignments(supabase: SupabaseClient, organizationId: string): Promise<Map<string, number>> {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('role_id, valid_from, valid_until, users!inner(organization_members!inner(organization_id))')
+    .eq('users.organization_members.organization_id', organizationId)
+
+  if (error) throw error
+  const counts = new Map<string, number>()
+  for (const assignment of (data || []).filter(ur => isRoleAssignmentActive(ur))) {
+    counts.set(assignment.role_id, (counts.get(assignment.role_id) || 0) + 1)
+  }
+  return counts
+}
+
+type PermissionPair = { resource: string; action: string }
+
+type GrantedPair = PermissionPair & { conditions: Condition | null }
+
+const rolePermissions = (role: RoleRow): GrantedPair[] =>
+  (role.role_permissions || [])
+    .filter(rp => rp.permissions)
+    .map(rp => ({ ...rp.permissions!, conditions: rp.conditions }))
+
+// Conditional grants carry their condition, as in the role audit snapshot
+const grantKey = (granted: GrantedPair) =>
+  `${permissionKey(granted)}${granted.conditions ? ` when ${JSON.stringify(granted.conditions)}` : ''}`
+
+const rolePermissionKeys = (role: RoleRow) => rolePermissions(role).map(grantKey)
+
+// Permissions of each role including those inherited from its ancestors, keyed by role id
+function lineagePermissions(roles: RoleRow[]): Map<string, GrantedPair[]> {
+  const parents = new Map(roles.map(role => [role.id, role.parent_role_id]))
+  const rolesById = new Map(roles.map(role => [role.id, role]))
+  return new Map(roles.map(role => [
+    role.id,
+    getRoleLineage(role.id, parents).flatMap(id => rolePermissions(rolesById.get(id)!))
+  ]))
+}
+
+// Roles assigned directly within their validity window that apply in the organization
+const directRoles = (user: UserRow, organizationId: string): RoleRow[] =>
+  (user.user_roles || [])
+    .filter(ur => isRoleAssignmentActive(ur))
+    .map(ur => ur.roles)
+    .filter((role): role is RoleRow => !!role && isRoleInOrganization(role, organizationId))
+
+// The user's groups in the organization
+const userGroups = (user: UserRow, organizationId: string) =>
+  (user.group_members || [])
+    .map(gm => gm.groups)
+    .filter((group): group is NonNullable<typeof group> => !!group && group.organization_id === organizationId)
+
+// Roles a user holds in the organization, directly and through its groups, as getEffectivePermissions resolves them
+function userRoles(user: UserRow, organizationId: string): RoleRow[] {
+  const viaGroups = userGroups(user, organizationId).flatMap(group => group.group_roles.map(gr => gr.roles))
+  return [...directRoles(user, organizationId), ...viaGroups]
+    .filter((role, index, array): role is RoleRow =>
+      !!role && isRoleInOrganization(role, organizationId) && array.findIndex(r => r?.id === role.id) === index
+    )
+}
+
+// Effective permissions per user, matched like hasPermission: admin holds everything, wildcards
+// apply, group roles count, and assignments outside their validity window and roles and groups
+// of other organizations are left out.
+// Permissions held only under conditions are listed separately, since they apply to some records only
+async function buildAccessMatrix(supabase: SupabaseClient, organizationId: string) {
+  const [users, roles, { data: permissionsData, error: permissionsError }] = await Promise.all([
+    fetchUsers(supabase, organizationId),
+    fetchRoles(supabase, organizationId),
+    supabase.from('permissions').select('resource, action').order('resource').order('action')
+  ])
+
+  if (permissionsError) throw permissionsError
+  const allPermissions: PermissionPair[] = permissionsData || []
+  const permissions = allPermissions.map(permissionKey)
+  const grantedByRole = lineagePermissions(roles)
+
+  const rows = users.map(user => {
+    const roles = userRoles(user, organizationId)
+    const isAdmin = roles.some(role => role.name === 'admin')
+    const granted = roles.flatMap(role => grantedByRole.get(role.id) || [])
+    const grants = (permission: PermissionPair, conditional: boolean) =>
+      granted.some(g => !!g.conditions === conditional && permissionMatches(g, permission.resource, permission.action))
+    const unconditional = allPermissions.filter(permission => isAdmin || grants(permission, false))
+    return {
+      id: user.id,
+      email: user.email,
+      full_name: user.full_name,
+      roles: roles.map(role => role.name).sort(),
+      permissions: unconditional.map(permissionKey),
+      conditional_permissions: allPermissions
+        .filter(permission => !unconditional.includes(permission) && grants(permission, true))
+        .map(permissionKey)
+    }
+  })
+
+  return { permissions, users: rows }
+}
+
+async function buildExport(
+  supabase: SupabaseClient,
+  dataset: string,
+  organizationId: string
+): Promise<{ json: unknown; header: string[]; rows: Cell[][] } | null> {
+  if (dataset === 'users') {
+    const users = (await fetchUsers(supabase, organizationId)).map(user => ({
+      id: user.id,
+      email: user.email,
+      full_name: user.full_name,
+      is_active: user.is_active,
+      needs_password_reset: user.needs_password_reset,
+      created_at: user.created_at,
+      // Only assignments within their validity window and roles and groups of the organization, like the access matrix
+      roles: directRoles(user, organizationId).map(role => role.name).sort(),
+      groups: userGroups(user, organizationId).map(group => group.name).sort()
+    }))
+    return {
+      json: { users },
+      header: ['id', 'email', 'full_name', 'is_active', 'needs_password_reset', 'created_at', 'roles', 'groups'],
+      rows: users.map(u => [u.id, u.email, u.full_name, u.is_active, u.needs_password_reset, u.created_at, u.roles.join('; '), u.groups.join('; ')])
+    }
+  }
+
+  if (dataset === 'roles') {
+    const [roleRows, assignmentCounts] = await Promise.all([
+      fetchRoles(supabase, organizationId),
+      countRoleAssignments(supabase, organizationId)
+    ])
+    const roleNames = new Map(roleRows.map(role => [role.id, role.name]))
+    const grantedByRole = lineagePermissions(roleRows)
+    const roles = roleRows.map(role => {
+      const permissions = rolePermissionKeys(role).sort()
+      return {
+        id: role.id,
+        name: role.name,
+        description: role.description,
+        mfa_required: role.mfa_required,
+        parent_role: role.parent_role_id ? roleNames.get(role.parent_role_id) || null : null,
+        user_count: assignmentCounts.get(role.id) || 0,
+        permissions,
+        inherited_permissions: [...new Set((grantedByRole.get(role.id) || []).map(grantKey))]
+          .filter(key => !permissions.includes(key))
+          .sort()
+      }
+    })
+    return {
+      json: { roles },
+      header: ['id', 'name', 'description', 'mfa_required', 'parent_role', 'user_count', 'permissions', 'inherited_permissions'],
+      rows: roles.map(r => [
+        r.id, r.name, r.description, r.mfa_required, r.parent_role, r.user_count, r.permissions.join('; '), r.inherited_permissions.join('; ')
+      ])
+    }
+  }
+
+  if (dataset === 'access-matrix') {
+    const matrix = await buildAccessMatrix(supabase, organizationId)
+    return {
+      json: matrix,
+      header: ['id', 'email', 'full_name', 'roles', ...matrix.permissions],
+      rows: matrix.users.map(u => [
+        u.id,
+        u.email,
+        u.full_name,
+        u.roles.join('; '),
+        // C marks a permission held only under conditions
+        ...matrix.permissions.map(key => (u.permissions.includes(key) ? 'Y' : u.conditional_permissions.includes(key) ? 'C' : ''))
+      ])
+    }
+  }
+
+  return null
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Authenticate the caller and check permissions for the request method
+    const authorization = await authorizeRequest(supabase, req, {
+      GET: [{ resource: 'reports', action: 'export' }]
+    })
+
+    if ('error' in authorization) {
+      return new Response(
+        JSON.stringify({ error: authorization.error }),
+        { status: authorization.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { organizationId } = authorization.caller.access
+
+    // Exports cover the members and roles of the caller's selected organization
+    if (!organizationId) {
+      return new Response(
+        JSON.stringify({ error: 'Select an organization first' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const url = new URL(req.url)
+    const dataset = url.pathname.split('/').pop() || ''
+    const format = url.searchParams.get('format') === 'json' ? 'json' : 'csv'
+
+    const exported = await buildExport(supabase, dataset, organizationId)
+
+    if (!exported) {
+      return new Response(
+        JSON.stringify({ error: 'Unknown export; use users, roles or access-matrix' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const filename = `${dataset}-${new Date().toISOString().slice(0, 10)}.${format}`
+    const body = format === 'json'
+      ? JSON.stringify(exported.json, null, 2)
+      : toCsv(exported.header, exported.rows)
+
+    return new Response(body, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': format === 'json' ? 'application/json' : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    })
+
+  } catch (error) {
+    console.error('Error in admin-export function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,278 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { authorizeRequest, includesGlobalRole, isRoleInOrganization } from '../_shared/authorization.ts'
+import { recordAuditEvent, diffSnapshots } from '../_shared/audit.ts'
+import { getGroup, groupSnapshot, listGroups, type Group } from '../_shared/groups.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+}
+
+interface GroupData {
+  name: string
+  description?: string
+  role_ids?: string[]
+  member_ids?: string[]
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string')
+
+/**
+ * Returns an error message unless every role is global or belongs to the
+ * organization and every member belongs to it. Only admins may add global
+ * roles to a group or take them away (`currentRoleIds` are the group's roles
+ * before the change), as every member holds the group's roles.
+ */
+async function validateGroupData(
+  supabase: SupabaseClient,
+  organizationId: string,
+  roleIds: string[],
+  memberIds: string[],
+  canAssignGlobalRoles: boolean,
+  currentRoleIds: string[]
+): Promise<string | null> {
+  if (roleIds.length > 0) {
+    const { data: roles, error } = await supabase.from('roles').select('id, organization_id').in('id', roleIds)
+    if (error) throw error
+    const valid = (roles || []).filter(role => isRoleInOrganization(role, organizationId))
+    if (valid.length !== new Set(roleIds).size) return 'Roles must be global or belong to your organization'
+  }
+
+  const changedRoleIds = [
+    ...roleIds.filter(id => !currentRoleIds.includes(id)),
+    ...currentRoleIds.filter(id => !roleIds.includes(id))
+  ]
+  if (!canAssignGlobalRoles && await includesGlobalRole(supabase, changedRoleIds)) {
+    return 'Only admins can assign global roles'
+  }
+
+  if (memberIds.length > 0) {
+    const { data: members, error } = await supabase
+      .from('organization_members')
+      .select('user_id')
+      .eq('organization_id', organizationId)
+      .in('user_id', memberIds)
+    if (error) throw error
+    if ((members || []).length !== new Set(memberIds).size) return 'Members must belong to your organization'
+  }
+
+  return null
+}
+
+// Replace the group's roles and members with the given ones
+async function replaceGroupLinks(supabase: SupabaseClient, groupId: string, roleIds: string[], memberIds: string[]) {
+  const { error: deleteRolesError } = await supabase.from('group_roles').delete().eq('group_id', groupId)
+  if (deleteRolesError) throw deleteRolesError
+  const { error: deleteMembersError } = await supabase.from('group_members').delete().eq('group_id', groupId)
+  if (deleteMembersError) throw deleteMembersError
+
+  if (roleIds.length > 0) {
+    const { error } = await supabase
+      .from('group_roles')
+      .insert([...new Set(roleIds)].map(role_id => ({ group_id: groupId, role_id })))
+    if (error) throw error
+  }
+  if (memberIds.length > 0) {
+    const { error } = await supabase
+      .from('group_members')
+      .insert([...new Set(memberIds)].map(user_id => ({ group_id: groupId, user_id })))
+    if (error) throw error
+  }
+}
+
+// Members before and after the change reload their profile, as their roles may have changed
+async function notifyGroupMembers(supabase: SupabaseClient, before: Group | null, after: Group | null) {
+  const memberIds = new Set([...(before?.members || []), ...(after?.members || [])].map(member => member.id))
+  for (const userId of memberIds) {
+    const { error } = await supabase.rpc('notify_user_session', {
+      p_user_id: userId,
+      p_action: 'refresh',
+      p_reason: 'group_changed'
+    })
+    if (error) console.error('Failed to notify user session:', error)
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Authenticate the caller and check permissions for the request method
+    const authorization = await authorizeRequest(supabase, req, {
+      // The user editor lists groups for membership
+      GET: [
+        { resource: 'groups', action: 'read' },
+        { resource: 'groups', action: 'manage' },
+        { resource: 'users', action: 'manage' }
+      ],
+      POST: [{ resource: 'groups', action: 'manage' }],
+      PUT: [{ resource: 'groups', action: 'manage' }],
+      DELETE: [{ resource: 'groups', action: 'manage' }]
+    })
+
+    if ('error' in authorization) {
+      return new Response(
+        JSON.stringify({ error: authorization.error }),
+        { status: authorization.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { user, access } = authorization.caller
+    const { organizationId } = access
+
+    // Groups exist within an organization
+    if (!organizationId) {
+      return new Response(
+        JSON.stringify({ error: 'Select an organization first' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const url = new URL(req.url)
+    const method = req.method
+
+    // GET groups
+    if (method === 'GET' && url.pathname.endsWith('/admin-groups')) {
+      return new Response(
+        JSON.stringify({ groups: await listGroups(supabase, organizationId) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const groupId = url.pathname.endsWith('/admin-groups') ? null : url.pathname.split('/').pop()!
+    const before = groupId ? await getGroup(supabase, organizationId, groupId) : null
+
+    if (groupId && !before) {
+      return new Response(
+        JSON.stringify({ error: 'Group not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // POST create group, PUT update group; roles and members are replaced by the lists sent
+    if ((method === 'POST' && !groupId) || (method === 'PUT' && groupId)) {
+      const body: GroupData = await req.json()
+      const { name, description, role_ids = [], member_ids = [] } = body
+
+      if (!name || typeof name !== 'string' || !name.trim()) {
+        return new Response(
+          JSON.stringify({ error: 'Group name is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      if (!isStringArray(role_ids) || !isStringArray(member_ids)) {
+        return new Response(
+          JSON.stringify({ error: 'role_ids and member_ids must be lists of ids' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const validationError = await validateGroupData(
+        supabase,
+        organizationId,
+        role_ids,
+        member_ids,
+        access.roleNames.includes('admin'),
+        before?.roles.map(role => role.id) || []
+      )
+      if (validationError) {
+        return new Response(
+          JSON.stringify({ error: validationError }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const fields = { name: name.trim(), description: description || null }
+      const { data: saved, error: saveError } = groupId
+        ? await supabase.from('groups').update(fields).eq('id', groupId).select('id').single()
+        : await supabase.from('groups').insert({ ...fields, organization_id: organizationId }).select('id').single()
+
+      if (saveError?.code === '23505') {
+        return new Response(
+          JSON.stringify({ error: 'A group with this name already exists' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      if (saveError) throw saveError
+
+      try {
+        await replaceGroupLinks(supabase, saved.id, role_ids, member_ids)
+      } catch (error) {
+        // Rollback: delete the created group
+        if (!groupId) await supabase.from('groups').delete().eq('id', saved.id)
+        throw error
+      }
+
+      const group = (await getGroup(supabase, organizationId, saved.id))!
+
+      await recordAuditEvent(supabase, req, {
+        actor: user,
+        action: groupId ? 'group.update' : 'group.create',
+        targetType: 'group',
+        targetId: group.id,
+        organizationId,
+        before: before && groupSnapshot(before),
+        after: groupSnapshot(group)
+      })
+
+      if (!before || Object.keys(diffSnapshots(groupSnapshot(before), groupSnapshot(group))).length > 0) {
+        await notifyGroupMembers(supabase, before, group)
+      }
+
+      return new Response(
+        JSON.stringify({ group }),
+        { status: groupId ? 200 : 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // DELETE group; members keep the roles assigned to them directly
+    if (method === 'DELETE' && before) {
+      if (!access.roleNames.includes('admin') && await includesGlobalRole(supabase, before.roles.map(role => role.id))) {
+        return new Response(
+          JSON.stringify({ error: 'Only admins can delete groups with global roles' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { error } = await supabase.from('groups').delete().eq('id', before.id)
+      if (error) throw error
+
+      await recordAuditEvent(supabase, req, {
+        actor: user,
+        action: 'group.delete',
+        targetType: 'group',
+        targetId: before.id,
+        organizationId,
+        before: groupSnapshot(before)
+      })
+
+      await notifyGroupMembers(supabase, before, null)
+
+      return new Response(
+        JSON.stringify({ message: 'Group deleted successfully' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in admin-groups function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
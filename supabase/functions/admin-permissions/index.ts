@@ -1,4 +1,6 @@
 import { createClient } from 'npm:@supabase/supabase-js@2'
+import { authorizeRequest, isValidPermissionPattern } from '../_shared/authorization.ts'
+import { recordAuditEvent } from '../_shared/audit.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -37,41 +39,39 @@ Deno.serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-    // Authenticate the request
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader) {
+    // Authenticate the caller and check permissions for the request method
+    const authorization = await authorizeRequest(supabase, req, {
+      // The role editor lists permissions for assignment
+      GET: [
+        { resource: 'permissions', action: 'read' },
+        { resource: 'permissions', action: 'manage' },
+        { resource: 'roles', action: 'manage' }
+      ],
+      POST: [{ resource: 'permissions', action: 'manage' }],
+      PUT: [{ resource: 'permissions', action: 'manage' }],
+      DELETE: [{ resource: 'permissions', action: 'manage' }]
+    })
+
+    if ('error' in authorization) {
       return new Response(
-        JSON.stringify({ error: 'Missing authorization header' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: authorization.error }),
+        { status: authorization.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    const token = authHeader.replace('Bearer ', '')
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
-    
-    if (authError || !user) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid authorization token' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+    const { user, access } = authorization.caller
 
-    // Check if user is admin
-    const { data: userData, error: userError } = await supabase
-      .from('user_roles')
-      .select('roles(name)')
-      .eq('user_id', user.id)
+    const url = new URL(req.url)
+    const method = req.method
 
-    if (userError || !userData || !userData.some(ur => ur.roles?.name === 'admin')) {
+    // The catalog is shared by every organization's roles, so only admins change it, like global roles
+    if (method !== 'GET' && !access.roleNames.includes('admin')) {
       return new Response(
-        JSON.stringify({ error: 'Insufficient permissions' }),
+        JSON.stringify({ error: 'Only admins can change permissions' }),
         { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    const url = new URL(req.url)
-    const method = req.method
-
     // GET permissions
     if (method === 'GET' && url.pathname.endsWith('/admin-permissions')) {
       const { data: permissionsData, error: permissionsError } = await supabase
@@ -105,6 +105,13 @@ Deno.serve(async (req) => {
         )
       }
 
+      if (!isValidPermissionPattern(resource, action)) {
+        return new Response(
+          JSON.stringify({ error: 'Resource must be * or dot-separated names (e.g. reports.finance), and action must be * or a single name' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
       // Check if permission already exists
       const { data: existingPermission, error: checkError } = await supabase
         .from('permissions')
@@ -145,6 +152,15 @@ Deno.serve(async (req) => {
         )
       }
 
+      await recordAuditEvent(supabase, req, {
+        actor: user,
+        action: 'permission.create',
+        targetType: 'permission',
+        targetId: newPermission.id,
+        organizationId: null,
+        after: { resource, action, description: newPermission.description }
+      })
+
       return new Response(
         JSON.stringify({ permission: newPermission }),
         { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -164,6 +180,13 @@ Deno.serve(async (req) => {
         )
       }
 
+      if (!isValidPermissionPattern(resource, action)) {
+        return new Response(
+          JSON.stringify({ error: 'Resource must be * or dot-separated names (e.g. reports.finance), and action must be * or a single name' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
       // Check if another permission with same resource/action exists
       const { data: existingPermission, error: checkError } = await supabase
         .from('permissions')
@@ -187,6 +210,12 @@ Deno.serve(async (req) => {
         )
       }
 
+      const { data: previousPermission } = await supabase
+        .from('permissions')
+        .select('resource, action, description')
+        .eq('id', permissionId)
+        .maybeSingle()
+
       // Update the permission
       const { data: updatedPermission, error: updateError } = await supabase
         .from('permissions')
@@ -206,6 +235,20 @@ Deno.serve(async (req) => {
         )
       }
 
+      await recordAuditEvent(supabase, req, {
+        actor: user,
+        action: 'permission.update',
+        targetType: 'permission',
+        targetId: permissionId!,
+        organizationId: null,
+        before: previousPermission,
+        after: {
+          resource: updatedPermission.resource,
+          action: updatedPermission.action,
+          description: updatedPermission.description
+        }
+      })
+
       return new Response(
         JSON.stringify({ permission: updatedPermission }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -237,6 +280,12 @@ Deno.serve(async (req) => {
         )
       }
 
+      const { data: previousPermission } = await supabase
+        .from('permissions')
+        .select('resource, action, description')
+        .eq('id', permissionId)
+        .maybeSingle()
+
       // Delete the permission
       const { error: deleteError } = await supabase
         .from('permissions')
@@ -250,6 +299,15 @@ Deno.serve(async (req) => {
         )
       }
 
+      await recordAuditEvent(supabase, req, {
+        actor: user,
+        action: 'permission.delete',
+        targetType: 'permission',
+        targetId: permissionId!,
+        organizationId: null,
+        before: previousPermission
+      })
+
       return new Response(
         JSON.stringify({ message: 'Permission deleted successfully' }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
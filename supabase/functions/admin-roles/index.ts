@@ -1,4 +1,8 @@
-import { createClient } from 'npm:@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { authorizeRequest, isRoleInOrganization, type CallerAccess } from '../_shared/authorization.ts'
+import { recordAuditEvent, type AuditSnapshot } from '../_shared/audit.ts'
+import { createsRoleCycle, getRoleLineage, getRoleParents, type RolePermission } from '../_shared/roleHierarchy.ts'
+import { validateCondition, type Condition } from '../_shared/conditions.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,25 +14,189 @@ interface Role {
   id: string
   name: string
   description: string | null
+  mfa_required: boolean
+  parent_role_id: string | null
+  // Null for global roles, which apply in every organization
+  organization_id: string | null
   created_at: string
-  permissions?: Array<{
-    id: string
-    resource: string
-    action: string
-    description: string | null
-  }>
+  permissions: RolePermission[]
+  // Permissions reached through ancestors that the role does not hold directly
+  inherited_permissions: Array<RolePermission & { inherited_from: string }>
 }
 
 interface CreateRoleData {
   name: string
   description?: string
+  mfa_required?: boolean
+  parent_role_id?: string | null
   permission_ids?: string[]
+  // Conditions keyed by permission id; permissions without an entry are unconditional
+  permission_conditions?: Record<string, Condition>
 }
 
 interface UpdateRoleData {
   name: string
   description?: string
+  mfa_required?: boolean
+  parent_role_id?: string | null
   permission_ids?: string[]
+  // Conditions keyed by permission id; permissions without an entry are unconditional
+  permission_conditions?: Record<string, Condition>
+}
+
+// Global roles and those of the organization, with direct permissions and those inherited from ancestors
+async function listRoles(supabase: SupabaseClient, organizationId: string): Promise<Role[]> {
+  const { data, error } = await supabase
+    .from('roles')
+    .select(`
+      id,
+      name,
+      description,
+      mfa_required,
+      parent_role_id,
+      organization_id,
+      created_at,
+      role_permissions(
+        conditions,
+        permissions(
+          id,
+          resource,
+          action,
+          description
+        )
+      )
+    `)
+    .or(`organization_id.is.null,organization_id.eq.${organizationId}`)
+    .order('name')
+
+  if (error) throw error
+
+  const rows = data || []
+  const parents = new Map(rows.map(role => [role.id, role.parent_role_id]))
+  const rolesById = new Map(rows.map(({ role_permissions, ...role }) => [
+    role.id,
+    {
+      ...role,
+      permissions: (role_permissions || [])
+        .filter(rp => rp.permissions)
+        .map(rp => ({ ...rp.permissions, conditions: rp.conditions ?? null })) as unknown as RolePermission[]
+    }
+  ]))
+
+  return [...rolesById.values()].map(role => {
+    const inherited: Role['inherited_permissions'] = []
+    for (const ancestorId of getRoleLineage(role.id, parents).slice(1)) {
+      const ancestor = rolesById.get(ancestorId)
+      for (const permission of ancestor?.permissions || []) {
+        // An unconditional copy covers any conditional one; otherwise each distinct condition is listed
+        const held = [...role.permissions, ...inherited].some(p =>
+          p.id === permission.id &&
+          (p.conditions === null || JSON.stringify(p.conditions) === JSON.stringify(permission.conditions))
+        )
+        if (!held) inherited.push({ ...permission, inherited_from: ancestor!.name })
+      }
+    }
+    return { ...role, inherited_permissions: inherited }
+  })
+}
+
+async function getRole(supabase: SupabaseClient, roleId: string, organizationId: string): Promise<Role | null> {
+  return (await listRoles(supabase, organizationId)).find(role => role.id === roleId) || null
+}
+
+/**
+ * Returns an error message when the caller may not change the role: roles of
+ * other organizations are not found, and global roles are reserved to admins.
+ */
+async function checkRoleAccess(
+  supabase: SupabaseClient,
+  access: CallerAccess,
+  roleId: string
+): Promise<{ status: number; error: string } | { organizationId: string | null }> {
+  const { data, error } = await supabase.from('roles').select('organization_id').eq('id', roleId).maybeSingle()
+  if (error) throw error
+  if (!data || !isRoleInOrganization(data, access.organizationId)) return { status: 404, error: 'Role not found' }
+  if (data.organization_id === null && !access.roleNames.includes('admin')) {
+    return { status: 403, error: 'Only admins can change global roles' }
+  }
+  return { organizationId: data.organization_id }
+}
+
+/**
+ * Returns an error message when `parentId` cannot become the parent of `roleId`
+ * (null for a new role). The parent must be global or share the role's
+ * organization, so a global role never inherits one organization's permissions.
+ */
+async function validateParentRole(
+  supabase: SupabaseClient,
+  roleId: string | null,
+  parentId: string,
+  roleOrganizationId: string | null
+): Promise<string | null> {
+  const { data: parent, error } = await supabase.from('roles').select('organization_id').eq('id', parentId).maybeSingle()
+  if (error) throw error
+  if (!parent || !isRoleInOrganization(parent, roleOrganizationId)) return 'Parent role not found'
+  const parents = await getRoleParents(supabase)
+  if (roleId && createsRoleCycle(roleId, parentId, parents)) {
+    return 'A role cannot inherit from itself or a role that inherits from it'
+  }
+  return null
+}
+
+/**
+ * Validate the conditions sent alongside permission_ids. Each key must be one
+ * of permission_ids and each value a condition accepted by validateCondition.
+ */
+function parsePermissionConditions(value: unknown, permissionIds: string[]): { conditions: Record<string, Condition> } | { error: string } {
+  if (value === undefined || value === null) return { conditions: {} }
+  if (typeof value !== 'object' || Array.isArray(value)) return { error: 'permission_conditions must be an object' }
+
+  for (const [permissionId, condition] of Object.entries(value)) {
+    if (!permissionIds.includes(permissionId)) {
+      return { error: 'permission_conditions may only list permissions in permission_ids' }
+    }
+    const error = validateCondition(condition)
+    if (error) return { error: `Invalid condition: ${error}` }
+  }
+
+  return { conditions: value as Record<string, Condition> }
+}
+
+// Build an audit snapshot of a role and its permissions
+async function getRoleSnapshot(supabase: SupabaseClient, roleId: string): Promise<AuditSnapshot | null> {
+  const { data, error } = await supabase
+    .from('roles')
+    .select(`
+      name,
+      description,
+      mfa_required,
+      parent_role_id,
+      organization_id,
+      role_permissions(
+        conditions,
+        permissions(
+          resource,
+          action
+        )
+      )
+    `)
+    .eq('id', roleId)
+    .maybeSingle()
+
+  if (error || !data) return null
+
+  return {
+    name: data.name,
+    description: data.description,
+    mfa_required: data.mfa_required,
+    parent_role_id: data.parent_role_id,
+    organization_id: data.organization_id,
+    permissions: (data.role_permissions || [])
+      .map(rp => rp.permissions &&
+        `${rp.permissions.resource}:${rp.permissions.action}${rp.conditions ? ` when ${JSON.stringify(rp.conditions)}` : ''}`)
+      .filter(Boolean)
+      .sort()
+  }
 }
 
 Deno.serve(async (req) => {
@@ -42,34 +210,33 @@ Deno.serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-    // Authenticate the request
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader) {
+    // Authenticate the caller and check permissions for the request method
+    const authorization = await authorizeRequest(supabase, req, {
+      // The user editor lists roles for assignment
+      GET: [
+        { resource: 'roles', action: 'read' },
+        { resource: 'roles', action: 'manage' },
+        { resource: 'users', action: 'manage' }
+      ],
+      POST: [{ resource: 'roles', action: 'manage' }],
+      PUT: [{ resource: 'roles', action: 'manage' }],
+      DELETE: [{ resource: 'roles', action: 'manage' }]
+    })
+
+    if ('error' in authorization) {
       return new Response(
-        JSON.stringify({ error: 'Missing authorization header' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: authorization.error }),
+        { status: authorization.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    const token = authHeader.replace('Bearer ', '')
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
-    
-    if (authError || !user) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid authorization token' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    // Check if user is admin
-    const { data: userData, error: userError } = await supabase
-      .from('user_roles')
-      .select('roles(name)')
-      .eq('user_id', user.id)
+    const { user, access } = authorization.caller
+    const { organizationId } = access
 
-    if (userError || !userData || !userData.some(ur => ur.roles?.name === 'admin')) {
+    // Roles are listed and created within the caller's selected organization
+    if (!organizationId) {
       return new Response(
-        JSON.stringify({ error: 'Insufficient permissions' }),
+        JSON.stringify({ error: 'Select an organization first' }),
         { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
@@ -79,39 +246,8 @@ Deno.serve(async (req) => {
 
     // GET roles
     if (method === 'GET' && url.pathname.endsWith('/admin-roles')) {
-      const { data: rolesData, error: rolesError } = await supabase
-        .from('roles')
-        .select(`
-          id,
-          name,
-          description,
-          created_at,
-          role_permissions(
-            permissions(
-              id,
-              resource,
-              action,
-              description
-            )
-          )
-        `)
-        .order('name')
-
-      if (rolesError) {
-        return new Response(
-          JSON.stringify({ error: rolesError.message }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
-      }
-
-      // Transform data to include permissions array
-      const roles = rolesData?.map(role => ({
-        ...role,
-        permissions: role.role_permissions?.map(rp => rp.permissions).filter(Boolean) || []
-      })) || []
-
       return new Response(
-        JSON.stringify({ roles }),
+        JSON.stringify({ roles: await listRoles(supabase, organizationId) }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
@@ -119,7 +255,7 @@ Deno.serve(async (req) => {
     // POST create role
     if (method === 'POST' && url.pathname.endsWith('/admin-roles')) {
       const body: CreateRoleData = await req.json()
-      const { name, description, permission_ids = [] } = body
+      const { name, description, mfa_required = false, parent_role_id = null, permission_ids = [] } = body
 
       if (!name || typeof name !== 'string') {
         return new Response(
@@ -128,12 +264,31 @@ Deno.serve(async (req) => {
         )
       }
 
+      const parsedConditions = parsePermissionConditions(body.permission_conditions, permission_ids)
+      if ('error' in parsedConditions) {
+        return new Response(
+          JSON.stringify({ error: parsedConditions.error }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const parentError = parent_role_id && await validateParentRole(supabase, null, parent_role_id, organizationId)
+      if (parentError) {
+        return new Response(
+          JSON.stringify({ error: parentError }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
       // Create the role
       const { data: newRole, error: roleError } = await supabase
         .from('roles')
         .insert({
           name,
-          description: description || null
+          description: description || null,
+          mfa_required: Boolean(mfa_required),
+          parent_role_id,
+          organization_id: organizationId
         })
         .select('*')
         .single()
@@ -149,7 +304,8 @@ Deno.serve(async (req) => {
       if (permission_ids.length > 0) {
         const rolePermissionInserts = permission_ids.map(permission_id => ({
           role_id: newRole.id,
-          permission_id
+          permission_id,
+          conditions: parsedConditions.conditions[permission_id] ?? null
         }))
 
         const { error: permissionError } = await supabase
@@ -166,37 +322,17 @@ Deno.serve(async (req) => {
         }
       }
 
-      // Fetch the created role with permissions
-      const { data: roleWithPermissions, error: fetchError } = await supabase
-        .from('roles')
-        .select(`
-          id,
-          name,
-          description,
-          created_at,
-          role_permissions(
-            permissions(
-              id,
-              resource,
-              action,
-              description
-            )
-          )
-        `)
-        .eq('id', newRole.id)
-        .single()
+      // Fetch the created role with direct and inherited permissions
+      const roleResponse = await getRole(supabase, newRole.id, organizationId)
 
-      if (fetchError) {
-        return new Response(
-          JSON.stringify({ error: fetchError.message }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
-      }
-
-      const roleResponse = {
-        ...roleWithPermissions,
-        permissions: roleWithPermissions.role_permissions?.map(rp => rp.permissions).filter(Boolean) || []
-      }
+      await recordAuditEvent(supabase, req, {
+        actor: user,
+        action: 'role.create',
+        targetType: 'role',
+        targetId: newRole.id,
+        organizationId,
+        after: await getRoleSnapshot(supabase, newRole.id)
+      })
 
       return new Response(
         JSON.stringify({ role: roleResponse }),
@@ -208,7 +344,7 @@ Deno.serve(async (req) => {
     if (method === 'PUT') {
       const roleId = url.pathname.split('/').pop()
       const body: UpdateRoleData = await req.json()
-      const { name, description, permission_ids = [] } = body
+      const { name, description, mfa_required = false, parent_role_id = null, permission_ids = [] } = body
 
       if (!name || typeof name !== 'string') {
         return new Response(
@@ -217,12 +353,40 @@ Deno.serve(async (req) => {
         )
       }
 
+      const parsedConditions = parsePermissionConditions(body.permission_conditions, permission_ids)
+      if ('error' in parsedConditions) {
+        return new Response(
+          JSON.stringify({ error: parsedConditions.error }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const roleAccess = await checkRoleAccess(supabase, access, roleId!)
+      if ('error' in roleAccess) {
+        return new Response(
+          JSON.stringify({ error: roleAccess.error }),
+          { status: roleAccess.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const parentError = parent_role_id && await validateParentRole(supabase, roleId!, parent_role_id, roleAccess.organizationId)
+      if (parentError) {
+        return new Response(
+          JSON.stringify({ error: parentError }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const beforeSnapshot = await getRoleSnapshot(supabase, roleId!)
+
       // Update the role
       const { data: updatedRole, error: roleError } = await supabase
         .from('roles')
         .update({
           name,
-          description: description || null
+          description: description || null,
+          mfa_required: Boolean(mfa_required),
+          parent_role_id
         })
         .eq('id', roleId)
         .select('*')
@@ -252,7 +416,8 @@ Deno.serve(async (req) => {
       if (permission_ids.length > 0) {
         const rolePermissionInserts = permission_ids.map(permission_id => ({
           role_id: roleId,
-          permission_id
+          permission_id,
+          conditions: parsedConditions.conditions[permission_id] ?? null
         }))
 
         const { error: insertPermissionsError } = await supabase
@@ -267,37 +432,18 @@ Deno.serve(async (req) => {
         }
       }
 
-      // Fetch the updated role with permissions
-      const { data: roleWithPermissions, error: fetchError } = await supabase
-        .from('roles')
-        .select(`
-          id,
-          name,
-          description,
-          created_at,
-          role_permissions(
-            permissions(
-              id,
-              resource,
-              action,
-              description
-            )
-          )
-        `)
-        .eq('id', roleId)
-        .single()
+      // Fetch the updated role with direct and inherited permissions
+      const roleResponse = await getRole(supabase, roleId!, organizationId)
 
-      if (fetchError) {
-        return new Response(
-          JSON.stringify({ error: fetchError.message }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
-      }
-
-      const roleResponse = {
-        ...roleWithPermissions,
-        permissions: roleWithPermissions.role_permissions?.map(rp => rp.permissions).filter(Boolean) || []
-      }
+      await recordAuditEvent(supabase, req, {
+        actor: user,
+        action: 'role.update',
+        targetType: 'role',
+        targetId: roleId!,
+        organizationId: roleAccess.organizationId,
+        before: beforeSnapshot,
+        after: await getRoleSnapshot(supabase, roleId!)
+      })
 
       return new Response(
         JSON.stringify({ role: roleResponse }),
@@ -308,7 +454,15 @@ Deno.serve(async (req) => {
     // DELETE role
     if (method === 'DELETE') {
       const roleId = url.pathname.split('/').pop()
-      
+
+      const roleAccess = await checkRoleAccess(supabase, access, roleId!)
+      if ('error' in roleAccess) {
+        return new Response(
+          JSON.stringify({ error: roleAccess.error }),
+          { status: roleAccess.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
       // Check if role is being used by any users
       const { data: usersWithRole, error: checkError } = await supabase
         .from('user_roles')
@@ -330,6 +484,17 @@ Deno.serve(async (req) => {
         )
       }
 
+      // Removing a parent would silently strip its permissions from the roles that inherit them
+      const parents = await getRoleParents(supabase)
+      if ([...parents.values()].includes(roleId!)) {
+        return new Response(
+          JSON.stringify({ error: 'Cannot delete role that other roles inherit from' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const beforeSnapshot = await getRoleSnapshot(supabase, roleId!)
+
       // Delete the role (role_permissions will be cascade deleted)
       const { error: deleteError } = await supabase
         .from('roles')
@@ -343,6 +508,15 @@ Deno.serve(async (req) => {
         )
       }
 
+      await recordAuditEvent(supabase, req, {
+        actor: user,
+        action: 'role.delete',
+        targetType: 'role',
+        targetId: roleId!,
+        organizationId: roleAccess.organizationId,
+        before: beforeSnapshot
+      })
+
       return new Response(
         JSON.stringify({ message: 'Role deleted successfully' }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -0,0 +1,277 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { authorizeRequest } from '../_shared/authorization.ts'
+import { recordAuditEvent } from '../_shared/audit.ts'
+import { getPasswordPolicy, PASSWORD_POLICY_COLUMNS, type PasswordPolicy } from '../_shared/passwordPolicy.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+}
+
+const MAX_INACTIVITY_TIMEOUT_MINUTES = 1440
+
+interface RoleSessionTimeout {
+  role_id: string
+  role_name: string
+  // Null for global roles
+  organization_id: string | null
+  inactivity_timeout_minutes: number | null
+}
+
+// Timeouts of the global roles and of the organization's own roles
+async function getSessionTimeouts(supabase: SupabaseClient, organizationId: string): Promise<RoleSessionTimeout[]> {
+  const { data, error } = await supabase
+    .from('roles')
+    .select('id, name, organization_id, inactivity_timeout_minutes')
+    .or(`organization_id.is.null,organization_id.eq.${organizationId}`)
+    .order('name')
+
+  if (error) throw error
+  return (data || []).map(role => ({
+    role_id: role.id,
+    role_name: role.name,
+    organization_id: role.organization_id,
+    inactivity_timeout_minutes: role.inactivity_timeout_minutes
+  }))
+}
+
+// Keyed by role name so the audit diff reads naturally
+const timeoutSnapshot = (timeouts: RoleSessionTimeout[]) =>
+  Object.fromEntries(timeouts.map(timeout => [timeout.role_name, timeout.inactivity_timeout_minutes]))
+
+// Returns an error message for the first invalid field, or null when the policy is acceptable
+function validatePolicy(policy: PasswordPolicy): string | null {
+  const isInteger = (value: unknown) => typeof value === 'number' && Number.isInteger(value)
+
+  if (!isInteger(policy.min_length) || policy.min_length < 1) return 'Minimum length must be a positive whole number'
+  if (!isInteger(policy.max_length) || policy.max_length < policy.min_length) return 'Maximum length must be at least the minimum length'
+  if (!isInteger(policy.min_distinct_characters) || policy.min_distinct_characters < 0) return 'Distinct characters must be zero or more'
+  if (policy.min_distinct_characters > policy.max_length) return 'Distinct characters cannot exceed the maximum length'
+  if (!isInteger(policy.password_history_count) || policy.password_history_count < 0 || policy.password_history_count > 24) {
+    return 'Password history must be between 0 and 24'
+  }
+  if (!isInteger(policy.max_age_days) || policy.max_age_days < 0) return 'Maximum password age must be zero or more days'
+  if (!isInteger(policy.expiry_warning_days) || policy.expiry_warning_days < 0) return 'Expiry warning must be zero or more days'
+  if (typeof policy.special_characters !== 'string') return 'Special characters must be a string'
+  if (policy.require_special && policy.special_characters.length === 0) return 'Special characters are required when special characters must be used'
+  if (!Array.isArray(policy.disallowed_substrings) || policy.disallowed_substrings.some(s => typeof s !== 'string')) {
+    return 'Disallowed substrings must be a list of strings'
+  }
+  for (const flag of ['require_uppercase', 'require_lowercase', 'require_number', 'require_special', 'disallow_user_info'] as const) {
+    if (typeof policy[flag] !== 'boolean') return `${flag} must be true or false`
+  }
+  return null
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Authenticate the caller and check permissions for the request method
+    const authorization = await authorizeRequest(supabase, req, {
+      GET: [{ resource: 'settings', action: 'manage' }],
+      PUT: [{ resource: 'settings', action: 'manage' }]
+    })
+
+    if ('error' in authorization) {
+      return new Response(
+        JSON.stringify({ error: authorization.error }),
+        { status: authorization.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { user, access } = authorization.caller
+    const { organizationId } = access
+    const isAdmin = access.roleNames.includes('admin')
+
+    // Session timeouts are set on the roles of the caller's selected organization
+    if (!organizationId) {
+      return new Response(
+        JSON.stringify({ error: 'Select an organization first' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const url = new URL(req.url)
+
+    // GET per-role inactivity timeouts
+    if (req.method === 'GET' && url.pathname.endsWith('/session-timeouts')) {
+      return new Response(
+        JSON.stringify({ timeouts: await getSessionTimeouts(supabase, organizationId) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // PUT replace per-role inactivity timeouts; roles left out keep their value
+    if (req.method === 'PUT' && url.pathname.endsWith('/session-timeouts')) {
+      const { timeouts } = await req.json()
+
+      if (!Array.isArray(timeouts)) {
+        return new Response(
+          JSON.stringify({ error: 'timeouts must be a list' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const previousTimeouts = await getSessionTimeouts(supabase, organizationId)
+      const changes: { role_id: string; inactivity_timeout_minutes: number | null }[] = []
+
+      for (const timeout of timeouts) {
+        const previous = previousTimeouts.find(existing => existing.role_id === timeout?.role_id)
+        if (!previous) {
+          return new Response(
+            JSON.stringify({ error: `Role not found: ${timeout?.role_id}` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          )
+        }
+
+        const minutes = timeout.inactivity_timeout_minutes ?? null
+        if (minutes !== null && (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_INACTIVITY_TIMEOUT_MINUTES)) {
+          return new Response(
+            JSON.stringify({ error: `Timeout for ${previous.role_name} must be between 1 and ${MAX_INACTIVITY_TIMEOUT_MINUTES} minutes` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          )
+        }
+
+        if (minutes !== previous.inactivity_timeout_minutes) {
+          // Global roles apply in every organization, so only admins change them, as in admin-roles
+          if (previous.organization_id === null && !isAdmin) {
+            return new Response(
+              JSON.stringify({ error: `Only admins can change the timeout of the global role ${previous.role_name}` }),
+              { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+          }
+          changes.push({ role_id: previous.role_id, inactivity_timeout_minutes: minutes })
+        }
+      }
+
+      for (const change of changes) {
+        const { error: updateError } = await supabase
+          .from('roles')
+          .update({ inactivity_timeout_minutes: change.inactivity_timeout_minutes })
+          .eq('id', change.role_id)
+
+        if (updateError) throw updateError
+      }
+
+      const updatedTimeouts = await getSessionTimeouts(supabase, organizationId)
+      // Changes to global roles are system-wide
+      const changesGlobalRole = changes.some(change =>
+        previousTimeouts.find(timeout => timeout.role_id === change.role_id)?.organization_id === null
+      )
+
+      if (changes.length > 0) {
+        await recordAuditEvent(supabase, req, {
+          actor: user,
+          action: 'settings.update',
+          targetType: 'settings',
+          targetId: 'session_timeouts',
+          organizationId: changesGlobalRole ? null : organizationId,
+          before: timeoutSnapshot(previousTimeouts),
+          after: timeoutSnapshot(updatedTimeouts)
+        })
+      }
+
+      return new Response(
+        JSON.stringify({ timeouts: updatedTimeouts }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!url.pathname.endsWith('/password-policy')) {
+      return new Response(
+        JSON.stringify({ error: 'Not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // GET password policy
+    if (req.method === 'GET') {
+      const policy = await getPasswordPolicy(supabase)
+      return new Response(
+        JSON.stringify({ policy }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // PUT update password policy; it applies to every organization, so only admins change it
+    if (!isAdmin) {
+      return new Response(
+        JSON.stringify({ error: 'Only admins can change the password policy' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const body: PasswordPolicy = await req.json()
+    const policy: PasswordPolicy = {
+      min_length: body.min_length,
+      max_length: body.max_length,
+      require_uppercase: body.require_uppercase,
+      require_lowercase: body.require_lowercase,
+      require_number: body.require_number,
+      require_special: body.require_special,
+      special_characters: body.special_characters,
+      min_distinct_characters: body.min_distinct_characters,
+      disallow_user_info: body.disallow_user_info,
+      disallowed_substrings: Array.isArray(body.disallowed_substrings)
+        ? [...new Set(body.disallowed_substrings.map(s => String(s).trim()).filter(Boolean))]
+        : body.disallowed_substrings,
+      password_history_count: body.password_history_count,
+      max_age_days: body.max_age_days,
+      expiry_warning_days: body.expiry_warning_days,
+    }
+
+    const validationError = validatePolicy(policy)
+    if (validationError) {
+      return new Response(
+        JSON.stringify({ error: validationError }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const previousPolicy = await getPasswordPolicy(supabase)
+
+    const { data: updatedPolicy, error: updateError } = await supabase
+      .from('password_policy')
+      .upsert({ id: 1, ...policy, updated_at: new Date().toISOString(), updated_by: user.id })
+      .select(PASSWORD_POLICY_COLUMNS)
+      .single()
+
+    if (updateError) {
+      return new Response(
+        JSON.stringify({ error: updateError.message }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    await recordAuditEvent(supabase, req, {
+      actor: user,
+      action: 'settings.update',
+      targetType: 'settings',
+      targetId: 'password_policy',
+      organizationId: null,
+      before: { ...previousPolicy },
+      after: { ...policy }
+    })
+
+    return new Response(
+      JSON.stringify({ policy: updatedPolicy }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in admin-settings function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
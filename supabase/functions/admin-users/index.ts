@@ -1,4 +1,19 @@
-import { createClient } from 'npm:@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import {
+  authorizeRequest,
+  getUserAttributes,
+  hasPermission,
+  hasUnconditionalPermission,
+  includesGlobalRole,
+  isRoleAssignmentActive,
+  isRoleInOrganization,
+  type CallerAccess,
+  type MethodPermissions,
+  type RoleAssignmentWindow
+} from '../_shared/authorization.ts'
+import { recordAuditEvent, diffSnapshots, type AuditSnapshot } from '../_shared/audit.ts'
+import { listUserSessions, revokeUserSessions } from '../_shared/sessions.ts'
+import { getRolesPermissions } from '../_shared/roleHierarchy.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -6,21 +21,677 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
 }
 
+interface ListRole {
+  id: string
+  name: string
+  description: string
+  // Null for global roles
+  organization_id: string | null
+}
+
+interface ListGroup {
+  id: string
+  name: string
+  organization_id: string
+}
+
+interface RoleAssignment extends RoleAssignmentWindow {
+  role_id: string
+}
+
+interface UserRoleRow extends RoleAssignmentWindow {
+  roles: ListRole | null
+}
+
 interface User {
   id: string
   email: string
   full_name: string
+  department?: string | null
   role_ids?: string[]
   menu_access: string[]
   sub_menu_access: Record<string, string[]>
   component_access: string[]
   is_active: boolean
   needs_password_reset: boolean
-  roles?: Array<{
-    id: string
-    name: string
-    description: string
-  }>
+  locked_until?: string | null
+  deleted_at?: string | null
+  deleted_by?: string | null
+  roles?: ListRole[]
+  role_assignments?: RoleAssignment[]
+  // Groups of the caller's organization the user belongs to
+  groups?: { id: string; name: string }[]
+}
+
+const USER_PERMISSIONS: MethodPermissions = {
+  GET: [
+    { resource: 'users', action: 'read' },
+    { resource: 'users', action: 'manage' },
+    { resource: 'audit', action: 'read' }
+  ],
+  POST: [{ resource: 'users', action: 'manage' }],
+  PUT: [{ resource: 'users', action: 'manage' }],
+  DELETE: [{ resource: 'users', action: 'manage' }]
+}
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+const SORTABLE_USER_FIELDS = ['created_at', 'email', 'full_name']
+
+// HTTP status and client-facing message for errors raised by the admin_* user functions
+const RPC_ERRORS: Record<string, { status: number; message?: string }> = {
+  '22023': { status: 400 },
+  '23503': { status: 400, message: 'One or more roles do not exist' },
+  '23505': { status: 409, message: 'A user with this email already exists' },
+  '23514': { status: 400, message: 'A role assignment must end after it starts' },
+  '42501': { status: 400, message: 'Roles must be global or belong to your organization' },
+  'P0002': { status: 404 },
+}
+
+function describeRpcError(error: { code?: string; message: string }): { status: number; error: string; code?: string } {
+  const mapped = RPC_ERRORS[error.code || '']
+  if (!mapped) console.error('Unexpected error writing user:', error)
+  return { status: mapped?.status || 500, error: mapped ? (mapped.message || error.message) : 'Failed to save user', code: error.code }
+}
+
+function rpcErrorResponse(error: { code?: string; message: string }): Response {
+  const { status, ...body } = describeRpcError(error)
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+const MAX_IMPORT_ROWS = 500
+// Each created row makes an Auth admin call and sends an email, so imports are applied in
+// chunks of this size to stay within the function's wall-clock limit
+const MAX_IMPORT_CREATE_ROWS = 25
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+interface CreateUserInput {
+  email: string
+  password: string
+  full_name: string
+  department?: string | null
+  role_ids: string[]
+  role_assignments?: RoleAssignment[] | null
+  menu_access?: string[]
+  sub_menu_access?: Record<string, string[]>
+  component_access?: string[]
+  // The new user joins this organization and starts out working in it
+  organization_id: string
+}
+
+interface ImportRow {
+  email?: string
+  full_name?: string
+  roles?: string[]
+  menu_access?: string[]
+}
+
+interface ImportRowResult {
+  row: number
+  email: string
+  status: 'valid' | 'invalid' | 'created' | 'failed'
+  errors: string[]
+  user_id?: string
+}
+
+// GoTrue has no permanent ban, so deleted accounts are banned for about a century
+const DELETED_BAN_DURATION = '876000h'
+
+const MAX_BATCH_USERS = 200
+const BATCH_ACTIONS = ['activate', 'deactivate', 'add_role', 'remove_role', 'force_password_reset', 'delete'] as const
+
+type BatchAction = typeof BATCH_ACTIONS[number]
+
+// Bulk actions that change the account in every organization the user belongs to
+const ACCOUNT_BATCH_ACTIONS: BatchAction[] = ['activate', 'deactivate', 'force_password_reset', 'delete']
+
+interface BatchResult {
+  user_id: string
+  status: 'succeeded' | 'failed'
+  error?: string
+  // Updated row in the list shape; omitted for deleted users
+  user?: User
+  // Set when the action succeeded but its password reset email could not be sent
+  email_error?: string
+}
+
+// Imported users never see this password; they set their own through the reset email
+function generateTemporaryPassword(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return `${btoa(String.fromCharCode(...bytes))}aA1!`
+}
+
+/**
+ * Create the auth user, then the profile and roles in one transaction,
+ * removing the auth user again if the profile write fails. Shared by
+ * POST /admin-users and the CSV import so both apply the same rules.
+ */
+async function createUserAccount(
+  supabase: SupabaseClient,
+  req: Request,
+  actor: { id: string; email?: string | null },
+  input: CreateUserInput,
+  frontendBaseUrl: string
+): Promise<{ user: User; emailError: string | null } | { status: number; error: string; code?: string }> {
+  const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
+    email: input.email,
+    password: input.password,
+    email_confirm: true
+  })
+
+  if (authError) return { status: 400, error: authError.message }
+
+  // Profile and roles are written in one transaction; only the auth user needs compensating
+  const { data: newUser, error: profileError } = await supabase.rpc('admin_create_user_profile', {
+    p_user_id: authUser.user.id,
+    p_email: input.email,
+    p_full_name: input.full_name,
+    p_role_ids: input.role_ids,
+    p_menu_access: input.menu_access || [],
+    p_sub_menu_access: input.sub_menu_access || {},
+    p_component_access: input.component_access || [],
+    p_role_assignments: input.role_assignments || null,
+    p_organization_id: input.organization_id,
+    p_department: input.department ?? null
+  })
+
+  if (profileError) {
+    await supabase.auth.admin.deleteUser(authUser.user.id)
+    return describeRpcError(profileError)
+  }
+
+  await recordAuditEvent(supabase, req, {
+    actor,
+    action: 'user.create',
+    targetType: 'user',
+    targetId: authUser.user.id,
+    organizationId: input.organization_id,
+    after: await getUserSnapshot(supabase, authUser.user.id)
+  })
+
+  // Always send password reset email
+  const emailError = await sendPasswordResetEmail(supabase, input.email, frontendBaseUrl)
+
+  return { user: newUser, emailError }
+}
+
+// Email failures don't fail the user write that triggered them; the message is
+// returned so callers can report it. generateLink only builds the link, so the
+// email goes through resetPasswordForEmail
+async function sendPasswordResetEmail(supabase: SupabaseClient, email: string, frontendBaseUrl: string): Promise<string | null> {
+  try {
+    const { error: resetError } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${frontendBaseUrl}/reset-password`
+    })
+    if (!resetError) return null
+    console.error('Failed to send password reset email:', resetError)
+    return `The password reset email could not be sent: ${resetError.message}`
+  } catch (err) {
+    console.error('Error sending password reset email:', err)
+    return 'The password reset email could not be sent'
+  }
+}
+
+// Check import rows against each other and against existing users and roles; rows are
+// numbered from rowOffset + 1 so chunks of a file keep the file's row numbers
+async function validateImportRows(
+  supabase: SupabaseClient,
+  rows: ImportRow[],
+  organizationId: string,
+  rowOffset: number,
+  canAssignGlobalRoles: boolean
+): Promise<{ results: ImportRowResult[]; inputs: Map<number, CreateUserInput> }> {
+  const normalizedEmails = rows.map(row => (row.email || '').trim().toLowerCase())
+
+  // Role names are only unique within an organization, so other organizations' roles are left out
+  const { data: rolesData, error: rolesError } = await supabase.from('roles').select('id, name, organization_id')
+  if (rolesError) throw rolesError
+  const organizationRoles = (rolesData || []).filter(role => isRoleInOrganization(role, organizationId))
+  const roleIdsByName = new Map(organizationRoles.map(role => [role.name.toLowerCase(), role.id]))
+  const globalRoleNames = new Set(organizationRoles.filter(role => role.organization_id === null).map(role => role.name.toLowerCase()))
+
+  const candidateEmails = [...new Set(normalizedEmails.filter(Boolean))]
+  const existingEmails = new Set<string>()
+  if (candidateEmails.length > 0) {
+    const { data: existing, error: existingError } = await supabase
+      .from('users')
+      .select('email')
+      .in('email', candidateEmails)
+    if (existingError) throw existingError
+    existing?.forEach(u => existingEmails.add(u.email.toLowerCase()))
+  }
+
+  const seenEmails = new Set<string>()
+  const inputs = new Map<number, CreateUserInput>()
+
+  const results = rows.map((row, index): ImportRowResult => {
+    const email = normalizedEmails[index]
+    const fullName = (row.full_name || '').trim()
+    const roleNames = (Array.isArray(row.roles) ? row.roles : []).map(name => String(name).trim()).filter(Boolean)
+    const menuAccess = (Array.isArray(row.menu_access) ? row.menu_access : []).map(item => String(item).trim()).filter(Boolean)
+    const errors: string[] = []
+
+    if (!email) errors.push('Email is required')
+    else if (!EMAIL_PATTERN.test(email)) errors.push('Email is not valid')
+    else if (existingEmails.has(email)) errors.push('A user with this email already exists')
+    else if (seenEmails.has(email)) errors.push('Email appears more than once in the file')
+    if (email) seenEmails.add(email)
+
+    if (!fullName) errors.push('Full name is required')
+
+    if (roleNames.length === 0) errors.push('At least one role must be assigned')
+    const unknownRoles = roleNames.filter(name => !roleIdsByName.has(name.toLowerCase()))
+    if (unknownRoles.length > 0) errors.push(`Unknown role${unknownRoles.length > 1 ? 's' : ''}: ${unknownRoles.join(', ')}`)
+    const globalRoles = canAssignGlobalRoles ? [] : roleNames.filter(name => globalRoleNames.has(name.toLowerCase()))
+    if (globalRoles.length > 0) errors.push(`Only admins can assign global roles: ${globalRoles.join(', ')}`)
+
+    if (errors.length === 0) {
+      inputs.set(index, {
+        email,
+        password: generateTemporaryPassword(),
+        full_name: fullName,
+        role_ids: [...new Set(roleNames.map(name => roleIdsByName.get(name.toLowerCase())!))],
+        menu_access: [...new Set(menuAccess)],
+        organization_id: organizationId
+      })
+    }
+
+    return { row: rowOffset + index + 1, email, status: errors.length === 0 ? 'valid' : 'invalid', errors }
+  })
+
+  return { results, inputs }
+}
+
+/**
+ * Validate the optional validity windows sent alongside role_ids. Each entry
+ * must name one of role_ids; roles without an entry are assigned permanently.
+ */
+function parseRoleAssignments(value: unknown, roleIds: string[]): { assignments: RoleAssignment[] | null } | { error: string } {
+  if (value === undefined || value === null) return { assignments: null }
+  if (!Array.isArray(value)) return { error: 'role_assignments must be an array' }
+
+  const assignments: RoleAssignment[] = []
+  for (const entry of value) {
+    if (!entry || !roleIds.includes(entry.role_id)) {
+      return { error: 'role_assignments may only list roles in role_ids' }
+    }
+    const [validFrom, validUntil] = [entry.valid_from, entry.valid_until].map(date => date ? new Date(date) : null)
+    if ((validFrom && isNaN(validFrom.getTime())) || (validUntil && isNaN(validUntil.getTime()))) {
+      return { error: 'Invalid role assignment date' }
+    }
+    if (validFrom && validUntil && validUntil <= validFrom) {
+      return { error: 'A role assignment must end after it starts' }
+    }
+    assignments.push({
+      role_id: entry.role_id,
+      valid_from: validFrom?.toISOString() ?? null,
+      valid_until: validUntil?.toISOString() ?? null
+    })
+  }
+
+  return { assignments }
+}
+
+// Split embedded user_roles rows into the assigned roles and each assignment's validity window.
+// Roles of organizations other than the caller's are left out.
+function mapUserRoles(userRoles: UserRoleRow[] | null, organizationId: string) {
+  const assigned = (userRoles || []).filter((ur): ur is UserRoleRow & { roles: ListRole } =>
+    !!ur.roles && isRoleInOrganization(ur.roles, organizationId)
+  )
+  const roles = assigned.map(ur => ur.roles)
+  return {
+    roles,
+    role_ids: roles.map(role => role.id),
+    role_assignments: assigned.map(ur => ({ role_id: ur.roles.id, valid_from: ur.valid_from, valid_until: ur.valid_until })),
+    active_role_ids: assigned.filter(ur => isRoleAssignmentActive(ur)).map(ur => ur.roles.id)
+  }
+}
+
+// Embedded group_members rows as the user's groups within the organization
+function mapUserGroups(groupMembers: { groups: ListGroup | null }[] | null, organizationId: string) {
+  return (groupMembers || [])
+    .map(gm => gm.groups)
+    .filter((group): group is ListGroup => !!group && group.organization_id === organizationId)
+    .map(group => ({ id: group.id, name: group.name }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+// Roles held through the given groups
+async function getGroupRoleIds(supabase: SupabaseClient, groupIds: string[]): Promise<string[]> {
+  if (groupIds.length === 0) return []
+  const { data, error } = await supabase.from('group_roles').select('role_id').in('group_id', groupIds)
+  if (error) throw error
+  return (data || []).map(groupRole => groupRole.role_id)
+}
+
+// Fetch one user in the shape returned by GET /admin-users; null unless they belong to the organization
+async function getListUser(supabase: SupabaseClient, userId: string, organizationId: string): Promise<User | null> {
+  const { data, error } = await supabase
+    .from('users')
+    .select(`
+      id,
+      email,
+      full_name,
+      department,
+      menu_access,
+      sub_menu_access,
+      component_access,
+      is_active,
+      created_at,
+      needs_password_reset,
+      locked_until,
+      deleted_at,
+      deleted_by,
+      user_roles(
+        valid_from,
+        valid_until,
+        roles(
+          id,
+          name,
+          description,
+          organization_id
+        )
+      ),
+      group_members(
+        groups(
+          id,
+          name,
+          organization_id
+        )
+      ),
+      organization_members!inner(organization_id)
+    `)
+    .eq('id', userId)
+    .eq('organization_members.organization_id', organizationId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  const { user_roles, group_members, ...profile } = data
+  delete profile.organization_members
+  const { roles, role_ids, role_assignments } = mapUserRoles(user_roles, organizationId)
+  return { ...profile, roles, role_ids, role_assignments, groups: mapUserGroups(group_members, organizationId) } as User
+}
+
+/**
+ * Apply one bulk action to one user. Updates go through admin_update_user
+ * like PUT /admin-users/{id}, so removing a user's last role fails the same way.
+ */
+async function applyBatchAction(
+  supabase: SupabaseClient,
+  req: Request,
+  actor: { id: string; email?: string | null },
+  action: BatchAction,
+  userId: string,
+  roleId: string | null,
+  organizationId: string,
+  frontendBaseUrl: string
+): Promise<BatchResult> {
+  // A selection that includes the caller must not lock them out mid-batch
+  if (userId === actor.id && (action === 'deactivate' || action === 'delete')) {
+    return { user_id: userId, status: 'failed', error: 'You cannot deactivate or delete your own account' }
+  }
+
+  const current = await getListUser(supabase, userId, organizationId)
+  if (!current) return { user_id: userId, status: 'failed', error: 'User not found' }
+
+  if (action === 'delete') {
+    const deleted = await setUserDeleted(supabase, req, actor, userId, organizationId, true)
+    return 'error' in deleted
+      ? { user_id: userId, status: 'failed', error: deleted.error }
+      : { user_id: userId, status: 'succeeded' }
+  }
+
+  if (current.deleted_at) return { user_id: userId, status: 'failed', error: 'Restore this user before changing it' }
+
+  const beforeSnapshot = await getUserSnapshot(supabase, userId)
+
+  const roleIds = current.role_ids || []
+  const nextRoleIds = action === 'add_role'
+    ? [...new Set([...roleIds, roleId!])]
+    : action === 'remove_role' ? roleIds.filter(id => id !== roleId) : roleIds
+
+  const { error } = await supabase.rpc('admin_update_user', {
+    p_user_id: userId,
+    p_role_ids: nextRoleIds,
+    p_is_active: action === 'activate' ? true : action === 'deactivate' ? false : null,
+    p_needs_password_reset: action === 'force_password_reset' ? true : null,
+    p_organization_id: organizationId
+  })
+
+  if (error) return { user_id: userId, status: 'failed', error: describeRpcError(error).error }
+
+  const afterSnapshot = await getUserSnapshot(supabase, userId)
+
+  await recordAuditEvent(supabase, req, {
+    actor,
+    action: 'user.update',
+    targetType: 'user',
+    targetId: userId,
+    organizationId,
+    before: beforeSnapshot,
+    after: afterSnapshot
+  })
+
+  await notifyUserChange(supabase, userId, beforeSnapshot, afterSnapshot)
+
+  const emailError = action === 'force_password_reset'
+    ? await sendPasswordResetEmail(supabase, current.email, frontendBaseUrl)
+    : null
+
+  return {
+    user_id: userId,
+    status: 'succeeded',
+    user: (await getListUser(supabase, userId, organizationId)) || undefined,
+    ...(emailError ? { email_error: emailError } : {})
+  }
+}
+
+/**
+ * Soft-delete or restore a user. Deleted accounts keep their profile and roles
+ * but are banned in auth, so sign-in and token refresh fail until the account
+ * is restored or purged by purge_deleted_users.
+ */
+async function setUserDeleted(
+  supabase: SupabaseClient,
+  req: Request,
+  actor: { id: string; email?: string | null },
+  userId: string,
+  organizationId: string,
+  deleted: boolean
+): Promise<{ user: User } | { status: number; error: string }> {
+  if (deleted && userId === actor.id) return { status: 400, error: 'You cannot delete your own account' }
+
+  const current = await getListUser(supabase, userId, organizationId)
+  if (!current) return { status: 404, error: 'User not found' }
+  if (!!current.deleted_at === deleted) {
+    return { status: 409, error: deleted ? 'User is already deleted' : 'User is not deleted' }
+  }
+
+  const beforeSnapshot = await getUserSnapshot(supabase, userId)
+
+  const { error: banError } = await supabase.auth.admin.updateUserById(userId, {
+    ban_duration: deleted ? DELETED_BAN_DURATION : 'none'
+  })
+  if (banError) return { status: 400, error: banError.message }
+
+  const { error: updateError } = await supabase
+    .from('users')
+    .update({
+      deleted_at: deleted ? new Date().toISOString() : null,
+      deleted_by: deleted ? actor.id : null
+    })
+    .eq('id', userId)
+
+  if (updateError) {
+    // Put the ban back the way it was so auth and the profile agree
+    await supabase.auth.admin.updateUserById(userId, { ban_duration: deleted ? 'none' : DELETED_BAN_DURATION })
+    return { status: 500, error: updateError.message }
+  }
+
+  await recordAuditEvent(supabase, req, {
+    actor,
+    action: deleted ? 'user.delete' : 'user.restore',
+    targetType: 'user',
+    targetId: userId,
+    organizationId,
+    before: beforeSnapshot,
+    after: await getUserSnapshot(supabase, userId)
+  })
+
+  // The auth ban only blocks new sign-ins; open sessions are ended here
+  if (deleted) await notifyUserSession(supabase, userId, 'sign_out', 'deleted')
+
+  return { user: (await getListUser(supabase, userId, organizationId))! }
+}
+
+/**
+ * Record a session event that the user's open tabs receive through Realtime.
+ * sign_out also deletes their auth sessions so refresh tokens stop working.
+ * Failures are logged so they never undo the admin change that triggered them.
+ */
+async function notifyUserSession(supabase: SupabaseClient, userId: string, action: 'sign_out' | 'refresh', reason: string) {
+  const { error } = await supabase.rpc('notify_user_session', { p_user_id: userId, p_action: action, p_reason: reason })
+  if (error) console.error('Failed to notify user session:', error)
+}
+
+// Deactivation ends the user's sessions; any other change makes open tabs reload the profile
+async function notifyUserChange(supabase: SupabaseClient, userId: string, before: AuditSnapshot | null, after: AuditSnapshot | null) {
+  if (before?.is_active && after?.is_active === false) {
+    await notifyUserSession(supabase, userId, 'sign_out', 'deactivated')
+  } else if (Object.keys(diffSnapshots(before, after)).length > 0) {
+    await notifyUserSession(supabase, userId, 'refresh', 'access_changed')
+  }
+}
+
+// Build an audit snapshot of a user's profile, assigned role and group names and role validity windows
+async function getUserSnapshot(supabase: SupabaseClient, userId: string): Promise<AuditSnapshot | null> {
+  const { data, error } = await supabase
+    .from('users')
+    .select(`
+      email,
+      full_name,
+      department,
+      menu_access,
+      sub_menu_access,
+      component_access,
+      is_active,
+      needs_password_reset,
+      deleted_at,
+      user_roles(
+        valid_from,
+        valid_until,
+        roles(name)
+      ),
+      group_members(
+        groups(name)
+      )
+    `)
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error || !data) return null
+
+  const { user_roles, group_members, ...profile } = data
+  const assigned = (user_roles || []).filter(ur => ur.roles?.name)
+  return {
+    ...profile,
+    roles: assigned.map(ur => ur.roles.name).sort(),
+    groups: (group_members || []).map(gm => gm.groups?.name).filter(Boolean).sort(),
+    // Only time-bound assignments are listed, keyed by role name
+    role_validity: Object.fromEntries(
+      assigned
+        .filter(ur => ur.valid_from || ur.valid_until)
+        .map(ur => [ur.roles.name, { valid_from: ur.valid_from, valid_until: ur.valid_until }])
+        .sort(([a], [b]) => a.localeCompare(b))
+    )
+  }
+}
+
+// The user a route acts on, as in /admin-users/{id}/unlock; null for the list, import and batch routes
+function getTargetUserId(pathname: string): string | null {
+  const segments = pathname.split('/')
+  const target = segments[segments.indexOf('admin-users') + 1]
+  return target && target !== 'import' && target !== 'batch' ? target : null
+}
+
+/**
+ * Deactivating, deleting, restoring, unlocking, forcing a password reset and
+ * resetting MFA change the account itself, so they take effect in every
+ * organization the user belongs to. Admins may take them for users whose
+ * organizations they all belong to; other callers, whose permissions only hold
+ * in the selected organization, for users of no other organization. Profile,
+ * role and group changes and signing the user out stay with each organization.
+ */
+async function checkAccountReach(
+  supabase: SupabaseClient,
+  access: CallerAccess,
+  actorId: string,
+  userId: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('organization_id, user_id')
+    .in('user_id', [userId, actorId])
+  if (error) throw error
+
+  const reachable = new Set(access.roleNames.includes('admin')
+    ? (data || []).filter(m => m.user_id === actorId).map(m => m.organization_id)
+    : [access.organizationId])
+  return (data || []).every(m => m.user_id !== userId || reachable.has(m.organization_id))
+    ? null
+    : 'This user also belongs to organizations you cannot manage'
+}
+
+// Roles added, removed or given a different validity window by an update
+function getChangedRoleIds(current: User, roleIds: string[], assignments: RoleAssignment[] | null): string[] {
+  const currentRoleIds = current.role_ids || []
+  const time = (date: string | null | undefined) => (date ? new Date(date).getTime() : null)
+  const windowChanged = (roleId: string) => {
+    const before = current.role_assignments?.find(a => a.role_id === roleId)
+    const after = assignments?.find(a => a.role_id === roleId)
+    return time(before?.valid_from) !== time(after?.valid_from) || time(before?.valid_until) !== time(after?.valid_until)
+  }
+  return [
+    ...roleIds.filter(id => !currentRoleIds.includes(id) || (assignments !== null && windowChanged(id))),
+    ...currentRoleIds.filter(id => !roleIds.includes(id))
+  ]
+}
+
+// The `resource.*` attributes of a user for permission conditions
+function getUserResourceAttributes(user: User, organizationId: string): Record<string, unknown> {
+  const activeRoleIds = new Set((user.role_assignments || []).filter(a => isRoleAssignmentActive(a)).map(a => a.role_id))
+  const roleNames = (user.roles || []).filter(role => activeRoleIds.has(role.id)).map(role => role.name)
+  return {
+    ...getUserAttributes(user, roleNames, organizationId),
+    is_active: user.is_active,
+    deleted: !!user.deleted_at
+  }
+}
+
+// Whether a permission for the method holds for the given user, conditions included
+function canActOnUser(access: CallerAccess, method: string, attributes: Record<string, unknown>): boolean {
+  return (USER_PERMISSIONS[method] || []).some(requirement =>
+    hasPermission(access, requirement.resource, requirement.action, attributes)
+  )
+}
+
+// Attributes of a user that is about to be created, for conditions on POST
+async function getNewUserAttributes(
+  supabase: SupabaseClient,
+  email: string,
+  fullName: string,
+  department: string | null,
+  roleIds: string[],
+  organizationId: string
+): Promise<Record<string, unknown>> {
+  const { data, error } = await supabase.from('roles').select('name').in('id', roleIds)
+  if (error) throw error
+  return getUserAttributes({ email, full_name: fullName, department }, (data || []).map(role => role.name), organizationId)
 }
 
 Deno.serve(async (req) => {
@@ -35,309 +706,572 @@ Deno.serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: 'Missing authorization header' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+    // Authenticate the caller and check permissions for the request method; conditional
+    // grants are checked against each user through canActOnUser
+    const authorization = await authorizeRequest(supabase, req, USER_PERMISSIONS, { checksConditions: true })
 
-    const token = authHeader.replace('Bearer ', '')
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
-    
-    if (authError || !user) {
+    if ('error' in authorization) {
       return new Response(
-        JSON.stringify({ error: 'Invalid authorization token' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: authorization.error }),
+        { status: authorization.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    const { data: userData, error: userError } = await supabase
-      .from('user_roles')
-      .select('roles(name)')
-      .eq('user_id', user.id)
+    const { user, access } = authorization.caller
+    const { organizationId } = access
 
-    if (userError || !userData || !userData.some(ur => ur.roles?.name === 'admin')) {
-      return new Response(
-        JSON.stringify({ error: 'Insufficient permissions' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    // Users are only listed and changed within the caller's selected organization
+    if (!organizationId) {
+      return new Response(JSON.stringify({ error: 'Select an organization first' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
     }
 
     const url = new URL(req.url)
     const method = req.method
 
-    // GET users
+    // Routes on one user need them to be a member of the organization, and
+    // check the caller's permission conditions against them
+    const targetUserId = getTargetUserId(url.pathname)
+    const target = targetUserId ? await getListUser(supabase, targetUserId, organizationId) : null
+    if (targetUserId) {
+      if (!target) {
+        return new Response(JSON.stringify({ error: 'User not found' }), { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+      if (!canActOnUser(access, method, getUserResourceAttributes(target, organizationId))) {
+        return new Response(JSON.stringify({ error: 'Insufficient permissions for this user' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+
+      const isAccountAction = (method === 'POST' && /\/(mfa-reset|restore|unlock)$/.test(url.pathname)) ||
+        (method === 'DELETE' && !url.pathname.includes('/sessions'))
+      const reachError = isAccountAction && await checkAccountReach(supabase, access, user.id, targetUserId)
+      if (reachError) {
+        return new Response(JSON.stringify({ error: reachError }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+    }
+
+    // GET users (paginated, filtered and sorted server-side)
     if (method === 'GET' && url.pathname.endsWith('/admin-users')) {
-      // Get all users with their roles in a single optimized query
-      const { data: usersData, error: usersError } = await supabase
+      const params = url.searchParams
+      const page = Math.max(parseInt(params.get('page') || '', 10) || 1, 1)
+      const limit = Math.min(Math.max(parseInt(params.get('limit') || '', 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+      const requestedSort = params.get('sort') || ''
+      const sortField = SORTABLE_USER_FIELDS.includes(requestedSort) ? requestedSort : 'created_at'
+      const ascending = params.get('order') === 'asc'
+      // Characters with special meaning in PostgREST filter syntax are stripped from the search term
+      const search = (params.get('search') || '').trim().replace(/[,()*%\\]/g, '')
+      const roleId = params.get('role_id')
+      const isActive = params.get('is_active')
+      const needsPasswordReset = params.get('needs_password_reset')
+      // Soft-deleted users are listed only when asked for, and then exclusively
+      const deleted = params.get('deleted') === 'true'
+
+      // The aliased inner joins restrict rows to members of the organization and to
+      // users holding the role without trimming the roles returned in user_roles
+      let query = supabase
         .from('users')
         .select(`
           id, 
           email, 
           full_name, 
+          department,
           menu_access, 
           sub_menu_access, 
           component_access, 
           is_active, 
           created_at, 
           needs_password_reset,
+          locked_until,
+          deleted_at,
+          deleted_by,
           user_roles(
+            valid_from,
+            valid_until,
             roles(
               id,
               name,
               description,
-              role_permissions(
-                permissions(
-                  id,
-                  resource,
-                  action,
-                  description
-                )
-              )
+              organization_id
             )
-          )
-        `)
-        .order('created_at', { ascending: false })
+          ),
+          group_members(
+            groups(
+              id,
+              name,
+              organization_id
+            )
+          ),
+          org_filter:organization_members!inner(organization_id)${roleId ? ',\n          role_filter:user_roles!inner(role_id)' : ''}
+        `, { count: 'exact' })
+        .eq('org_filter.organization_id', organizationId)
+
+      query = deleted ? query.not('deleted_at', 'is', null) : query.is('deleted_at', null)
+      if (search) query = query.or(`email.ilike.%${search}%,full_name.ilike.%${search}%`)
+      if (roleId) query = query.eq('role_filter.role_id', roleId)
+      if (isActive === 'true' || isActive === 'false') query = query.eq('is_active', isActive === 'true')
+      if (needsPasswordReset === 'true' || needsPasswordReset === 'false') query = query.eq('needs_password_reset', needsPasswordReset === 'true')
+
+      // When every listing grant the caller holds has conditions, rows are filtered
+      // against them here and the page is cut afterwards rather than by the query
+      const conditional = !USER_PERMISSIONS.GET!.some(requirement =>
+        hasUnconditionalPermission(access, requirement.resource, requirement.action)
+      )
+
+      const from = (page - 1) * limit
+      const ordered = query
+        .order(sortField, { ascending })
+        .order('id', { ascending: true })
+      const { data: usersData, error: usersError, count } = await (conditional ? ordered : ordered.range(from, from + limit - 1))
 
       if (usersError) return new Response(JSON.stringify({ error: usersError.message }), { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
 
       // Transform the data to match the expected format
       const users = usersData?.map(user => {
-        const userRoles = user.user_roles?.map(ur => ur.roles).filter(Boolean) || []
-        
-        // Flatten all permissions from all roles
-        const allPermissions = userRoles.flatMap(role => 
-          role.role_permissions?.map(rp => rp.permissions).filter(Boolean) || []
-        )
-        
-        // Remove duplicate permissions based on resource + action combination
-        const uniquePermissions = allPermissions.filter((permission, index, array) => 
-          array.findIndex(p => p.resource === permission.resource && p.action === permission.action) === index
-        )
-        
+        const { roles, role_ids, role_assignments } = mapUserRoles(user.user_roles, organizationId)
+        const profile = { ...user }
+        delete profile.role_filter
+        delete profile.org_filter
+        delete profile.group_members
+
         return {
-          ...user,
-          roles: userRoles,
-          role_ids: userRoles.map(role => role.id),
-          permissions: uniquePermissions
+          ...profile,
+          roles,
+          role_ids,
+          role_assignments,
+          groups: mapUserGroups(user.group_members, organizationId)
         }
       }) || []
 
-      return new Response(JSON.stringify({ users }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      if (conditional) {
+        const visible = users.filter(listed => canActOnUser(access, method, getUserResourceAttributes(listed as User, organizationId)))
+        return new Response(JSON.stringify({ users: visible.slice(from, from + limit), total: visible.length, page, limit }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+
+      return new Response(JSON.stringify({ users, total: count || 0, page, limit }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+    }
+
+    // GET a user's tracked sessions
+    if (method === 'GET' && url.pathname.endsWith('/sessions')) {
+      const userId = url.pathname.split('/').slice(-2)[0]
+      const sessions = await listUserSessions(supabase, userId)
+      return new Response(JSON.stringify({ sessions }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
     }
 
     // POST create user
     if (method === 'POST' && url.pathname.endsWith('/admin-users')) {
       const body = await req.json()
-      const { email, password, full_name, role_ids, menu_access, sub_menu_access, component_access } = body
+      const { email, password, full_name, department, role_ids, menu_access, sub_menu_access, component_access } = body
 
       if (!role_ids || !Array.isArray(role_ids) || role_ids.length === 0) {
         return new Response(JSON.stringify({ error: 'At least one role must be assigned' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
       }
 
-      const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
-        email,
-        password,
-        email_confirm: true
-      })
+      const parsedAssignments = parseRoleAssignments(body.role_assignments, role_ids)
+      if ('error' in parsedAssignments) {
+        return new Response(JSON.stringify({ error: parsedAssignments.error }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
 
-      if (authError) return new Response(JSON.stringify({ error: authError.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      if (!access.roleNames.includes('admin') && await includesGlobalRole(supabase, role_ids)) {
+        return new Response(JSON.stringify({ error: 'Only admins can assign global roles' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
 
-      const { data: newUser, error: profileError } = await supabase
-        .from('users')
-        .insert({
-          id: authUser.user.id,
-          email,
-          full_name,
-          menu_access: menu_access || [],
-          sub_menu_access: sub_menu_access || {},
-          component_access: component_access || [],
-          needs_password_reset: true
-        })
-        .select('*')
-        .single()
-
-      if (profileError) {
-        await supabase.auth.admin.deleteUser(authUser.user.id)
-        return new Response(JSON.stringify({ error: profileError.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
-      }
-
-      // Insert user roles
-      const userRoleInserts = role_ids.map(role_id => ({
-        user_id: authUser.user.id,
-        role_id
-      }))
-
-      const { error: userRolesError } = await supabase
-        .from('user_roles')
-        .insert(userRoleInserts)
+      if (department !== undefined && department !== null && typeof department !== 'string') {
+        return new Response(JSON.stringify({ error: 'Department must be text' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+
+      const newUserAttributes = await getNewUserAttributes(supabase, String(email ?? ''), full_name, department?.trim() || null, role_ids, organizationId)
+      if (!canActOnUser(access, method, newUserAttributes)) {
+        return new Response(JSON.stringify({ error: 'Insufficient permissions for this user' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
 
-      if (userRolesError) {
-        await supabase.auth.admin.deleteUser(authUser.user.id)
-        return new Response(JSON.stringify({ error: userRolesError.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      const created = await createUserAccount(supabase, req, user, {
+        email,
+        password,
+        full_name,
+        department,
+        role_ids,
+        role_assignments: parsedAssignments.assignments,
+        menu_access,
+        sub_menu_access,
+        component_access,
+        organization_id: organizationId
+      }, frontendBaseUrl)
+
+      if ('error' in created) {
+        const { status, ...body } = created
+        return new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
       }
 
+      const newUser = created.user
+
       // Get the created user with roles
       const { data: userWithRoles, error: fetchError } = await supabase
         .from('user_roles')
         .select(`
           user_id,
+          valid_from,
+          valid_until,
           roles(
             id, 
             name, 
             description,
-            role_permissions(
-              permissions(
-                id,
-                resource,
-                action,
-                description
-              )
-            )
+            organization_id
           )
         `)
-        .eq('user_id', authUser.user.id)
+        .eq('user_id', newUser.id)
 
-      const roles = userWithRoles?.map(ur => ur.roles).filter(Boolean) || []
-      
-      // Flatten all permissions from all roles
-      const allPermissions = roles.flatMap(role => 
-        role.role_permissions?.map(rp => rp.permissions).filter(Boolean) || []
-      )
-      
-      // Remove duplicate permissions
-      const uniquePermissions = allPermissions.filter((permission, index, array) => 
-        array.findIndex(p => p.resource === permission.resource && p.action === permission.action) === index
-      )
+      const { roles, role_ids: assignedRoleIds, role_assignments, active_role_ids } = mapUserRoles(userWithRoles, organizationId)
+      const uniquePermissions = await getRolesPermissions(supabase, active_role_ids)
       
       const userResponse = {
         ...newUser,
         roles,
-        role_ids: roles.map(role => role.id),
+        role_ids: assignedRoleIds,
+        role_assignments,
         permissions: uniquePermissions
       }
 
-      // Always send password reset email
-      try {
-        const { error: resetError } = await supabase.auth.admin.generateLink({
-          type: 'password_reset',
-          email: email,
-          redirectTo: `${frontendBaseUrl}/reset-password`
-        })
-        if (resetError) console.error('Failed to send password reset email:', resetError)
-      } catch (err) {
-        console.error('Error sending password reset email:', err)
+      return new Response(JSON.stringify({ user: userResponse, ...(created.emailError ? { email_error: created.emailError } : {}) }), { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+    }
+
+    // POST import users from parsed CSV rows; dry_run only validates, and applying takes
+    // the file in chunks, each with the row_offset of its first row
+    if (method === 'POST' && url.pathname.endsWith('/import')) {
+      const body = await req.json()
+      const rows: ImportRow[] = Array.isArray(body.rows) ? body.rows : []
+      const dryRun = body.dry_run !== false
+      const rowOffset = Number.isInteger(body.row_offset) && body.row_offset > 0 ? body.row_offset : 0
+
+      if (rows.length === 0) {
+        return new Response(JSON.stringify({ error: 'No rows to import' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+      if (rows.length > MAX_IMPORT_ROWS) {
+        return new Response(JSON.stringify({ error: `Imports are limited to ${MAX_IMPORT_ROWS} rows` }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+      if (!dryRun && rows.length > MAX_IMPORT_CREATE_ROWS) {
+        return new Response(JSON.stringify({ error: `Send at most ${MAX_IMPORT_CREATE_ROWS} rows per import request` }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+
+      const { results, inputs } = await validateImportRows(supabase, rows, organizationId, rowOffset, access.roleNames.includes('admin'))
+
+      // Rows the caller's permission conditions do not cover are reported like invalid rows
+      for (const [index, input] of inputs) {
+        const attributes = await getNewUserAttributes(supabase, input.email, input.full_name, null, input.role_ids, organizationId)
+        if (!canActOnUser(access, method, attributes)) {
+          results[index] = { ...results[index], status: 'invalid', errors: ['Insufficient permissions for this user'] }
+          inputs.delete(index)
+        }
+      }
+
+      if (!dryRun) {
+        // Rows are created one at a time so each succeeds or fails on its own
+        for (const [index, input] of inputs) {
+          const created = await createUserAccount(supabase, req, user, input, frontendBaseUrl)
+          results[index] = 'error' in created
+            ? { ...results[index], status: 'failed', errors: [created.error] }
+            : { ...results[index], status: 'created', user_id: created.user.id, errors: created.emailError ? [created.emailError] : [] }
+        }
       }
 
-      return new Response(JSON.stringify({ user: userResponse }), { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      const count = (status: ImportRowResult['status']) => results.filter(result => result.status === status).length
+      const summary = {
+        total: results.length,
+        valid: count('valid'),
+        invalid: count('invalid'),
+        created: count('created'),
+        failed: count('failed')
+      }
+
+      return new Response(JSON.stringify({ dry_run: dryRun, summary, results }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+    }
+
+    // POST apply one action to several users; each user succeeds or fails on its own
+    if (method === 'POST' && url.pathname.endsWith('/batch')) {
+      const body = await req.json()
+      const action = body.action as BatchAction
+      const userIds: string[] = Array.isArray(body.user_ids)
+        ? [...new Set(body.user_ids.filter((id: unknown): id is string => typeof id === 'string' && id !== ''))]
+        : []
+      const roleId: string | null = typeof body.role_id === 'string' && body.role_id ? body.role_id : null
+
+      if (!BATCH_ACTIONS.includes(action)) {
+        return new Response(JSON.stringify({ error: `Action must be one of: ${BATCH_ACTIONS.join(', ')}` }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+      if (userIds.length === 0) {
+        return new Response(JSON.stringify({ error: 'No users selected' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+      if (userIds.length > MAX_BATCH_USERS) {
+        return new Response(JSON.stringify({ error: `Bulk actions are limited to ${MAX_BATCH_USERS} users` }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+
+      if (action === 'add_role' || action === 'remove_role') {
+        const { data: role } = roleId
+          ? await supabase.from('roles').select('id, organization_id').eq('id', roleId).maybeSingle()
+          : { data: null }
+        if (!role || !isRoleInOrganization(role, organizationId)) {
+          return new Response(JSON.stringify({ error: 'A valid role_id is required for this action' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+        }
+        if (role.organization_id === null && !access.roleNames.includes('admin')) {
+          return new Response(JSON.stringify({ error: 'Only admins can assign global roles' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+        }
+      }
+
+      const results: BatchResult[] = []
+      for (const userId of userIds) {
+        const selected = await getListUser(supabase, userId, organizationId)
+        const reachError = selected && ACCOUNT_BATCH_ACTIONS.includes(action) && await checkAccountReach(supabase, access, user.id, userId)
+        results.push(selected && !canActOnUser(access, method, getUserResourceAttributes(selected, organizationId))
+          ? { user_id: userId, status: 'failed', error: 'Insufficient permissions for this user' }
+          : reachError
+            ? { user_id: userId, status: 'failed', error: reachError }
+            : await applyBatchAction(supabase, req, user, action, userId, roleId, organizationId, frontendBaseUrl))
+      }
+
+      const succeeded = results.filter(result => result.status === 'succeeded').length
+      const summary = { total: results.length, succeeded, failed: results.length - succeeded }
+
+      return new Response(JSON.stringify({ action, summary, results }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+    }
+
+    // POST reset a user's MFA factors and recovery codes
+    if (method === 'POST' && url.pathname.endsWith('/mfa-reset')) {
+      const userId = url.pathname.split('/').slice(-2)[0]
+
+      const { data: factorsData, error: factorsError } = await supabase.auth.admin.mfa.listFactors({ userId })
+      if (factorsError) {
+        return new Response(JSON.stringify({ error: factorsError.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+
+      const factors = factorsData?.factors || []
+      for (const factor of factors) {
+        const { error: deleteFactorError } = await supabase.auth.admin.mfa.deleteFactor({ id: factor.id, userId })
+        if (deleteFactorError) {
+          return new Response(JSON.stringify({ error: deleteFactorError.message }), { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+        }
+      }
+
+      const { error: codesError } = await supabase.from('mfa_recovery_codes').delete().eq('user_id', userId)
+      if (codesError) console.error('Failed to delete recovery codes:', codesError)
+
+      await recordAuditEvent(supabase, req, {
+        actor: user,
+        action: 'user.mfa_reset',
+        targetType: 'user',
+        targetId: userId,
+        organizationId,
+        before: { mfa_factors: factors.length },
+        after: { mfa_factors: 0 }
+      })
+
+      return new Response(JSON.stringify({ message: 'MFA factors reset successfully', removed: factors.length }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+    }
+
+    // POST restore a soft-deleted user
+    if (method === 'POST' && url.pathname.endsWith('/restore')) {
+      const userId = url.pathname.split('/').slice(-2)[0]
+      const restored = await setUserDeleted(supabase, req, user, userId, organizationId, false)
+
+      if ('error' in restored) {
+        const { status, ...body } = restored
+        return new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+
+      return new Response(JSON.stringify({ user: restored.user }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+    }
+
+    // POST unlock an account locked after repeated failed sign-ins
+    if (method === 'POST' && url.pathname.endsWith('/unlock')) {
+      const userId = url.pathname.split('/').slice(-2)[0]
+
+      const { data: lockedUser, error: fetchError } = await supabase
+        .from('users')
+        .select('locked_until, failed_login_attempts')
+        .eq('id', userId)
+        .maybeSingle()
+
+      if (fetchError) {
+        return new Response(JSON.stringify({ error: fetchError.message }), { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+      if (!lockedUser) {
+        return new Response(JSON.stringify({ error: 'User not found' }), { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+
+      const { error: unlockError } = await supabase
+        .from('users')
+        .update({ locked_until: null, failed_login_attempts: 0 })
+        .eq('id', userId)
+
+      if (unlockError) {
+        return new Response(JSON.stringify({ error: unlockError.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+
+      await recordAuditEvent(supabase, req, {
+        actor: user,
+        action: 'user.unlock',
+        targetType: 'user',
+        targetId: userId,
+        organizationId,
+        before: { locked_until: lockedUser.locked_until, failed_login_attempts: lockedUser.failed_login_attempts },
+        after: { locked_until: null, failed_login_attempts: 0 }
+      })
+
+      return new Response(JSON.stringify({ message: 'User unlocked successfully' }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
     }
 
     // PUT update user
     if (method === 'PUT') {
       const userId = url.pathname.split('/').pop()
       const body = await req.json()
-      const { full_name, role_ids, menu_access, sub_menu_access, component_access, is_active, needs_password_reset } = body
+      const { full_name, department, role_ids, group_ids, menu_access, sub_menu_access, component_access, is_active, needs_password_reset } = body
 
       if (!role_ids || !Array.isArray(role_ids) || role_ids.length === 0) {
         return new Response(JSON.stringify({ error: 'At least one role must be assigned' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
       }
 
-      const { data: updatedUser, error } = await supabase
-        .from('users')
-        .update({ full_name, menu_access, sub_menu_access, component_access, is_active, needs_password_reset })
-        .eq('id', userId)
-        .select('*')
-        .single()
+      if (department !== undefined && department !== null && typeof department !== 'string') {
+        return new Response(JSON.stringify({ error: 'Department must be text' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
 
-      if (error) return new Response(JSON.stringify({ error: error.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      if (group_ids !== undefined && (!Array.isArray(group_ids) || group_ids.some(groupId => typeof groupId !== 'string'))) {
+        return new Response(JSON.stringify({ error: 'group_ids must be a list of group ids' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
 
-      // Update user roles - delete existing and insert new ones
-      const { error: deleteRolesError } = await supabase
-        .from('user_roles')
-        .delete()
-        .eq('user_id', userId)
+      const parsedAssignments = parseRoleAssignments(body.role_assignments, role_ids)
+      if ('error' in parsedAssignments) {
+        return new Response(JSON.stringify({ error: parsedAssignments.error }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+
+      const changedRoleIds = getChangedRoleIds(target!, role_ids, parsedAssignments.assignments)
+      if (!access.roleNames.includes('admin') && await includesGlobalRole(supabase, changedRoleIds)) {
+        return new Response(JSON.stringify({ error: 'Only admins can assign global roles' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
 
-      if (deleteRolesError) return new Response(JSON.stringify({ error: deleteRolesError.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      // Members hold their groups' roles, so joining or leaving a group with a global role is reserved to admins too
+      const currentGroupIds = target!.groups?.map(group => group.id) || []
+      const changedGroupIds = group_ids ? [
+        ...group_ids.filter((groupId: string) => !currentGroupIds.includes(groupId)),
+        ...currentGroupIds.filter(groupId => !group_ids.includes(groupId))
+      ] : []
+      if (!access.roleNames.includes('admin') && await includesGlobalRole(supabase, await getGroupRoleIds(supabase, changedGroupIds))) {
+        return new Response(JSON.stringify({ error: 'Only admins can change memberships of groups with global roles' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
 
-      // Insert new user roles
-      const userRoleInserts = role_ids.map(role_id => ({
-        user_id: userId,
-        role_id
-      }))
+      const changesAccount = (is_active !== undefined && is_active !== null && is_active !== target!.is_active) ||
+        (needs_password_reset === true && !target!.needs_password_reset)
+      const reachError = changesAccount && await checkAccountReach(supabase, access, user.id, userId!)
+      if (reachError) {
+        return new Response(JSON.stringify({ error: reachError }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
 
-      const { error: insertRolesError } = await supabase
-        .from('user_roles')
-        .insert(userRoleInserts)
+      const beforeSnapshot = await getUserSnapshot(supabase, userId!)
+      if (beforeSnapshot?.deleted_at) {
+        return new Response(JSON.stringify({ error: 'Restore this user before changing it' }), { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
 
-      if (insertRolesError) return new Response(JSON.stringify({ error: insertRolesError.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      // Profile and role changes are applied atomically; omitted fields keep their current values
+      const { data: updatedUser, error } = await supabase.rpc('admin_update_user', {
+        p_user_id: userId,
+        p_role_ids: role_ids,
+        p_full_name: full_name ?? null,
+        p_menu_access: menu_access ?? null,
+        p_sub_menu_access: sub_menu_access ?? null,
+        p_component_access: component_access ?? null,
+        p_is_active: is_active ?? null,
+        p_needs_password_reset: needs_password_reset ?? null,
+        p_role_assignments: parsedAssignments.assignments,
+        p_organization_id: organizationId,
+        p_department: department ?? null,
+        // Group memberships are replaced only when group_ids is sent
+        p_group_ids: group_ids ?? null
+      })
+
+      if (error) return rpcErrorResponse(error)
 
       // Get the updated user with roles
       const { data: userWithRoles, error: fetchError } = await supabase
         .from('user_roles')
         .select(`
           user_id,
+          valid_from,
+          valid_until,
           roles(
             id, 
             name, 
             description,
-            role_permissions(
-              permissions(
-                id,
-                resource,
-                action,
-                description
-              )
-            )
+            organization_id
           )
         `)
         .eq('user_id', userId)
 
-      const roles = userWithRoles?.map(ur => ur.roles).filter(Boolean) || []
-      
-      // Flatten all permissions from all roles
-      const allPermissions = roles.flatMap(role => 
-        role.role_permissions?.map(rp => rp.permissions).filter(Boolean) || []
-      )
-      
-      // Remove duplicate permissions
-      const uniquePermissions = allPermissions.filter((permission, index, array) => 
-        array.findIndex(p => p.resource === permission.resource && p.action === permission.action) === index
-      )
+      const { roles, role_ids: assignedRoleIds, role_assignments, active_role_ids } = mapUserRoles(userWithRoles, organizationId)
+      const uniquePermissions = await getRolesPermissions(supabase, active_role_ids)
       
       const userResponse = {
         ...updatedUser,
         roles,
-        role_ids: roles.map(role => role.id),
+        role_ids: assignedRoleIds,
+        role_assignments,
+        groups: (await getListUser(supabase, userId!, organizationId))?.groups || [],
         permissions: uniquePermissions
       }
 
+      const afterSnapshot = await getUserSnapshot(supabase, userId!)
+
+      await recordAuditEvent(supabase, req, {
+        actor: user,
+        action: 'user.update',
+        targetType: 'user',
+        targetId: userId!,
+        organizationId,
+        before: beforeSnapshot,
+        after: afterSnapshot
+      })
+
+      await notifyUserChange(supabase, userId!, beforeSnapshot, afterSnapshot)
+
       // Always send password reset email if needs_password_reset is true
-      if (needs_password_reset) {
-        try {
-          const { data: currentUser } = await supabase.from('users').select('email').eq('id', userId).single()
-          if (currentUser?.email) {
-            const { error: resetError } = await supabase.auth.admin.generateLink({
-              type: 'password_reset',
-              email: currentUser.email,
-              redirectTo: `${frontendBaseUrl}/reset-password`
-            })
-            if (resetError) console.error('Failed to send password reset email:', resetError)
-          }
-        } catch (err) {
-          console.error('Error sending password reset email:', err)
-        }
+      const emailError = needs_password_reset && updatedUser?.email
+        ? await sendPasswordResetEmail(supabase, updatedUser.email, frontendBaseUrl)
+        : null
+
+      return new Response(JSON.stringify({ user: userResponse, ...(emailError ? { email_error: emailError } : {}) }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+    }
+
+    // DELETE end one (/sessions/{sessionId}) or all (/sessions) of a user's sessions
+    if (method === 'DELETE' && url.pathname.includes('/sessions')) {
+      const segments = url.pathname.split('/')
+      const sessionsIndex = segments.lastIndexOf('sessions')
+      const userId = segments[sessionsIndex - 1]
+      const sessionId = segments[sessionsIndex + 1]
+
+      const before = (await listUserSessions(supabase, userId)).length
+      const revoked = await revokeUserSessions(supabase, userId, sessionId ? { sessionIds: [sessionId] } : {})
+
+      if (sessionId && revoked === 0) {
+        return new Response(JSON.stringify({ error: 'Session not found' }), { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
       }
 
-      return new Response(JSON.stringify({ user: userResponse }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      await recordAuditEvent(supabase, req, {
+        actor: user,
+        action: 'user.sessions_revoke',
+        targetType: 'user',
+        targetId: userId,
+        organizationId,
+        before: { sessions: before },
+        after: { sessions: before - revoked }
+      })
+
+      return new Response(JSON.stringify({ revoked }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
     }
 
-    // DELETE user
+    // DELETE soft-delete user; purge_deleted_users removes it after the retention period
     if (method === 'DELETE') {
       const userId = url.pathname.split('/').pop()
-      const { error: authError } = await supabase.auth.admin.deleteUser(userId!)
-      if (authError) return new Response(JSON.stringify({ error: authError.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      const deleted = await setUserDeleted(supabase, req, user, userId!, organizationId, true)
+
+      if ('error' in deleted) {
+        const { status, ...body } = deleted
+        return new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      }
+
       return new Response(JSON.stringify({ message: 'User deleted successfully' }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
     }
 
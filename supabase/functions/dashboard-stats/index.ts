@@ -0,0 +1,293 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { authenticateRequest, getEffectivePermissions, hasUnconditionalPermission } from '../_shared/authorization.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+}
+
+const ACTIVITY_LIMIT = 10
+const NEW_USER_WINDOW_DAYS = 30
+const ACTIVE_SESSION_WINDOW_MINUTES = 30
+
+interface AuditEventRow {
+  id: string
+  actor_id: string | null
+  actor_email: string | null
+  action: string
+  target_type: 'user' | 'role' | 'permission' | 'settings' | 'access_request'
+  target_id: string
+  changes: Record<string, { before: unknown; after: unknown }>
+  created_at: string
+}
+
+const actionVerbs: Record<string, string> = {
+  create: 'created',
+  update: 'updated',
+  delete: 'deleted',
+  approve: 'approved',
+  reject: 'rejected',
+  cancel: 'cancelled',
+}
+
+const actionStatuses: Record<string, 'success' | 'info' | 'warning'> = {
+  create: 'success',
+  update: 'info',
+  delete: 'warning',
+  approve: 'success',
+  reject: 'warning',
+  cancel: 'info',
+}
+
+// Resolve human-readable labels for the targets referenced by audit events
+async function getTargetLabels(supabase: SupabaseClient, events: AuditEventRow[]): Promise<Record<string, string>> {
+  const idsByType = (type: AuditEventRow['target_type']) =>
+    [...new Set(events.filter(e => e.target_type === type).map(e => e.target_id))]
+
+  const labels: Record<string, string> = {}
+  const userIds = idsByType('user')
+  const roleIds = idsByType('role')
+  const permissionIds = idsByType('permission')
+  const accessRequestIds = idsByType('access_request')
+
+  if (userIds.length > 0) {
+    const { data } = await supabase.from('users').select('id, full_name, email').in('id', userIds)
+    data?.forEach(u => { labels[u.id] = u.full_name || u.email })
+  }
+  if (roleIds.length > 0) {
+    const { data } = await supabase.from('roles').select('id, name').in('id', roleIds)
+    data?.forEach(r => { labels[r.id] = r.name })
+  }
+  if (permissionIds.length > 0) {
+    const { data } = await supabase.from('permissions').select('id, resource, action').in('id', permissionIds)
+    data?.forEach(p => { labels[p.id] = `${p.resource}:${p.action}` })
+  }
+  if (accessRequestIds.length > 0) {
+    const { data } = await supabase
+      .from('access_requests')
+      .select('id, roles(name), users!access_requests_user_id_fkey(email)')
+      .in('id', accessRequestIds)
+    data?.forEach(r => { labels[r.id] = `${r.roles?.name} for ${r.users?.email}` })
+  }
+
+  return labels
+}
+
+// Fall back to the snapshot stored in the event when the target no longer exists
+function getSnapshotLabel(event: AuditEventRow): string | null {
+  const value = (field: string) => {
+    const change = event.changes?.[field]
+    return (change?.after ?? change?.before ?? null) as string | null
+  }
+
+  if (event.target_type === 'user') return value('full_name') || value('email')
+  if (event.target_type === 'role') return value('name')
+  if (value('resource') && value('action')) return `${value('resource')}:${value('action')}`
+  return null
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Any authenticated user may load the dashboard; individual sections are permission-gated
+    const authentication = await authenticateRequest(supabase, req)
+
+    if ('error' in authentication) {
+      return new Response(
+        JSON.stringify({ error: authentication.error }),
+        { status: authentication.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { user } = authentication
+
+    if (req.method !== 'GET') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const access = await getEffectivePermissions(supabase, user.id)
+    // Counts and activity span many records, so grants limited by conditions do not unlock them
+    const can = (resource: string, action: string) => hasUnconditionalPermission(access, resource, action)
+
+    const url = new URL(req.url)
+
+    // GET recent activity
+    if (url.pathname.endsWith('/activity')) {
+      // Audit readers see their organization's events, and admins also system-wide ones. Everyone
+      // else, or a caller outside any organization, only sees events they performed or that concern them
+      let query = supabase
+        .from('audit_events')
+        .select('id, actor_id, actor_email, action, target_type, target_id, changes, created_at')
+        .order('created_at', { ascending: false })
+        .limit(ACTIVITY_LIMIT)
+
+      if (can('audit', 'read') && access.organizationId) {
+        query = access.roleNames.includes('admin')
+          ? query.or(`organization_id.eq.${access.organizationId},organization_id.is.null`)
+          : query.eq('organization_id', access.organizationId)
+      } else {
+        query = query.or(`actor_id.eq.${user.id},and(target_type.eq.user,target_id.eq.${user.id})`)
+      }
+
+      const { data: events, error: eventsError } = await query
+
+      if (eventsError) {
+        return new Response(
+          JSON.stringify({ error: eventsError.message }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const labels = await getTargetLabels(supabase, events || [])
+
+      const activity = (events || []).map((event: AuditEventRow) => {
+        const operation = event.action.split('.').pop() || event.action
+        const target = labels[event.target_id] || getSnapshotLabel(event) || event.target_id
+        const actor = event.actor_id === user.id ? 'You' : (event.actor_email || 'Unknown user')
+
+        return {
+          id: event.id,
+          type: event.action,
+          description: `${actor} ${actionVerbs[operation] || operation} ${event.target_type.replace('_', ' ')} ${target}`,
+          timestamp: event.created_at,
+          status: actionStatuses[operation] || 'info'
+        }
+      })
+
+      return new Response(
+        JSON.stringify({ activity }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // GET aggregate stats
+    if (url.pathname.endsWith('/dashboard-stats')) {
+      // Access requests awaiting review in the caller's organization, for callers who can review them
+      let pendingApprovals: number | null = null
+      if (can('access', 'approve') && access.organizationId) {
+        const { count, error } = await supabase
+          .from('access_requests')
+          .select('id', { count: 'exact', head: true })
+          .eq('organization_id', access.organizationId)
+          .eq('status', 'pending')
+
+        if (error) console.error('Failed to count pending access requests:', error)
+        pendingApprovals = count || 0
+      }
+
+      // User counts and the role distribution cover the members of the caller's organization
+      const { organizationId } = access
+      if (!can('users', 'read') || !organizationId) {
+        return new Response(
+          JSON.stringify({ stats: { users: null, role_distribution: null, pending_approvals: pendingApprovals } }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const newUserCutoff = new Date(Date.now() - NEW_USER_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+      // Head-only count queries avoid transferring user rows; soft-deleted users are not counted
+      const countUsers = () => supabase
+        .from('users')
+        .select('id, organization_members!inner(organization_id)', { count: 'exact', head: true })
+        .eq('organization_members.organization_id', organizationId)
+        .is('deleted_at', null)
+
+      const counts = await Promise.all([
+        countUsers(),
+        countUsers().eq('is_active', true),
+        countUsers().eq('needs_password_reset', true),
+        countUsers().gte('created_at', newUserCutoff),
+      ])
+
+      const countError = counts.find(result => result.error)?.error
+      if (countError) {
+        return new Response(
+          JSON.stringify({ error: countError.message }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const [total, active, pendingPasswordReset, newLast30Days] = counts.map(result => result.count || 0)
+
+      // Open tabs report in every few minutes, so a recent last_seen_at means the session is in use
+      const activeSessionCutoff = new Date(Date.now() - ACTIVE_SESSION_WINDOW_MINUTES * 60 * 1000).toISOString()
+      const { count: activeSessions, error: sessionsError } = await supabase
+        .from('user_sessions')
+        .select('id, users!inner(organization_members!inner(organization_id))', { count: 'exact', head: true })
+        .eq('users.organization_members.organization_id', organizationId)
+        .gte('last_seen_at', activeSessionCutoff)
+
+      if (sessionsError) console.error('Failed to count active sessions:', sessionsError)
+
+      // Global roles and the organization's own, counting only assignments of its members
+      const [{ data: rolesData, error: rolesError }, { data: assignments, error: assignmentsError }] = await Promise.all([
+        supabase
+          .from('roles')
+          .select('id, name')
+          .or(`organization_id.is.null,organization_id.eq.${organizationId}`)
+          .order('name'),
+        supabase
+          .from('user_roles')
+          .select('role_id, users!inner(organization_members!inner(organization_id))')
+          .eq('users.organization_members.organization_id', organizationId)
+      ])
+
+      const distributionError = rolesError || assignmentsError
+      if (distributionError) {
+        return new Response(
+          JSON.stringify({ error: distributionError.message }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const roleDistribution = rolesData?.map(role => ({
+        role_id: role.id,
+        role_name: role.name,
+        user_count: assignments?.filter(assignment => assignment.role_id === role.id).length || 0
+      })) || []
+
+      return new Response(
+        JSON.stringify({
+          stats: {
+            users: {
+              total,
+              active,
+              inactive: total - active,
+              pending_password_reset: pendingPasswordReset,
+              new_last_30_days: newLast30Days,
+              active_sessions: activeSessions || 0
+            },
+            role_distribution: roleDistribution,
+            pending_approvals: pendingApprovals
+          }
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in dashboard-stats function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
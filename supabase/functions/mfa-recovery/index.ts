@@ -0,0 +1,196 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { authenticateRequest, getAssuranceLevel, getEffectivePermissions } from '../_shared/authorization.ts'
+import { recordAuditEvent } from '../_shared/audit.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const RECOVERY_CODE_COUNT = 10
+// Unambiguous characters only (no 0/O, 1/I/L)
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+
+interface RedeemRecoveryCodeData {
+  code: string
+}
+
+function generateRecoveryCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(10))
+  const chars = Array.from(bytes, byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length])
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`
+}
+
+// Codes are compared case-insensitively and without separators
+async function hashRecoveryCode(code: string): Promise<string> {
+  const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, '')
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+async function getVerifiedFactorIds(supabase: SupabaseClient, userId: string): Promise<string[]> {
+  const { data, error } = await supabase.auth.admin.mfa.listFactors({ userId })
+  if (error) throw error
+  return (data?.factors || [])
+    .filter(factor => factor.status === 'verified')
+    .map(factor => factor.id)
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Recovery codes belong to the caller, so authentication is sufficient
+    const authentication = await authenticateRequest(supabase, req)
+
+    if ('error' in authentication) {
+      return new Response(
+        JSON.stringify({ error: authentication.error }),
+        { status: authentication.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { user } = authentication
+
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const url = new URL(req.url)
+
+    // POST generate a fresh set of recovery codes, replacing any previous ones
+    if (url.pathname.endsWith('/generate')) {
+      // Only a session already verified with the factor may mint new codes
+      if (getAssuranceLevel(req) !== 'aal2') {
+        return new Response(
+          JSON.stringify({ error: 'Multi-factor authentication required' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode)
+      const codeHashes = await Promise.all(codes.map(hashRecoveryCode))
+
+      const { error: deleteError } = await supabase
+        .from('mfa_recovery_codes')
+        .delete()
+        .eq('user_id', user.id)
+
+      if (deleteError) {
+        return new Response(
+          JSON.stringify({ error: deleteError.message }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { error: insertError } = await supabase
+        .from('mfa_recovery_codes')
+        .insert(codeHashes.map(code_hash => ({ user_id: user.id, code_hash })))
+
+      if (insertError) {
+        return new Response(
+          JSON.stringify({ error: insertError.message }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      // Plaintext codes are returned once and never stored
+      return new Response(
+        JSON.stringify({ codes }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // POST redeem a recovery code in place of the TOTP challenge
+    if (url.pathname.endsWith('/redeem')) {
+      const body: RedeemRecoveryCodeData = await req.json()
+
+      if (!body.code || typeof body.code !== 'string') {
+        return new Response(
+          JSON.stringify({ error: 'Recovery code is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const factorIds = await getVerifiedFactorIds(supabase, user.id)
+      if (factorIds.length === 0) {
+        return new Response(
+          JSON.stringify({ error: 'No verified authenticator to recover' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      // Mark the code used in the same statement that matches it, so it cannot be redeemed twice
+      const { data: redeemed, error: redeemError } = await supabase
+        .from('mfa_recovery_codes')
+        .update({ used_at: new Date().toISOString() })
+        .eq('user_id', user.id)
+        .eq('code_hash', await hashRecoveryCode(body.code))
+        .is('used_at', null)
+        .select('id')
+
+      if (redeemError) {
+        return new Response(
+          JSON.stringify({ error: redeemError.message }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      if (!redeemed || redeemed.length === 0) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid or already used recovery code' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      // Remove the lost authenticator; the user must enroll a new one
+      for (const factorId of factorIds) {
+        const { error: deleteFactorError } = await supabase.auth.admin.mfa.deleteFactor({ id: factorId, userId: user.id })
+        if (deleteFactorError) {
+          return new Response(
+            JSON.stringify({ error: deleteFactorError.message }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          )
+        }
+      }
+
+      await recordAuditEvent(supabase, req, {
+        actor: user,
+        action: 'user.mfa_recover',
+        targetType: 'user',
+        targetId: user.id,
+        organizationId: (await getEffectivePermissions(supabase, user.id)).organizationId,
+        before: { mfa_factors: factorIds.length },
+        after: { mfa_factors: 0 }
+      })
+
+      return new Response(
+        JSON.stringify({ message: 'Recovery code accepted. Please enroll a new authenticator.' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in mfa-recovery function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,93 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { authenticateRequest } from '../_shared/authorization.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Callers only ever change their own selection, among organizations they belong to
+    const authentication = await authenticateRequest(supabase, req)
+
+    if ('error' in authentication) {
+      return new Response(
+        JSON.stringify({ error: authentication.error }),
+        { status: authentication.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { user } = authentication
+    const url = new URL(req.url)
+
+    // POST select the organization the caller works in
+    if (req.method === 'POST' && url.pathname.endsWith('/switch')) {
+      const { organization_id } = await req.json().catch(() => ({}))
+
+      if (typeof organization_id !== 'string' || !organization_id) {
+        return new Response(
+          JSON.stringify({ error: 'An organization is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { data: membership, error: membershipError } = await supabase
+        .from('organization_members')
+        .select('organization_id')
+        .eq('organization_id', organization_id)
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (membershipError && membershipError.code !== '22P02') throw membershipError
+      if (!membership) {
+        return new Response(
+          JSON.stringify({ error: 'Organization not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { error } = await supabase
+        .from('users')
+        .update({ active_organization_id: organization_id })
+        .eq('id', user.id)
+
+      if (error) throw error
+
+      // Other open tabs reload the profile so they follow the selection
+      const { error: notifyError } = await supabase.rpc('notify_user_session', {
+        p_user_id: user.id,
+        p_action: 'refresh',
+        p_reason: 'organization_switched'
+      })
+      if (notifyError) console.error('Failed to notify user session:', notifyError)
+
+      return new Response(
+        JSON.stringify({ organization_id }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in organizations function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,121 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { authenticateRequest, getSessionId } from '../_shared/authorization.ts'
+import { getRequestMetadata } from '../_shared/audit.ts'
+import { listUserSessions, revokeUserSessions } from '../_shared/sessions.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Callers only ever see and end their own sessions, so authentication is sufficient
+    const authentication = await authenticateRequest(supabase, req)
+
+    if ('error' in authentication) {
+      return new Response(
+        JSON.stringify({ error: authentication.error }),
+        { status: authentication.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { user } = authentication
+    const currentSessionId = getSessionId(req)
+    const url = new URL(req.url)
+
+    // GET the caller's sessions, flagging the one making this request
+    if (req.method === 'GET' && url.pathname.endsWith('/sessions')) {
+      const sessions = await listUserSessions(supabase, user.id)
+      return new Response(
+        JSON.stringify({ sessions: sessions.map(session => ({ ...session, current: session.id === currentSessionId })) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!currentSessionId) {
+      return new Response(
+        JSON.stringify({ error: 'Token has no session' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // POST record activity for the current session, creating its entry on first use
+    if (req.method === 'POST' && url.pathname.endsWith('/touch')) {
+      const { ipAddress, userAgent } = getRequestMetadata(req)
+
+      const { error } = await supabase
+        .from('user_sessions')
+        .upsert({
+          id: currentSessionId,
+          user_id: user.id,
+          ip_address: ipAddress,
+          user_agent: userAgent,
+          last_seen_at: new Date().toISOString()
+        }, { onConflict: 'id' })
+
+      // The auth session has already ended; the client will be signed out
+      if (error?.code === '23503') {
+        return new Response(
+          JSON.stringify({ error: 'Session not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      if (error) throw error
+
+      return new Response(
+        JSON.stringify({ message: 'Session updated' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // DELETE sign out every session except the current one
+    if (req.method === 'DELETE' && url.pathname.endsWith('/others')) {
+      const revoked = await revokeUserSessions(supabase, user.id, { keepSessionId: currentSessionId })
+      return new Response(
+        JSON.stringify({ revoked }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // DELETE sign out one session
+    if (req.method === 'DELETE') {
+      const sessionId = url.pathname.split('/').pop()!
+      const revoked = await revokeUserSessions(supabase, user.id, { sessionIds: [sessionId] })
+
+      if (revoked === 0) {
+        return new Response(
+          JSON.stringify({ error: 'Session not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      return new Response(
+        JSON.stringify({ revoked }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in sessions function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,157 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { getRequestMetadata } from '../_shared/audit.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'retry-after',
+}
+
+// Per-IP throttling, overridable per deployment: failures from one IP before exponential backoff
+// kicks in, and how far back they count. Account lockout is counted by the password verification hook
+const IP_FREE_ATTEMPTS = parseInt(Deno.env.get('LOGIN_IP_FREE_ATTEMPTS') || '', 10) || 3
+const IP_WINDOW_MINUTES = parseInt(Deno.env.get('LOGIN_IP_WINDOW_MINUTES') || '', 10) || 15
+const MAX_BACKOFF_SECONDS = 15 * 60
+
+interface SignInRequest {
+  email: string
+  password: string
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const body: SignInRequest = await req.json()
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : ''
+    const password = body.password
+
+    if (!email || !password || typeof password !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'Email and password are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { ipAddress, userAgent } = getRequestMetadata(req)
+    const now = Date.now()
+
+    const { data: account } = await supabase
+      .from('users')
+      .select('id, locked_until, deleted_at')
+      .eq('email', email)
+      .maybeSingle()
+
+    // Checks the per-IP backoff and records this attempt as failed in one step, so parallel
+    // attempts count against each other; a successful sign-in marks it afterwards
+    const { data: attempt, error: attemptError } = await supabase.rpc('begin_sign_in_attempt', {
+      p_email: email,
+      p_user_id: account?.id || null,
+      p_ip_address: ipAddress,
+      p_user_agent: userAgent,
+      p_free_attempts: IP_FREE_ATTEMPTS,
+      p_window_minutes: IP_WINDOW_MINUTES,
+      p_max_backoff_seconds: MAX_BACKOFF_SECONDS
+    })
+
+    if (attemptError) throw attemptError
+
+    if (attempt.retry_after) {
+      const retryAfter: number = attempt.retry_after
+      return new Response(
+        JSON.stringify({ error: `Too many sign-in attempts. Try again in ${retryAfter} seconds.`, code: 'rate_limited', retry_after: retryAfter }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) } }
+      )
+    }
+
+    // Soft-deleted accounts are banned in auth as well; answer like an unknown email
+    if (account?.deleted_at) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid login credentials', code: 'invalid_credentials' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (account?.locked_until && new Date(account.locked_until).getTime() > now) {
+      return new Response(
+        JSON.stringify({ error: 'Account temporarily locked due to too many failed sign-in attempts', code: 'account_locked', locked_until: account.locked_until }),
+        { status: 423, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Sign in with the anon client so the returned session belongs to the user; the password
+    // verification hook counts the result against the account
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    })
+    const { data: signInData, error: signInError } = await authClient.auth.signInWithPassword({ email, password })
+
+    if (signInError || !signInData.session) {
+      if (account) {
+        const { data: lockedAccount, error: lockError } = await supabase
+          .from('users')
+          .select('locked_until')
+          .eq('id', account.id)
+          .single()
+
+        if (lockError) console.error('Failed to read account lock:', lockError)
+
+        if (lockedAccount?.locked_until && new Date(lockedAccount.locked_until).getTime() > Date.now()) {
+          return new Response(
+            JSON.stringify({ error: 'Account temporarily locked due to too many failed sign-in attempts', code: 'account_locked', locked_until: lockedAccount.locked_until }),
+            { status: 423, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          )
+        }
+      }
+
+      // Unknown emails and wrong passwords are reported identically
+      return new Response(
+        JSON.stringify({ error: 'Invalid login credentials', code: 'invalid_credentials' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { error: recordError } = await supabase
+      .from('login_attempts')
+      .update({ succeeded: true })
+      .eq('id', attempt.attempt_id)
+
+    if (recordError) console.error('Failed to record login attempt:', recordError)
+
+    // Expired passwords go through the existing forced password change flow
+    if (account) {
+      const { error: expiryError } = await supabase.rpc('flag_expired_passwords', { p_user_id: account.id })
+      if (expiryError) console.error('Failed to check password expiry:', expiryError)
+    }
+
+    const { access_token, refresh_token } = signInData.session
+
+    return new Response(
+      JSON.stringify({ session: { access_token, refresh_token } }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in sign-in function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
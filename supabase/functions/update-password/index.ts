@@ -1,4 +1,6 @@
 import { createClient } from 'npm:@supabase/supabase-js@2'
+import { evaluatePasswordPolicy, getPasswordPolicy, toValidationResult } from '../_shared/passwordPolicy.ts'
+import { checkPasswordCorpus } from '../_shared/passwordCorpus.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -58,18 +60,46 @@ Deno.serve(async (req) => {
       )
     }
 
-    // Validate password strength
-    const minLength = 8
-    const hasUppercase = /[A-Z]/.test(newPassword)
-    const hasLowercase = /[a-z]/.test(newPassword)
-    const hasNumber = /[0-9]/.test(newPassword)
-    const hasSpecialChar = /[!@#$%^&*(),.?":{}|<>]/.test(newPassword)
+    // Validate password against the configured policy and the breached-password corpus
+    const { data: profile } = await supabase
+      .from('users')
+      .select('email, full_name')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    const policy = await getPasswordPolicy(supabase)
+    const policyResult = evaluatePasswordPolicy(newPassword, policy, {
+      email: profile?.email || user.email,
+      fullName: profile?.full_name
+    })
+    const corpusErrors = await checkPasswordCorpus(supabase, newPassword)
+    const validation = toValidationResult([...policyResult.errors, ...corpusErrors])
+
+    if (!validation.isValid) {
+      return new Response(
+        JSON.stringify({ error: validation.message, errors: validation.errors }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Reject the current password and any of the recent ones kept in password_history
+    const { data: recentlyUsed, error: historyError } = await supabase.rpc('password_recently_used', {
+      p_user_id: user.id,
+      p_password: newPassword
+    })
+
+    if (historyError) {
+      console.error('Error checking password history:', historyError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to update password' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
 
-    if (newPassword.length < minLength || !hasUppercase || !hasLowercase || !hasNumber || !hasSpecialChar) {
+    if (recentlyUsed) {
+      const message = 'This password was used recently. Choose a password you have not used before.'
       return new Response(
-        JSON.stringify({ 
-          error: 'Password does not meet strength requirements. Must be at least 8 characters with uppercase, lowercase, number, and special character.' 
-        }),
+        JSON.stringify({ error: message, code: 'password_reused', errors: [{ code: 'password_reused', message }] }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
@@ -88,17 +118,27 @@ Deno.serve(async (req) => {
       )
     }
 
-    // Clear needs_password_reset flag if requested
-    if (clearNeedsPasswordReset) {
-      const { error: dbError } = await supabase
-        .from('users')
-        .update({ needs_password_reset: false })
-        .eq('id', user.id)
-
-      if (dbError) {
-        console.error('Error updating needs_password_reset flag:', dbError)
-        // Don't fail the entire operation for this, just log it
-      }
+    const { error: recordError } = await supabase.rpc('record_password_history', {
+      p_user_id: user.id,
+      p_password: newPassword
+    })
+
+    if (recordError) {
+      // The password has already changed; a missing history entry only weakens the next reuse check
+      console.error('Error recording password history:', recordError)
+    }
+
+    // Restart the expiry clock and clear needs_password_reset flag if requested
+    const { error: dbError } = await supabase
+      .from('users')
+      .update(clearNeedsPasswordReset
+        ? { password_changed_at: new Date().toISOString(), needs_password_reset: false }
+        : { password_changed_at: new Date().toISOString() })
+      .eq('id', user.id)
+
+    if (dbError) {
+      console.error('Error updating password_changed_at / needs_password_reset:', dbError)
+      // Don't fail the entire operation for this, just log it
     }
 
     return new Response(
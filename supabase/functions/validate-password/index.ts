@@ -1,13 +1,17 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { evaluatePasswordPolicy, getPasswordPolicy, toValidationResult } from '../_shared/passwordPolicy.ts'
+import { checkPasswordCorpus } from '../_shared/passwordCorpus.ts'
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'content-type',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
-interface PasswordValidationResult {
-  isValid: boolean
-  message: string
-  errors: string[]
+interface ValidatePasswordRequest {
+  password: string
+  email?: string
+  full_name?: string
 }
 
 Deno.serve(async (req) => {
@@ -17,52 +21,28 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const { password } = await req.json()
+    const { password, email, full_name }: ValidatePasswordRequest = await req.json()
 
     if (typeof password !== 'string') {
       return new Response(
         JSON.stringify({ 
           isValid: false, 
           message: 'Password must be a string.',
-          errors: ['Invalid password format']
+          errors: [{ code: 'invalid_format', message: 'Invalid password format' }]
         }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    const minLength = 8
-    const hasUppercase = /[A-Z]/.test(password)
-    const hasLowercase = /[a-z]/.test(password)
-    const hasNumber = /[0-9]/.test(password)
-    const hasSpecialChar = /[!@#$%^&*(),.?":{}|<>]/.test(password)
-
-    const errors: string[] = []
-    let isValid = true
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 
-    if (password.length < minLength) {
-      errors.push(`Password must be at least ${minLength} characters long`)
-      isValid = false
-    }
-    if (!hasUppercase) {
-      errors.push('Password must contain at least one uppercase letter')
-      isValid = false
-    }
-    if (!hasLowercase) {
-      errors.push('Password must contain at least one lowercase letter')
-      isValid = false
-    }
-    if (!hasNumber) {
-      errors.push('Password must contain at least one number')
-      isValid = false
-    }
-    if (!hasSpecialChar) {
-      errors.push('Password must contain at least one special character (!@#$%^&*(),.?":{}|<>)')
-      isValid = false
-    }
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-    const message = isValid 
-      ? 'Password meets all strength requirements' 
-      : errors.join('. ')
+    const policy = await getPasswordPolicy(supabase)
+    const policyResult = evaluatePasswordPolicy(password, policy, { email, fullName: full_name })
+    const corpusErrors = await checkPasswordCorpus(supabase, password)
+    const { isValid, message, errors } = toValidationResult([...policyResult.errors, ...corpusErrors])
 
     return new Response(
       JSON.stringify({ isValid, message, errors }),
@@ -75,7 +55,7 @@ Deno.serve(async (req) => {
       JSON.stringify({ 
         isValid: false, 
         message: 'Internal server error during password validation.',
-        errors: ['Server error']
+        errors: [{ code: 'server_error', message: 'Server error' }]
       }),
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
@@ -0,0 +1,60 @@
+/*
+  # Add audit log for administrative changes
+
+  1. New Tables
+    - `audit_events`
+      - `id` (uuid, primary key)
+      - `actor_id` (uuid, the authenticated user who performed the change)
+      - `actor_email` (text, denormalized so events survive user deletion)
+      - `action` (text, e.g. `user.update`, `role.delete`)
+      - `target_type` (text, one of `user`, `role`, `permission`)
+      - `target_id` (text, id of the changed record)
+      - `changes` (jsonb, per-field `{ before, after }` diff)
+      - `ip_address` (text)
+      - `user_agent` (text)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `audit_events` without client policies; events are written
+      and read exclusively by edge functions using the service role
+    - Seed `audit:read` permission and grant it to the admin role
+
+  3. Indexes
+    - Actor, target and creation date lookups used by the audit log filters
+*/
+
+CREATE TABLE IF NOT EXISTS public.audit_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid,
+  actor_email text,
+  action text NOT NULL,
+  target_type text NOT NULL CHECK (target_type IN ('user', 'role', 'permission')),
+  target_id text NOT NULL,
+  changes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ip_address text,
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.audit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor_id
+ON audit_events (actor_id);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_target
+ON audit_events (target_type, target_id);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_created_at
+ON audit_events (created_at DESC);
+
+-- Permission for viewing the audit log
+INSERT INTO permissions (resource, action, description) VALUES
+  ('audit', 'read', 'View the audit log of administrative changes')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.resource = 'audit' AND p.action = 'read'
+WHERE r.name = 'admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
@@ -0,0 +1,37 @@
+/*
+  # Multi-factor authentication support
+
+  1. Schema Changes
+    - `roles.mfa_required` (boolean, default false)
+      - When set, every user holding the role must enroll a TOTP factor and
+        sign in at assurance level AAL2
+
+  2. New Tables
+    - `mfa_recovery_codes`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to users)
+      - `code_hash` (text, SHA-256 of the normalized recovery code)
+      - `used_at` (timestamp, set once the code is redeemed)
+      - `created_at` (timestamp)
+
+  3. Security
+    - Enable RLS on `mfa_recovery_codes` without client policies; codes are
+      generated and redeemed exclusively through the `mfa-recovery` edge function
+*/
+
+ALTER TABLE public.roles
+ADD COLUMN IF NOT EXISTS mfa_required BOOLEAN DEFAULT FALSE NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.mfa_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, code_hash)
+);
+
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user_id
+ON mfa_recovery_codes (user_id) WHERE used_at IS NULL;
@@ -0,0 +1,73 @@
+/*
+  # Account lockout and login throttling
+
+  1. Schema Changes
+    - `users.failed_login_attempts` (integer, consecutive failures since the last
+      successful sign-in, unlock or lockout)
+    - `users.locked_until` (timestamp, sign-in is refused until this time)
+
+  2. New Tables
+    - `login_attempts`
+      - `id` (uuid, primary key)
+      - `email` (text, as submitted, lower-cased)
+      - `user_id` (uuid, nullable; set when the email belongs to a known user)
+      - `ip_address` (text)
+      - `user_agent` (text)
+      - `succeeded` (boolean)
+      - `created_at` (timestamp)
+
+  3. Functions
+    - `hook_password_verification_attempt(event)`: Supabase Auth hook that
+      rejects password sign-ins for locked accounts, so the lock also applies to
+      clients calling Auth directly instead of the `sign-in` edge function.
+      Enable it under Authentication → Hooks → Password Verification Attempt.
+
+  4. Security
+    - Enable RLS on `login_attempts` without client policies; rows are written
+      by the `sign-in` edge function using the service role
+*/
+
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS failed_login_attempts INTEGER DEFAULT 0 NOT NULL,
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS public.login_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  user_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  ip_address text,
+  user_agent text,
+  succeeded boolean NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.login_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_login_attempts_ip_created_at ON login_attempts (ip_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_login_attempts_email_created_at ON login_attempts (email, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.hook_password_verification_attempt(event jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = (event->>'user_id')::uuid
+      AND locked_until > now()
+  ) THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', 'Account temporarily locked due to too many failed sign-in attempts',
+      'should_logout_user', false
+    );
+  END IF;
+
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.hook_password_verification_attempt(jsonb) TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION public.hook_password_verification_attempt(jsonb) FROM authenticated, anon, public;
@@ -0,0 +1,66 @@
+/*
+  # Configurable password policy
+
+  1. New Tables
+    - `password_policy` (single row, `id` is always 1)
+      - `min_length` / `max_length` (integer)
+      - `require_uppercase`, `require_lowercase`, `require_number`, `require_special` (boolean)
+      - `special_characters` (text, characters that satisfy `require_special`)
+      - `min_distinct_characters` (integer)
+      - `disallow_user_info` (boolean, reject passwords containing the email name or name parts)
+      - `disallowed_substrings` (text[], case-insensitive)
+      - `updated_at` (timestamp), `updated_by` (uuid)
+
+  2. Security
+    - Enable RLS on `password_policy`; anyone may read it so the client can
+      validate as the user types, writes go through the `admin-settings` function
+    - Seed `settings:manage` permission and grant it to the admin role
+    - Allow `settings` as an audit event target type
+
+  3. Seed Data
+    - Default policy matching the previous hard-coded rules
+*/
+
+CREATE TABLE IF NOT EXISTS public.password_policy (
+  id smallint PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  min_length integer NOT NULL DEFAULT 8 CHECK (min_length >= 1),
+  max_length integer NOT NULL DEFAULT 128,
+  require_uppercase boolean NOT NULL DEFAULT true,
+  require_lowercase boolean NOT NULL DEFAULT true,
+  require_number boolean NOT NULL DEFAULT true,
+  require_special boolean NOT NULL DEFAULT true,
+  special_characters text NOT NULL DEFAULT '!@#$%^&*(),.?":{}|<>',
+  min_distinct_characters integer NOT NULL DEFAULT 1 CHECK (min_distinct_characters >= 0),
+  disallow_user_info boolean NOT NULL DEFAULT true,
+  disallowed_substrings text[] NOT NULL DEFAULT '{}',
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by uuid,
+  CHECK (max_length >= min_length)
+);
+
+ALTER TABLE public.password_policy ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read the password policy"
+  ON public.password_policy
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+INSERT INTO public.password_policy (id) VALUES (1)
+ON CONFLICT (id) DO NOTHING;
+
+-- Permission for editing system settings
+INSERT INTO permissions (resource, action, description) VALUES
+  ('settings', 'manage', 'Edit system settings such as the password policy')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.resource = 'settings' AND p.action = 'manage'
+WHERE r.name = 'admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+ALTER TABLE public.audit_events DROP CONSTRAINT IF EXISTS audit_events_target_type_check;
+ALTER TABLE public.audit_events ADD CONSTRAINT audit_events_target_type_check
+  CHECK (target_type IN ('user', 'role', 'permission', 'settings'));
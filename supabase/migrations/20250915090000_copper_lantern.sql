@@ -0,0 +1,110 @@
+/*
+  # Password history
+
+  1. Schema Changes
+    - `password_policy.password_history_count` (integer, how many previous
+      passwords a user may not reuse; 0 disables the check)
+
+  2. New Tables
+    - `password_history`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `password_hash` (text, bcrypt hash)
+      - `created_at` (timestamp)
+
+  3. Functions
+    - `password_recently_used(p_user_id, p_password)`: true when the password
+      matches the current password or one of the last
+      `password_history_count` entries
+    - `record_password_history(p_user_id, p_password)`: stores a hash of a
+      newly set password and prunes entries beyond `password_history_count`
+
+  4. Security
+    - Enable RLS on `password_history` without client policies; hashes never
+      leave the database and the functions are only callable by the service role
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.password_policy
+ADD COLUMN IF NOT EXISTS password_history_count integer NOT NULL DEFAULT 5
+  CHECK (password_history_count BETWEEN 0 AND 24);
+
+CREATE TABLE IF NOT EXISTS public.password_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  password_hash text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.password_history ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_password_history_user_created_at ON password_history (user_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.password_recently_used(p_user_id uuid, p_password text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  history_count integer;
+BEGIN
+  SELECT password_history_count INTO history_count FROM public.password_policy WHERE id = 1;
+
+  IF COALESCE(history_count, 0) = 0 THEN
+    RETURN false;
+  END IF;
+
+  -- The current password always counts, even for accounts created before history was kept
+  IF EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = p_user_id
+      AND encrypted_password IS NOT NULL
+      AND encrypted_password <> ''
+      AND encrypted_password = crypt(p_password, encrypted_password)
+  ) THEN
+    RETURN true;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM (
+      SELECT password_hash FROM public.password_history
+      WHERE user_id = p_user_id
+      ORDER BY created_at DESC
+      LIMIT history_count
+    ) recent
+    WHERE recent.password_hash = crypt(p_password, recent.password_hash)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_password_history(p_user_id uuid, p_password text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  history_count integer;
+BEGIN
+  SELECT password_history_count INTO history_count FROM public.password_policy WHERE id = 1;
+
+  INSERT INTO public.password_history (user_id, password_hash)
+  VALUES (p_user_id, crypt(p_password, gen_salt('bf')));
+
+  DELETE FROM public.password_history
+  WHERE user_id = p_user_id
+    AND id NOT IN (
+      SELECT id FROM public.password_history
+      WHERE user_id = p_user_id
+      ORDER BY created_at DESC
+      LIMIT COALESCE(history_count, 0)
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.password_recently_used(uuid, text) FROM authenticated, anon, public;
+REVOKE EXECUTE ON FUNCTION public.record_password_history(uuid, text) FROM authenticated, anon, public;
+GRANT EXECUTE ON FUNCTION public.password_recently_used(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_password_history(uuid, text) TO service_role;
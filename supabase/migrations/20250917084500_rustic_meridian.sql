@@ -0,0 +1,79 @@
+/*
+  # Password expiry
+
+  1. Schema Changes
+    - `users.password_changed_at` (timestamp, set by `update-password`;
+      existing rows start from `created_at`)
+    - `password_policy.max_age_days` (integer, 0 means passwords never expire)
+    - `password_policy.expiry_warning_days` (integer, how long before expiry the
+      app starts warning)
+
+  2. Functions
+    - `password_expires_at(users)`: computed column, selectable as
+      `password_expires_at` on `users`; null when expiry is disabled
+    - `flag_expired_passwords(p_user_id)`: sets `needs_password_reset` on
+      expired accounts (all accounts when `p_user_id` is null) and returns the
+      number flagged. Called by the `sign-in` function and hourly by pg_cron
+      when the extension is enabled
+*/
+
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMPTZ;
+
+UPDATE public.users SET password_changed_at = created_at WHERE password_changed_at IS NULL;
+
+ALTER TABLE public.users
+ALTER COLUMN password_changed_at SET DEFAULT now(),
+ALTER COLUMN password_changed_at SET NOT NULL;
+
+ALTER TABLE public.password_policy
+ADD COLUMN IF NOT EXISTS max_age_days integer NOT NULL DEFAULT 0 CHECK (max_age_days >= 0),
+ADD COLUMN IF NOT EXISTS expiry_warning_days integer NOT NULL DEFAULT 14 CHECK (expiry_warning_days >= 0);
+
+CREATE OR REPLACE FUNCTION public.password_expires_at(u public.users)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p.max_age_days > 0 THEN u.password_changed_at + make_interval(days => p.max_age_days)
+  END
+  FROM public.password_policy p
+  WHERE p.id = 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.flag_expired_passwords(p_user_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  flagged integer;
+BEGIN
+  UPDATE public.users u
+  SET needs_password_reset = true
+  FROM public.password_policy p
+  WHERE p.id = 1
+    AND p.max_age_days > 0
+    AND u.needs_password_reset = false
+    AND u.password_changed_at + make_interval(days => p.max_age_days) <= now()
+    AND (p_user_id IS NULL OR u.id = p_user_id);
+
+  GET DIAGNOSTICS flagged = ROW_COUNT;
+  RETURN flagged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.flag_expired_passwords(uuid) FROM authenticated, anon, public;
+GRANT EXECUTE ON FUNCTION public.flag_expired_passwords(uuid) TO service_role;
+
+-- Flag expired accounts hourly so long-lived sessions are also caught
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('flag-expired-passwords', '0 * * * *', 'SELECT public.flag_expired_passwords()');
+  END IF;
+END;
+$$;
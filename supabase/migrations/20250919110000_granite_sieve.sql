@@ -0,0 +1,64 @@
+/*
+  # Breached password and dictionary corpus
+
+  1. New Tables
+    - `breached_password_hashes`
+      - `prefix` (text, first 5 hex characters of the upper-case SHA-1)
+      - `suffix` (text, remaining 35 hex characters)
+      - `occurrences` (integer, times seen in breaches, when known)
+      Lookups fetch a whole prefix bucket and compare suffixes in the edge
+      function, the same k-anonymity scheme as the Pwned Passwords range API,
+      but served from this table so no network access is needed
+    - `password_dictionary_words`
+      - `word` (text, lower-case)
+
+  2. Security
+    - Enable RLS on both tables without client policies; they are read by the
+      `validate-password` and `update-password` functions with the service role
+
+  3. Seed Data
+    - A small bundled list of the most common passwords and words. Load full
+      corpora with `npm run import:password-corpus`
+*/
+
+CREATE TABLE IF NOT EXISTS public.breached_password_hashes (
+  prefix text NOT NULL CHECK (prefix ~ '^[0-9A-F]{5}$'),
+  suffix text NOT NULL CHECK (suffix ~ '^[0-9A-F]{35}$'),
+  occurrences integer NOT NULL DEFAULT 1,
+  PRIMARY KEY (prefix, suffix)
+);
+
+CREATE TABLE IF NOT EXISTS public.password_dictionary_words (
+  word text PRIMARY KEY CHECK (word = lower(word))
+);
+
+ALTER TABLE public.breached_password_hashes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.password_dictionary_words ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.breached_password_hashes (prefix, suffix)
+SELECT left(hash, 5), substr(hash, 6)
+FROM (
+  SELECT upper(encode(extensions.digest(p, 'sha1'), 'hex')) AS hash
+  FROM unnest(ARRAY[
+    '123456', '123456789', '12345678', '12345', '1234567', '1234567890',
+    'password', 'Password', 'password1', 'Password1', 'Password1!', 'Password123',
+    'Password123!', 'P@ssw0rd', 'P@ssword1', 'Passw0rd!', 'qwerty', 'qwerty123',
+    'Qwerty123!', 'abc123', 'iloveyou', 'admin', 'Admin123', 'Admin@123',
+    'welcome', 'Welcome1', 'Welcome1!', 'Welcome123', 'letmein', 'Letmein1!',
+    'monkey', 'dragon', 'football', 'baseball', 'sunshine', 'princess',
+    'Summer2024!', 'Winter2024!', 'Spring2025!', 'Autumn2025!', 'Changeme1!',
+    'changeme', '111111', '000000', '654321', 'trustno1', 'master', 'superman'
+  ]) AS p
+) hashes
+ON CONFLICT (prefix, suffix) DO NOTHING;
+
+INSERT INTO public.password_dictionary_words (word)
+SELECT unnest(ARRAY[
+  'password', 'passwort', 'qwerty', 'qwertyuiop', 'asdfgh', 'zxcvbn', 'letmein',
+  'welcome', 'admin', 'administrator', 'login', 'master', 'secret', 'changeme',
+  'iloveyou', 'monkey', 'dragon', 'football', 'baseball', 'soccer', 'hockey',
+  'sunshine', 'princess', 'shadow', 'superman', 'batman', 'trustno', 'freedom',
+  'whatever', 'starwars', 'computer', 'internet', 'summer', 'winter', 'spring',
+  'autumn', 'january', 'february', 'december', 'michael', 'jennifer', 'charlie'
+])
+ON CONFLICT (word) DO NOTHING;
@@ -0,0 +1,119 @@
+/*
+  # Atomic user profile and role writes
+
+  1. Functions
+    - `admin_create_user_profile(...)`: inserts the profile for an already
+      created auth user together with its `user_roles` rows
+    - `admin_update_user(...)`: updates the profile and replaces the user's
+      roles; null arguments leave the current value unchanged
+    Each runs in a single transaction, so a failed role insert can no longer
+    leave a user with a half-written profile or no roles at all.
+
+  2. Errors
+    - `22023` (invalid_parameter_value): no roles given
+    - `23503` (foreign_key_violation): a role id does not exist
+    - `P0002` (no_data_found): the user to update does not exist
+
+  3. Security
+    - SECURITY DEFINER, executable by the service role only; callers are
+      authorized by the `admin-users` edge function
+*/
+
+CREATE OR REPLACE FUNCTION public.admin_create_user_profile(
+  p_user_id uuid,
+  p_email text,
+  p_full_name text,
+  p_role_ids uuid[],
+  p_menu_access jsonb DEFAULT '[]'::jsonb,
+  p_sub_menu_access jsonb DEFAULT '{}'::jsonb,
+  p_component_access jsonb DEFAULT '[]'::jsonb
+)
+RETURNS public.users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_user public.users;
+BEGIN
+  IF p_role_ids IS NULL OR cardinality(p_role_ids) = 0 THEN
+    RAISE EXCEPTION 'At least one role must be assigned' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.users (id, email, full_name, menu_access, sub_menu_access, component_access, needs_password_reset)
+  VALUES (
+    p_user_id,
+    p_email,
+    COALESCE(p_full_name, ''),
+    COALESCE(p_menu_access, '[]'::jsonb),
+    COALESCE(p_sub_menu_access, '{}'::jsonb),
+    COALESCE(p_component_access, '[]'::jsonb),
+    true
+  )
+  RETURNING * INTO new_user;
+
+  INSERT INTO public.user_roles (user_id, role_id)
+  SELECT p_user_id, role_id
+  FROM unnest(p_role_ids) AS role_id
+  ON CONFLICT (user_id, role_id) DO NOTHING;
+
+  RETURN new_user;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_update_user(
+  p_user_id uuid,
+  p_role_ids uuid[],
+  p_full_name text DEFAULT NULL,
+  p_menu_access jsonb DEFAULT NULL,
+  p_sub_menu_access jsonb DEFAULT NULL,
+  p_component_access jsonb DEFAULT NULL,
+  p_is_active boolean DEFAULT NULL,
+  p_needs_password_reset boolean DEFAULT NULL
+)
+RETURNS public.users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_user public.users;
+BEGIN
+  IF p_role_ids IS NULL OR cardinality(p_role_ids) = 0 THEN
+    RAISE EXCEPTION 'At least one role must be assigned' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.users
+  SET
+    full_name = COALESCE(p_full_name, full_name),
+    menu_access = COALESCE(p_menu_access, menu_access),
+    sub_menu_access = COALESCE(p_sub_menu_access, sub_menu_access),
+    component_access = COALESCE(p_component_access, component_access),
+    is_active = COALESCE(p_is_active, is_active),
+    needs_password_reset = COALESCE(p_needs_password_reset, needs_password_reset),
+    updated_at = now()
+  WHERE id = p_user_id
+  RETURNING * INTO updated_user;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Keep rows for roles the user retains and only touch the ones that changed
+  DELETE FROM public.user_roles
+  WHERE user_id = p_user_id
+    AND role_id <> ALL (p_role_ids);
+
+  INSERT INTO public.user_roles (user_id, role_id)
+  SELECT p_user_id, role_id
+  FROM unnest(p_role_ids) AS role_id
+  ON CONFLICT (user_id, role_id) DO NOTHING;
+
+  RETURN updated_user;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_create_user_profile(uuid, text, text, uuid[], jsonb, jsonb, jsonb) FROM authenticated, anon, public;
+REVOKE EXECUTE ON FUNCTION public.admin_update_user(uuid, uuid[], text, jsonb, jsonb, jsonb, boolean, boolean) FROM authenticated, anon, public;
+GRANT EXECUTE ON FUNCTION public.admin_create_user_profile(uuid, text, text, uuid[], jsonb, jsonb, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION public.admin_update_user(uuid, uuid[], text, jsonb, jsonb, jsonb, boolean, boolean) TO service_role;
@@ -0,0 +1,81 @@
+/*
+  # Soft-deleted users
+
+  1. Schema Changes
+    - `users.deleted_at` (timestamp, null while the account is live)
+    - `users.deleted_by` (uuid, the admin who deleted the account)
+    `DELETE /admin-users/{id}` now sets these and bans the auth user instead of
+    deleting it; `POST /admin-users/{id}/restore` clears them again.
+
+  2. Functions
+    - `purge_deleted_users(p_retention_days)`: permanently removes accounts
+      deleted more than `p_retention_days` (default 30) days ago, from both
+      `auth.users` and `public.users`, and records a `user.purge` audit event
+      (actor `system`) for each. Returns the number purged. Runs daily via
+      pg_cron when the extension is enabled
+
+  3. Security
+    - SECURITY DEFINER, executable by the service role only
+*/
+
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES public.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_users_deleted_at
+ON public.users (deleted_at)
+WHERE deleted_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.purge_deleted_users(p_retention_days integer DEFAULT 30)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  purged integer;
+BEGIN
+  WITH expired AS (
+    SELECT id, email, deleted_at
+    FROM public.users
+    WHERE deleted_at IS NOT NULL
+      AND deleted_at <= now() - make_interval(days => p_retention_days)
+  ),
+  audited AS (
+    INSERT INTO public.audit_events (actor_email, action, target_type, target_id, changes)
+    SELECT
+      'system',
+      'user.purge',
+      'user',
+      e.id::text,
+      jsonb_build_object(
+        'email', jsonb_build_object('before', e.email, 'after', NULL),
+        'deleted_at', jsonb_build_object('before', e.deleted_at, 'after', NULL)
+      )
+    FROM expired e
+  ),
+  removed_auth AS (
+    DELETE FROM auth.users a
+    USING expired e
+    WHERE a.id = e.id
+  )
+  DELETE FROM public.users u
+  USING expired e
+  WHERE u.id = e.id;
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_users(integer) FROM authenticated, anon, public;
+GRANT EXECUTE ON FUNCTION public.purge_deleted_users(integer) TO service_role;
+
+-- Purge accounts past the retention period once a day
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('purge-deleted-users', '15 3 * * *', 'SELECT public.purge_deleted_users()');
+  END IF;
+END;
+$$;
@@ -0,0 +1,86 @@
+/*
+  # Session revocation events
+
+  1. New Tables
+    - `user_session_events`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to users)
+      - `action` (text, `sign_out` or `refresh`)
+      - `reason` (text, e.g. `deactivated`, `deleted`, `access_changed`)
+      - `created_at` (timestamp)
+    Added to the `supabase_realtime` publication; `AuthContext` subscribes to
+    inserts for the signed-in user and signs out or reloads the profile.
+
+  2. Functions
+    - `notify_user_session(p_user_id, p_action, p_reason)`: records an event
+      and, for `sign_out`, deletes the user's auth sessions so refresh tokens
+      stop working everywhere. Returns the number of sessions revoked. Events
+      older than a day are pruned on each call
+
+  3. Security
+    - Enable RLS on `user_session_events`; users may read only their own
+      events, which is also what Realtime delivers to them
+    - `notify_user_session` is SECURITY DEFINER and executable by the service
+      role only; callers are authorized by the `admin-users` edge function
+*/
+
+CREATE TABLE IF NOT EXISTS public.user_session_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  action text NOT NULL CHECK (action IN ('sign_out', 'refresh')),
+  reason text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_session_events_user_id
+ON public.user_session_events (user_id, created_at DESC);
+
+ALTER TABLE public.user_session_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own session events" ON public.user_session_events;
+CREATE POLICY "Users can read their own session events"
+  ON public.user_session_events
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'user_session_events'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.user_session_events;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_user_session(p_user_id uuid, p_action text, p_reason text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  revoked integer := 0;
+BEGIN
+  -- Refresh tokens belong to sessions and are removed with them
+  IF p_action = 'sign_out' THEN
+    DELETE FROM auth.sessions WHERE user_id = p_user_id;
+    GET DIAGNOSTICS revoked = ROW_COUNT;
+  END IF;
+
+  DELETE FROM public.user_session_events
+  WHERE user_id = p_user_id
+    AND created_at < now() - interval '1 day';
+
+  INSERT INTO public.user_session_events (user_id, action, reason)
+  VALUES (p_user_id, p_action, p_reason);
+
+  RETURN revoked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_user_session(uuid, text, text) FROM authenticated, anon, public;
+GRANT EXECUTE ON FUNCTION public.notify_user_session(uuid, text, text) TO service_role;
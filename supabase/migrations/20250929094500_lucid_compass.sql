@@ -0,0 +1,87 @@
+/*
+  # Tracked sessions
+
+  1. New Tables
+    - `user_sessions`
+      - `id` (uuid, primary key, the auth session id; removed with the auth
+        session on sign-out, expiry or revocation)
+      - `user_id` (uuid, foreign key to users)
+      - `ip_address` (text), `user_agent` (text), as last reported
+      - `created_at` (timestamp), `last_seen_at` (timestamp)
+    Rows are written by the `sessions` edge function, which the app calls
+    after sign-in and periodically while a tab is open.
+
+  2. Schema Changes
+    - `user_session_events.session_id` (uuid, null when the event applies to
+      every session of the user)
+
+  3. Functions
+    - `revoke_user_sessions(p_user_id, p_session_ids, p_keep_session_id)`:
+      deletes the user's auth sessions (only `p_session_ids` when given, never
+      `p_keep_session_id`) and records a `sign_out` event for each so the
+      affected tabs sign out at once. Returns the number revoked
+
+  4. Security
+    - Enable RLS on `user_sessions`; users may read only their own sessions
+    - `revoke_user_sessions` is SECURITY DEFINER and executable by the service
+      role only
+*/
+
+CREATE TABLE IF NOT EXISTS public.user_sessions (
+  id uuid PRIMARY KEY REFERENCES auth.sessions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  ip_address text,
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_seen_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id
+ON public.user_sessions (user_id, last_seen_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_last_seen_at
+ON public.user_sessions (last_seen_at DESC);
+
+ALTER TABLE public.user_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own sessions" ON public.user_sessions;
+CREATE POLICY "Users can read their own sessions"
+  ON public.user_sessions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+ALTER TABLE public.user_session_events
+ADD COLUMN IF NOT EXISTS session_id uuid;
+
+CREATE OR REPLACE FUNCTION public.revoke_user_sessions(
+  p_user_id uuid,
+  p_session_ids uuid[] DEFAULT NULL,
+  p_keep_session_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  revoked integer;
+BEGIN
+  WITH removed AS (
+    DELETE FROM auth.sessions s
+    WHERE s.user_id = p_user_id
+      AND (p_session_ids IS NULL OR s.id = ANY (p_session_ids))
+      AND (p_keep_session_id IS NULL OR s.id <> p_keep_session_id)
+    RETURNING s.id
+  )
+  INSERT INTO public.user_session_events (user_id, session_id, action, reason)
+  SELECT p_user_id, removed.id, 'sign_out', 'session_revoked'
+  FROM removed;
+
+  GET DIAGNOSTICS revoked = ROW_COUNT;
+  RETURN revoked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_user_sessions(uuid, uuid[], uuid) FROM authenticated, anon, public;
+GRANT EXECUTE ON FUNCTION public.revoke_user_sessions(uuid, uuid[], uuid) TO service_role;
@@ -0,0 +1,20 @@
+/*
+  # Per-role inactivity timeout
+
+  1. Schema Changes
+    - `roles.inactivity_timeout_minutes` (integer, nullable, 1 to 1440)
+      - Minutes without activity after which the app signs a holder of the
+        role out. A user with several roles gets the shortest timeout; roles
+        without a value fall back to the app default of 15 minutes
+    Edited on the Security Settings page through `admin-settings`.
+*/
+
+ALTER TABLE public.roles
+ADD COLUMN IF NOT EXISTS inactivity_timeout_minutes integer;
+
+ALTER TABLE public.roles
+DROP CONSTRAINT IF EXISTS roles_inactivity_timeout_minutes_check;
+
+ALTER TABLE public.roles
+ADD CONSTRAINT roles_inactivity_timeout_minutes_check
+CHECK (inactivity_timeout_minutes IS NULL OR inactivity_timeout_minutes BETWEEN 1 AND 1440);
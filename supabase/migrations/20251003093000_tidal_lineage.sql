@@ -0,0 +1,65 @@
+/*
+  # Role hierarchy
+
+  1. Schema Changes
+    - `roles.parent_role_id` (uuid, nullable, foreign key to roles)
+      - A role inherits every permission of its parent, and through it of all
+        further ancestors. Only permissions are inherited; `mfa_required`,
+        the inactivity timeout and the `admin` shortcut apply to roles a user
+        holds directly
+
+  2. Integrity
+    - A role may not be its own parent, and the `roles_hierarchy_acyclic`
+      trigger rejects a parent that would make a role its own ancestor.
+      `admin-roles` validates the same rule first to return a readable error
+    - Deleting a parent role is refused by `admin-roles`; the foreign key
+      clears `parent_role_id` if a parent is removed directly
+*/
+
+ALTER TABLE public.roles
+ADD COLUMN IF NOT EXISTS parent_role_id uuid REFERENCES public.roles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.roles
+DROP CONSTRAINT IF EXISTS roles_parent_role_id_check;
+
+ALTER TABLE public.roles
+ADD CONSTRAINT roles_parent_role_id_check
+CHECK (parent_role_id IS NULL OR parent_role_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_roles_parent_role_id
+ON public.roles (parent_role_id);
+
+CREATE OR REPLACE FUNCTION public.check_role_hierarchy()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_role_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT r.id, r.parent_role_id
+      FROM public.roles r
+      WHERE r.id = NEW.parent_role_id
+      UNION
+      SELECT r.id, r.parent_role_id
+      FROM public.roles r
+      JOIN ancestors a ON r.id = a.parent_role_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A role cannot inherit from itself or a role that inherits from it' USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS roles_hierarchy_acyclic ON public.roles;
+CREATE TRIGGER roles_hierarchy_acyclic
+  BEFORE INSERT OR UPDATE OF parent_role_id ON public.roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_role_hierarchy();
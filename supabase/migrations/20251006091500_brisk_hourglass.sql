@@ -0,0 +1,232 @@
+/*
+  # Time-bound role assignments
+
+  1. Schema Changes
+    - `user_roles.valid_from` (timestamp, nullable; the grant applies from then on)
+    - `user_roles.valid_until` (timestamp, nullable; the grant stops applying then)
+    Null bounds are open, so existing rows stay permanent. Effective
+    permissions ignore grants outside their window on the client and in the
+    edge functions.
+
+  2. Functions
+    - `admin_create_user_profile` and `admin_update_user` take an optional
+      `p_role_assignments` list of `{ role_id, valid_from, valid_until }`. On
+      update, passing it replaces the bounds of every kept role (roles missing
+      from the list become permanent); leaving it null keeps the current bounds
+    - `expire_role_assignments()`: deletes grants whose `valid_until` has
+      passed, audits each as `user.role_expire`, and asks the affected users'
+      open tabs to reload their profile. Grants that started within the last
+      five minutes trigger the same reload
+
+  3. Scheduling
+    - When pg_cron is available, `expire_role_assignments()` runs every five
+      minutes
+
+  4. Errors
+    - `23514` (check_violation): `valid_until` is not after `valid_from`
+*/
+
+ALTER TABLE public.user_roles
+ADD COLUMN IF NOT EXISTS valid_from timestamptz,
+ADD COLUMN IF NOT EXISTS valid_until timestamptz;
+
+ALTER TABLE public.user_roles
+DROP CONSTRAINT IF EXISTS user_roles_validity_check;
+
+ALTER TABLE public.user_roles
+ADD CONSTRAINT user_roles_validity_check
+CHECK (valid_from IS NULL OR valid_until IS NULL OR valid_until > valid_from);
+
+CREATE INDEX IF NOT EXISTS idx_user_roles_valid_until
+ON public.user_roles (valid_until)
+WHERE valid_until IS NOT NULL;
+
+DROP FUNCTION IF EXISTS public.admin_create_user_profile(uuid, text, text, uuid[], jsonb, jsonb, jsonb);
+DROP FUNCTION IF EXISTS public.admin_update_user(uuid, uuid[], text, jsonb, jsonb, jsonb, boolean, boolean);
+
+CREATE OR REPLACE FUNCTION public.admin_create_user_profile(
+  p_user_id uuid,
+  p_email text,
+  p_full_name text,
+  p_role_ids uuid[],
+  p_menu_access jsonb DEFAULT '[]'::jsonb,
+  p_sub_menu_access jsonb DEFAULT '{}'::jsonb,
+  p_component_access jsonb DEFAULT '[]'::jsonb,
+  p_role_assignments jsonb DEFAULT NULL
+)
+RETURNS public.users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_user public.users;
+BEGIN
+  IF p_role_ids IS NULL OR cardinality(p_role_ids) = 0 THEN
+    RAISE EXCEPTION 'At least one role must be assigned' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.users (id, email, full_name, menu_access, sub_menu_access, component_access, needs_password_reset)
+  VALUES (
+    p_user_id,
+    p_email,
+    COALESCE(p_full_name, ''),
+    COALESCE(p_menu_access, '[]'::jsonb),
+    COALESCE(p_sub_menu_access, '{}'::jsonb),
+    COALESCE(p_component_access, '[]'::jsonb),
+    true
+  )
+  RETURNING * INTO new_user;
+
+  INSERT INTO public.user_roles (user_id, role_id, valid_from, valid_until)
+  SELECT
+    p_user_id,
+    role_id,
+    (assignment.value->>'valid_from')::timestamptz,
+    (assignment.value->>'valid_until')::timestamptz
+  FROM unnest(p_role_ids) AS role_id
+  LEFT JOIN LATERAL (
+    SELECT value
+    FROM jsonb_array_elements(COALESCE(p_role_assignments, '[]'::jsonb))
+    WHERE value->>'role_id' = role_id::text
+    LIMIT 1
+  ) assignment ON true
+  ON CONFLICT (user_id, role_id) DO NOTHING;
+
+  RETURN new_user;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_update_user(
+  p_user_id uuid,
+  p_role_ids uuid[],
+  p_full_name text DEFAULT NULL,
+  p_menu_access jsonb DEFAULT NULL,
+  p_sub_menu_access jsonb DEFAULT NULL,
+  p_component_access jsonb DEFAULT NULL,
+  p_is_active boolean DEFAULT NULL,
+  p_needs_password_reset boolean DEFAULT NULL,
+  p_role_assignments jsonb DEFAULT NULL
+)
+RETURNS public.users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_user public.users;
+BEGIN
+  IF p_role_ids IS NULL OR cardinality(p_role_ids) = 0 THEN
+    RAISE EXCEPTION 'At least one role must be assigned' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.users
+  SET
+    full_name = COALESCE(p_full_name, full_name),
+    menu_access = COALESCE(p_menu_access, menu_access),
+    sub_menu_access = COALESCE(p_sub_menu_access, sub_menu_access),
+    component_access = COALESCE(p_component_access, component_access),
+    is_active = COALESCE(p_is_active, is_active),
+    needs_password_reset = COALESCE(p_needs_password_reset, needs_password_reset),
+    updated_at = now()
+  WHERE id = p_user_id
+  RETURNING * INTO updated_user;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Keep rows for roles the user retains and only touch the ones that changed
+  DELETE FROM public.user_roles
+  WHERE user_id = p_user_id
+    AND role_id <> ALL (p_role_ids);
+
+  INSERT INTO public.user_roles (user_id, role_id, valid_from, valid_until)
+  SELECT
+    p_user_id,
+    role_id,
+    (assignment.value->>'valid_from')::timestamptz,
+    (assignment.value->>'valid_until')::timestamptz
+  FROM unnest(p_role_ids) AS role_id
+  LEFT JOIN LATERAL (
+    SELECT value
+    FROM jsonb_array_elements(COALESCE(p_role_assignments, '[]'::jsonb))
+    WHERE value->>'role_id' = role_id::text
+    LIMIT 1
+  ) assignment ON true
+  ON CONFLICT (user_id, role_id) DO UPDATE
+  SET valid_from = EXCLUDED.valid_from,
+      valid_until = EXCLUDED.valid_until
+  WHERE p_role_assignments IS NOT NULL;
+
+  RETURN updated_user;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.expire_role_assignments()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired_count integer;
+  affected_users uuid[];
+  affected uuid;
+BEGIN
+  WITH expired AS (
+    DELETE FROM public.user_roles ur
+    WHERE ur.valid_until IS NOT NULL
+      AND ur.valid_until <= now()
+    RETURNING ur.user_id, ur.role_id, ur.valid_from, ur.valid_until
+  ),
+  audited AS (
+    INSERT INTO public.audit_events (actor_email, action, target_type, target_id, changes)
+    SELECT
+      'system',
+      'user.role_expire',
+      'user',
+      e.user_id::text,
+      jsonb_build_object(
+        'role', jsonb_build_object('before', r.name, 'after', NULL),
+        'valid_from', jsonb_build_object('before', e.valid_from, 'after', NULL),
+        'valid_until', jsonb_build_object('before', e.valid_until, 'after', NULL)
+      )
+    FROM expired e
+    JOIN public.roles r ON r.id = e.role_id
+  )
+  SELECT count(*), COALESCE(array_agg(DISTINCT e.user_id), '{}')
+  INTO expired_count, affected_users
+  FROM expired e;
+
+  -- Grants that began since the previous run (the job runs every five minutes)
+  affected_users := affected_users || ARRAY(
+    SELECT DISTINCT ur.user_id
+    FROM public.user_roles ur
+    WHERE ur.valid_from > now() - interval '5 minutes'
+      AND ur.valid_from <= now()
+  );
+
+  FOREACH affected IN ARRAY ARRAY(SELECT DISTINCT unnest(affected_users)) LOOP
+    PERFORM public.notify_user_session(affected, 'refresh', 'role_schedule');
+  END LOOP;
+
+  RETURN expired_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_create_user_profile(uuid, text, text, uuid[], jsonb, jsonb, jsonb, jsonb) FROM authenticated, anon, public;
+REVOKE EXECUTE ON FUNCTION public.admin_update_user(uuid, uuid[], text, jsonb, jsonb, jsonb, boolean, boolean, jsonb) FROM authenticated, anon, public;
+REVOKE EXECUTE ON FUNCTION public.expire_role_assignments() FROM authenticated, anon, public;
+GRANT EXECUTE ON FUNCTION public.admin_create_user_profile(uuid, text, text, uuid[], jsonb, jsonb, jsonb, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION public.admin_update_user(uuid, uuid[], text, jsonb, jsonb, jsonb, boolean, boolean, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION public.expire_role_assignments() TO service_role;
+
+-- Remove expired grants every five minutes
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-role-assignments', '*/5 * * * *', 'SELECT public.expire_role_assignments()');
+  END IF;
+END;
+$$;
@@ -0,0 +1,143 @@
+/*
+  # Just-in-time access requests
+
+  1. New Tables
+    - `access_requests`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to users, the requester)
+      - `role_id` (uuid, foreign key to roles, the role asked for)
+      - `duration_hours` (integer, 1-168, how long the grant lasts once approved)
+      - `justification` (text, required)
+      - `status` (text, `pending`, `approved`, `rejected` or `cancelled`)
+      - `reviewed_by` (uuid), `reviewed_at` (timestamp), `review_note` (text)
+      - `valid_until` (timestamp, end of the grant created on approval)
+      - `created_at` (timestamp)
+    A user can have one pending request per role.
+
+  2. Functions
+    - `approve_access_request(p_request_id, p_reviewer_id, p_note)`: marks a
+      pending request approved and grants its role until now plus
+      `duration_hours`. An existing time-bound grant of the role is extended
+      instead; a permanent one is left as it is. The grant expires through
+      `expire_role_assignments`
+
+  3. Security
+    - Enable RLS on `access_requests`; users may read only their own requests,
+      writes go through the `access-requests` and `admin-access-requests`
+      functions
+    - `approve_access_request` is SECURITY DEFINER and executable by the
+      service role only
+    - Seed `access:approve` permission and grant it to the admin role
+    - Allow `access_request` as an audit event target type
+
+  4. Errors
+    - `P0002` (no_data_found): the request does not exist
+    - `55000` (object_not_in_prerequisite_state): the request is not pending
+    - `42501` (insufficient_privilege): the reviewer made the request
+*/
+
+CREATE TABLE IF NOT EXISTS public.access_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  role_id uuid NOT NULL REFERENCES public.roles(id) ON DELETE CASCADE,
+  duration_hours integer NOT NULL CHECK (duration_hours BETWEEN 1 AND 168),
+  justification text NOT NULL CHECK (length(btrim(justification)) > 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  reviewed_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  review_note text,
+  valid_until timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_access_requests_pending
+ON public.access_requests (user_id, role_id)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_access_requests_status
+ON public.access_requests (status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_access_requests_user_id
+ON public.access_requests (user_id, created_at DESC);
+
+ALTER TABLE public.access_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own access requests" ON public.access_requests;
+CREATE POLICY "Users can read their own access requests"
+  ON public.access_requests
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.approve_access_request(
+  p_request_id uuid,
+  p_reviewer_id uuid,
+  p_note text DEFAULT NULL
+)
+RETURNS public.access_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.access_requests;
+  grant_until timestamptz;
+BEGIN
+  SELECT * INTO request
+  FROM public.access_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Access request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Access request has already been %', request.status USING ERRCODE = '55000';
+  END IF;
+
+  IF request.user_id = p_reviewer_id THEN
+    RAISE EXCEPTION 'You cannot approve your own request' USING ERRCODE = '42501';
+  END IF;
+
+  grant_until := now() + make_interval(hours => request.duration_hours);
+
+  INSERT INTO public.user_roles (user_id, role_id, valid_from, valid_until)
+  VALUES (request.user_id, request.role_id, NULL, grant_until)
+  ON CONFLICT (user_id, role_id) DO UPDATE
+  SET valid_from = NULL,
+      valid_until = GREATEST(user_roles.valid_until, EXCLUDED.valid_until)
+  WHERE user_roles.valid_until IS NOT NULL;
+
+  UPDATE public.access_requests
+  SET
+    status = 'approved',
+    reviewed_by = p_reviewer_id,
+    reviewed_at = now(),
+    review_note = p_note,
+    valid_until = grant_until
+  WHERE id = p_request_id
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.approve_access_request(uuid, uuid, text) FROM authenticated, anon, public;
+GRANT EXECUTE ON FUNCTION public.approve_access_request(uuid, uuid, text) TO service_role;
+
+-- Permission for reviewing access requests
+INSERT INTO permissions (resource, action, description) VALUES
+  ('access', 'approve', 'Approve or reject just-in-time access requests')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.resource = 'access' AND p.action = 'approve'
+WHERE r.name = 'admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+ALTER TABLE public.audit_events DROP CONSTRAINT IF EXISTS audit_events_target_type_check;
+ALTER TABLE public.audit_events ADD CONSTRAINT audit_events_target_type_check
+  CHECK (target_type IN ('user', 'role', 'permission', 'settings', 'access_request'));
@@ -0,0 +1,28 @@
+/*
+  # Conditional role permissions
+
+  1. Schema Changes
+    - `role_permissions.conditions` (jsonb, nullable)
+      - Null grants the permission unconditionally, as before. Otherwise the
+        grant only applies where the condition holds, for example
+        `{ "attribute": "resource.amount", "operator": "lt", "value": 100000 }`
+      - Conditions combine with `all`, `any` and `not` and compare `user.*`
+        attributes of the caller with `resource.*` attributes of the record
+        being acted on. The language is evaluated by `_shared/conditions.ts`
+        in the edge functions and `src/utils/conditions.ts` in the app;
+        `admin-roles` validates a condition before storing it
+
+  2. Integrity
+    - A stored condition must be a JSON object; its structure is checked by
+      `admin-roles`, since the database never evaluates it
+*/
+
+ALTER TABLE public.role_permissions
+ADD COLUMN IF NOT EXISTS conditions jsonb;
+
+ALTER TABLE public.role_permissions
+DROP CONSTRAINT IF EXISTS role_permissions_conditions_check;
+
+ALTER TABLE public.role_permissions
+ADD CONSTRAINT role_permissions_conditions_check
+CHECK (conditions IS NULL OR jsonb_typeof(conditions) = 'object');
@@ -0,0 +1,316 @@
+/*
+  # Organizations
+
+  1. New Tables
+    - `organizations` (`id`, `name` unique, `created_at`)
+    - `organization_members` (`organization_id`, `user_id`, `created_at`)
+      - One row per user and organization; removed with either side
+
+  2. Schema Changes
+    - `users.active_organization_id` (uuid, nullable)
+      - The organization the user currently works in, chosen through the
+        `organizations` function. Admin APIs only show and change users and
+        roles of this organization, and only its roles grant permissions
+    - `roles.organization_id` (uuid, nullable)
+      - Null for global roles such as `admin`, `member` and `viewer`, which
+        apply in every organization the user belongs to. Other roles exist in
+        and apply within their organization only
+      - Role names are unique per organization (and among global roles), and
+        only a global role may be called `admin`
+
+  3. Functions
+    - `is_organization_member(p_organization_id, p_user_id)` for policies
+    - `admin_create_user_profile` and `admin_update_user` take an optional
+      `p_organization_id`. Creation makes the user a member of it and selects
+      it; both reject roles of another organization, and an update only
+      replaces the user's roles that are visible in that organization
+
+  4. Security
+    - Members read their organizations and their own memberships
+    - Roles, and the permissions of roles, are readable when global or owned
+      by one of the reader's organizations
+
+  5. Data
+    - A `Default` organization is created with every existing user as a
+      member, selected for all of them
+
+  6. Errors
+    - `42501` (insufficient_privilege): a role belongs to another organization
+*/
+
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE CHECK (length(btrim(name)) > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.organization_members (
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id
+ON public.organization_members (user_id);
+
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS active_organization_id uuid REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+ALTER TABLE public.roles
+ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_roles_organization_id
+ON public.roles (organization_id);
+
+-- `admin` is recognised by name everywhere, so an organization may not define its own
+ALTER TABLE public.roles
+DROP CONSTRAINT IF EXISTS roles_organization_admin_check;
+
+ALTER TABLE public.roles
+ADD CONSTRAINT roles_organization_admin_check
+CHECK (organization_id IS NULL OR name <> 'admin');
+
+ALTER TABLE public.roles
+DROP CONSTRAINT IF EXISTS roles_name_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS roles_global_name_key
+ON public.roles (name)
+WHERE organization_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS roles_organization_name_key
+ON public.roles (organization_id, name)
+WHERE organization_id IS NOT NULL;
+
+-- Existing users keep working in a single shared organization
+DO $$
+DECLARE
+  default_organization uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.organizations) THEN
+    INSERT INTO public.organizations (name)
+    VALUES ('Default')
+    RETURNING id INTO default_organization;
+
+    INSERT INTO public.organization_members (organization_id, user_id)
+    SELECT default_organization, u.id
+    FROM public.users u;
+
+    UPDATE public.users
+    SET active_organization_id = default_organization;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.is_organization_member(p_organization_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = p_user_id
+  );
+$$;
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read their organizations" ON public.organizations;
+CREATE POLICY "Members can read their organizations"
+  ON public.organizations
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_member(id, auth.uid()));
+
+DROP POLICY IF EXISTS "Users can read their own memberships" ON public.organization_members;
+CREATE POLICY "Users can read their own memberships"
+  ON public.organization_members
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can read roles" ON public.roles;
+CREATE POLICY "Users can read roles"
+  ON public.roles
+  FOR SELECT
+  TO authenticated
+  USING (organization_id IS NULL OR is_organization_member(organization_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Users can read role permissions" ON public.role_permissions;
+CREATE POLICY "Users can read role permissions"
+  ON public.role_permissions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.roles r
+      WHERE r.id = role_id
+        AND (r.organization_id IS NULL OR is_organization_member(r.organization_id, auth.uid()))
+    )
+  );
+
+DROP FUNCTION IF EXISTS public.admin_create_user_profile(uuid, text, text, uuid[], jsonb, jsonb, jsonb, jsonb);
+DROP FUNCTION IF EXISTS public.admin_update_user(uuid, uuid[], text, jsonb, jsonb, jsonb, boolean, boolean, jsonb);
+
+CREATE OR REPLACE FUNCTION public.admin_create_user_profile(
+  p_user_id uuid,
+  p_email text,
+  p_full_name text,
+  p_role_ids uuid[],
+  p_menu_access jsonb DEFAULT '[]'::jsonb,
+  p_sub_menu_access jsonb DEFAULT '{}'::jsonb,
+  p_component_access jsonb DEFAULT '[]'::jsonb,
+  p_role_assignments jsonb DEFAULT NULL,
+  p_organization_id uuid DEFAULT NULL
+)
+RETURNS public.users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_user public.users;
+BEGIN
+  IF p_role_ids IS NULL OR cardinality(p_role_ids) = 0 THEN
+    RAISE EXCEPTION 'At least one role must be assigned' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_organization_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.roles r
+    WHERE r.id = ANY (p_role_ids)
+      AND r.organization_id IS NOT NULL
+      AND r.organization_id <> p_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Roles must be global or belong to the organization' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.users (id, email, full_name, menu_access, sub_menu_access, component_access, needs_password_reset, active_organization_id)
+  VALUES (
+    p_user_id,
+    p_email,
+    COALESCE(p_full_name, ''),
+    COALESCE(p_menu_access, '[]'::jsonb),
+    COALESCE(p_sub_menu_access, '{}'::jsonb),
+    COALESCE(p_component_access, '[]'::jsonb),
+    true,
+    p_organization_id
+  )
+  RETURNING * INTO new_user;
+
+  IF p_organization_id IS NOT NULL THEN
+    INSERT INTO public.organization_members (organization_id, user_id)
+    VALUES (p_organization_id, p_user_id);
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, role_id, valid_from, valid_until)
+  SELECT
+    p_user_id,
+    role_id,
+    (assignment.value->>'valid_from')::timestamptz,
+    (assignment.value->>'valid_until')::timestamptz
+  FROM unnest(p_role_ids) AS role_id
+  LEFT JOIN LATERAL (
+    SELECT value
+    FROM jsonb_array_elements(COALESCE(p_role_assignments, '[]'::jsonb))
+    WHERE value->>'role_id' = role_id::text
+    LIMIT 1
+  ) assignment ON true
+  ON CONFLICT (user_id, role_id) DO NOTHING;
+
+  RETURN new_user;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_update_user(
+  p_user_id uuid,
+  p_role_ids uuid[],
+  p_full_name text DEFAULT NULL,
+  p_menu_access jsonb DEFAULT NULL,
+  p_sub_menu_access jsonb DEFAULT NULL,
+  p_component_access jsonb DEFAULT NULL,
+  p_is_active boolean DEFAULT NULL,
+  p_needs_password_reset boolean DEFAULT NULL,
+  p_role_assignments jsonb DEFAULT NULL,
+  p_organization_id uuid DEFAULT NULL
+)
+RETURNS public.users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_user public.users;
+BEGIN
+  IF p_role_ids IS NULL OR cardinality(p_role_ids) = 0 THEN
+    RAISE EXCEPTION 'At least one role must be assigned' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_organization_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.roles r
+    WHERE r.id = ANY (p_role_ids)
+      AND r.organization_id IS NOT NULL
+      AND r.organization_id <> p_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Roles must be global or belong to the organization' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.users
+  SET
+    full_name = COALESCE(p_full_name, full_name),
+    menu_access = COALESCE(p_menu_access, menu_access),
+    sub_menu_access = COALESCE(p_sub_menu_access, sub_menu_access),
+    component_access = COALESCE(p_component_access, component_access),
+    is_active = COALESCE(p_is_active, is_active),
+    needs_password_reset = COALESCE(p_needs_password_reset, needs_password_reset),
+    updated_at = now()
+  WHERE id = p_user_id
+  RETURNING * INTO updated_user;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Keep rows for roles the user retains and only touch the ones that changed;
+  -- roles of the user's other organizations are left alone
+  DELETE FROM public.user_roles ur
+  WHERE ur.user_id = p_user_id
+    AND ur.role_id <> ALL (p_role_ids)
+    AND (
+      p_organization_id IS NULL OR EXISTS (
+        SELECT 1 FROM public.roles r
+        WHERE r.id = ur.role_id
+          AND (r.organization_id IS NULL OR r.organization_id = p_organization_id)
+      )
+    );
+
+  INSERT INTO public.user_roles (user_id, role_id, valid_from, valid_until)
+  SELECT
+    p_user_id,
+    role_id,
+    (assignment.value->>'valid_from')::timestamptz,
+    (assignment.value->>'valid_until')::timestamptz
+  FROM unnest(p_role_ids) AS role_id
+  LEFT JOIN LATERAL (
+    SELECT value
+    FROM jsonb_array_elements(COALESCE(p_role_assignments, '[]'::jsonb))
+    WHERE value->>'role_id' = role_id::text
+    LIMIT 1
+  ) assignment ON true
+  ON CONFLICT (user_id, role_id) DO UPDATE
+  SET valid_from = EXCLUDED.valid_from,
+      valid_until = EXCLUDED.valid_until
+  WHERE p_role_assignments IS NOT NULL;
+
+  RETURN updated_user;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_create_user_profile(uuid, text, text, uuid[], jsonb, jsonb, jsonb, jsonb, uuid) FROM authenticated, anon, public;
+REVOKE EXECUTE ON FUNCTION public.admin_update_user(uuid, uuid[], text, jsonb, jsonb, jsonb, boolean, boolean, jsonb, uuid) FROM authenticated, anon, public;
+GRANT EXECUTE ON FUNCTION public.admin_create_user_profile(uuid, text, text, uuid[], jsonb, jsonb, jsonb, jsonb, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.admin_update_user(uuid, uuid[], text, jsonb, jsonb, jsonb, boolean, boolean, jsonb, uuid) TO service_role;
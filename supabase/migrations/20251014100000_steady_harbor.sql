@@ -0,0 +1,99 @@
+/*
+  # Groups
+
+  1. New Tables
+    - `groups` (`id`, `organization_id`, `name`, `description`, `created_at`)
+      - Teams or departments such as "Finance Team", within one organization;
+        names are unique per organization
+    - `group_members` (`group_id`, `user_id`, `created_at`)
+    - `group_roles` (`group_id`, `role_id`, `created_at`)
+      - Every member of the group holds these roles, in addition to the
+        roles assigned to them directly. Only global roles and roles of the
+        group's organization may be assigned
+
+  2. Security
+    - Enable RLS on the new tables; members of an organization read its groups
+      and their roles, users read their own memberships. Writes go through the
+      `admin-groups` and `admin-users` functions
+    - Seed `groups:read` and `groups:manage` permissions and grant them to the
+      admin role
+    - Allow `group` as an audit event target type
+*/
+
+CREATE TABLE IF NOT EXISTS public.groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(btrim(name)) > 0),
+  description text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.group_members (
+  group_id uuid NOT NULL REFERENCES public.groups(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (group_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_members_user_id
+ON public.group_members (user_id);
+
+CREATE TABLE IF NOT EXISTS public.group_roles (
+  group_id uuid NOT NULL REFERENCES public.groups(id) ON DELETE CASCADE,
+  role_id uuid NOT NULL REFERENCES public.roles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (group_id, role_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_roles_role_id
+ON public.group_roles (role_id);
+
+ALTER TABLE public.groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_roles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read their organization's groups" ON public.groups;
+CREATE POLICY "Members can read their organization's groups"
+  ON public.groups
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Users can read their own group memberships" ON public.group_members;
+CREATE POLICY "Users can read their own group memberships"
+  ON public.group_members
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Members can read their organization's group roles" ON public.group_roles;
+CREATE POLICY "Members can read their organization's group roles"
+  ON public.group_roles
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.groups g
+      WHERE g.id = group_id
+        AND is_organization_member(g.organization_id, auth.uid())
+    )
+  );
+
+-- Permissions for group management
+INSERT INTO permissions (resource, action, description) VALUES
+  ('groups', 'read', 'View groups, their members and roles'),
+  ('groups', 'manage', 'Create, edit and delete groups')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.resource = 'groups' AND p.action IN ('read', 'manage')
+WHERE r.name = 'admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+ALTER TABLE public.audit_events DROP CONSTRAINT IF EXISTS audit_events_target_type_check;
+ALTER TABLE public.audit_events ADD CONSTRAINT audit_events_target_type_check
+  CHECK (target_type IN ('user', 'role', 'permission', 'settings', 'access_request', 'group'));
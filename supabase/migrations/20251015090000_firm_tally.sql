@@ -0,0 +1,139 @@
+/*
+  # Atomic sign-in failure counting
+
+  1. Functions
+    - `record_sign_in_result(p_user_id, p_succeeded)`: counts a failed password
+      check, or clears the count after a successful one, in a single UPDATE so
+      concurrent failures cannot overwrite each other. The account locks once
+      the count reaches `app.login_max_failed_attempts` (default 5) for
+      `app.login_lockout_minutes` (default 15); set these with
+      `ALTER DATABASE postgres SET app.login_max_failed_attempts = '10'`.
+      Returns the lock's end when the account is locked
+    - `hook_password_verification_attempt(event)`: now records every password
+      check through `record_sign_in_result`, using `event->>'valid'`, so
+      failures count whether they come through the `sign-in` edge function or
+      a client calling Auth `/token?grant_type=password` directly. The hook
+      must be enabled under Authentication → Hooks → Password Verification
+      Attempt; without it accounts never lock
+    - `begin_sign_in_attempt(...)`: checks the per-IP backoff and records the
+      attempt as failed under an advisory lock on the IP, so parallel requests
+      see each other. Returns `retry_after` (seconds) when throttled, otherwise
+      the new `attempt_id`, which the `sign-in` function marks as succeeded
+*/
+
+CREATE OR REPLACE FUNCTION public.record_sign_in_result(p_user_id uuid, p_succeeded boolean)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_max_attempts integer := coalesce(nullif(current_setting('app.login_max_failed_attempts', true), '')::integer, 5);
+  v_lockout_minutes integer := coalesce(nullif(current_setting('app.login_lockout_minutes', true), '')::integer, 15);
+  v_locked_until timestamptz;
+BEGIN
+  IF p_succeeded THEN
+    UPDATE public.users
+    SET failed_login_attempts = 0, locked_until = NULL
+    WHERE id = p_user_id
+      AND (failed_login_attempts > 0 OR locked_until IS NOT NULL);
+    RETURN NULL;
+  END IF;
+
+  -- Reaching the limit locks the account and starts the count over
+  UPDATE public.users
+  SET
+    failed_login_attempts = CASE
+      WHEN failed_login_attempts + 1 >= v_max_attempts THEN 0
+      ELSE failed_login_attempts + 1
+    END,
+    locked_until = CASE
+      WHEN failed_login_attempts + 1 >= v_max_attempts THEN now() + make_interval(mins => v_lockout_minutes)
+      ELSE locked_until
+    END
+  WHERE id = p_user_id
+  RETURNING locked_until INTO v_locked_until;
+
+  RETURN CASE WHEN v_locked_until > now() THEN v_locked_until END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.hook_password_verification_attempt(event jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = (event->>'user_id')::uuid
+      AND locked_until > now()
+  ) THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', 'Account temporarily locked due to too many failed sign-in attempts',
+      'should_logout_user', false
+    );
+  END IF;
+
+  PERFORM public.record_sign_in_result((event->>'user_id')::uuid, coalesce((event->>'valid')::boolean, false));
+
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.begin_sign_in_attempt(
+  p_email text,
+  p_user_id uuid,
+  p_ip_address text,
+  p_user_agent text,
+  p_free_attempts integer,
+  p_window_minutes integer,
+  p_max_backoff_seconds integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_failures integer := 0;
+  v_last_failure timestamptz;
+  v_retry_at timestamptz;
+  v_attempt_id uuid;
+BEGIN
+  IF p_ip_address IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('sign_in_attempt:' || p_ip_address));
+
+    SELECT count(*), max(created_at)
+    INTO v_failures, v_last_failure
+    FROM public.login_attempts
+    WHERE ip_address = p_ip_address
+      AND succeeded = false
+      AND created_at >= now() - make_interval(mins => p_window_minutes);
+
+    -- Exponential backoff: 1s, 2s, 4s, ... after the free attempts are used up
+    IF v_failures >= p_free_attempts THEN
+      v_retry_at := v_last_failure + make_interval(
+        secs => least(power(2, least(v_failures - p_free_attempts, 30)), p_max_backoff_seconds)
+      );
+      IF v_retry_at > now() THEN
+        RETURN jsonb_build_object('retry_after', ceil(extract(epoch FROM v_retry_at - now()))::integer);
+      END IF;
+    END IF;
+  END IF;
+
+  INSERT INTO public.login_attempts (email, user_id, ip_address, user_agent, succeeded)
+  VALUES (p_email, p_user_id, p_ip_address, p_user_agent, false)
+  RETURNING id INTO v_attempt_id;
+
+  RETURN jsonb_build_object('attempt_id', v_attempt_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.hook_password_verification_attempt(jsonb) TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION public.record_sign_in_result(uuid, boolean) TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION public.hook_password_verification_attempt(jsonb) FROM authenticated, anon, public;
+REVOKE EXECUTE ON FUNCTION public.record_sign_in_result(uuid, boolean) FROM authenticated, anon, public;
+REVOKE EXECUTE ON FUNCTION public.begin_sign_in_attempt(text, uuid, text, text, integer, integer, integer) FROM authenticated, anon, public;
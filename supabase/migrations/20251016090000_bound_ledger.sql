@@ -0,0 +1,108 @@
+/*
+  # Access requests per organization
+
+  1. Schema Changes
+    - `access_requests.organization_id` (uuid, references `organizations`)
+      - The organization the requester worked in when asking. Only approvers
+        working in the same organization see and review the request, and the
+        admin dashboard counts pending requests per organization
+      - Existing requests take the role's organization, else the requester's
+        selected organization, else the first organization they joined.
+        Requests of users in no organization keep a null and appear in no queue
+    - A user may have one pending request per role and organization
+
+  2. Functions
+    - `approve_access_request(p_request_id, p_reviewer_id, p_note,
+      p_organization_id)`: replaces the three-argument version and answers
+      `P0002` for requests of another organization
+*/
+
+ALTER TABLE public.access_requests
+ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+UPDATE public.access_requests ar
+SET organization_id = coalesce(
+  r.organization_id,
+  u.active_organization_id,
+  (
+    SELECT om.organization_id
+    FROM public.organization_members om
+    WHERE om.user_id = ar.user_id
+    ORDER BY om.created_at
+    LIMIT 1
+  )
+)
+FROM public.roles r, public.users u
+WHERE r.id = ar.role_id
+  AND u.id = ar.user_id
+  AND ar.organization_id IS NULL;
+
+DROP INDEX IF EXISTS public.idx_access_requests_pending;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_access_requests_pending
+ON public.access_requests (user_id, role_id, organization_id)
+WHERE status = 'pending';
+
+DROP INDEX IF EXISTS public.idx_access_requests_status;
+CREATE INDEX IF NOT EXISTS idx_access_requests_organization_status
+ON public.access_requests (organization_id, status, created_at DESC);
+
+DROP FUNCTION IF EXISTS public.approve_access_request(uuid, uuid, text);
+
+CREATE OR REPLACE FUNCTION public.approve_access_request(
+  p_request_id uuid,
+  p_reviewer_id uuid,
+  p_note text,
+  p_organization_id uuid
+)
+RETURNS public.access_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.access_requests;
+  grant_until timestamptz;
+BEGIN
+  SELECT * INTO request
+  FROM public.access_requests
+  WHERE id = p_request_id
+    AND organization_id = p_organization_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Access request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Access request has already been %', request.status USING ERRCODE = '55000';
+  END IF;
+
+  IF request.user_id = p_reviewer_id THEN
+    RAISE EXCEPTION 'You cannot approve your own request' USING ERRCODE = '42501';
+  END IF;
+
+  grant_until := now() + make_interval(hours => request.duration_hours);
+
+  INSERT INTO public.user_roles (user_id, role_id, valid_from, valid_until)
+  VALUES (request.user_id, request.role_id, NULL, grant_until)
+  ON CONFLICT (user_id, role_id) DO UPDATE
+  SET valid_from = NULL,
+      valid_until = GREATEST(user_roles.valid_until, EXCLUDED.valid_until)
+  WHERE user_roles.valid_until IS NOT NULL;
+
+  UPDATE public.access_requests
+  SET
+    status = 'approved',
+    reviewed_by = p_reviewer_id,
+    reviewed_at = now(),
+    review_note = p_note,
+    valid_until = grant_until
+  WHERE id = p_request_id
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.approve_access_request(uuid, uuid, text, uuid) FROM authenticated, anon, public;
+GRANT EXECUTE ON FUNCTION public.approve_access_request(uuid, uuid, text, uuid) TO service_role;
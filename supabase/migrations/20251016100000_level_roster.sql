@@ -0,0 +1,184 @@
+/*
+  # User departments
+
+  1. Schema Changes
+    - `users.department` (text, nullable)
+      - The team or department a user works in, such as "Finance". Permission
+        conditions see it as `user.department` for the caller and
+        `resource.department` for a user being acted on, so a grant like
+        `users:read` can be limited to the caller's own department
+
+  2. Functions
+    - `admin_create_user_profile` and `admin_update_user` take
+      `p_department`; on update null keeps the department and an empty string
+      clears it
+*/
+
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS department text;
+
+DROP FUNCTION IF EXISTS public.admin_create_user_profile(uuid, text, text, uuid[], jsonb, jsonb, jsonb, jsonb, uuid);
+DROP FUNCTION IF EXISTS public.admin_update_user(uuid, uuid[], text, jsonb, jsonb, jsonb, boolean, boolean, jsonb, uuid);
+
+CREATE OR REPLACE FUNCTION public.admin_create_user_profile(
+  p_user_id uuid,
+  p_email text,
+  p_full_name text,
+  p_role_ids uuid[],
+  p_menu_access jsonb DEFAULT '[]'::jsonb,
+  p_sub_menu_access jsonb DEFAULT '{}'::jsonb,
+  p_component_access jsonb DEFAULT '[]'::jsonb,
+  p_role_assignments jsonb DEFAULT NULL,
+  p_organization_id uuid DEFAULT NULL,
+  p_department text DEFAULT NULL
+)
+RETURNS public.users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_user public.users;
+BEGIN
+  IF p_role_ids IS NULL OR cardinality(p_role_ids) = 0 THEN
+    RAISE EXCEPTION 'At least one role must be assigned' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_organization_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.roles r
+    WHERE r.id = ANY (p_role_ids)
+      AND r.organization_id IS NOT NULL
+      AND r.organization_id <> p_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Roles must be global or belong to the organization' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.users (id, email, full_name, menu_access, sub_menu_access, component_access, needs_password_reset, active_organization_id, department)
+  VALUES (
+    p_user_id,
+    p_email,
+    COALESCE(p_full_name, ''),
+    COALESCE(p_menu_access, '[]'::jsonb),
+    COALESCE(p_sub_menu_access, '{}'::jsonb),
+    COALESCE(p_component_access, '[]'::jsonb),
+    true,
+    p_organization_id,
+    nullif(btrim(p_department), '')
+  )
+  RETURNING * INTO new_user;
+
+  IF p_organization_id IS NOT NULL THEN
+    INSERT INTO public.organization_members (organization_id, user_id)
+    VALUES (p_organization_id, p_user_id);
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, role_id, valid_from, valid_until)
+  SELECT
+    p_user_id,
+    role_id,
+    (assignment.value->>'valid_from')::timestamptz,
+    (assignment.value->>'valid_until')::timestamptz
+  FROM unnest(p_role_ids) AS role_id
+  LEFT JOIN LATERAL (
+    SELECT value
+    FROM jsonb_array_elements(COALESCE(p_role_assignments, '[]'::jsonb))
+    WHERE value->>'role_id' = role_id::text
+    LIMIT 1
+  ) assignment ON true
+  ON CONFLICT (user_id, role_id) DO NOTHING;
+
+  RETURN new_user;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_update_user(
+  p_user_id uuid,
+  p_role_ids uuid[],
+  p_full_name text DEFAULT NULL,
+  p_menu_access jsonb DEFAULT NULL,
+  p_sub_menu_access jsonb DEFAULT NULL,
+  p_component_access jsonb DEFAULT NULL,
+  p_is_active boolean DEFAULT NULL,
+  p_needs_password_reset boolean DEFAULT NULL,
+  p_role_assignments jsonb DEFAULT NULL,
+  p_organization_id uuid DEFAULT NULL,
+  p_department text DEFAULT NULL
+)
+RETURNS public.users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_user public.users;
+BEGIN
+  IF p_role_ids IS NULL OR cardinality(p_role_ids) = 0 THEN
+    RAISE EXCEPTION 'At least one role must be assigned' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_organization_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.roles r
+    WHERE r.id = ANY (p_role_ids)
+      AND r.organization_id IS NOT NULL
+      AND r.organization_id <> p_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Roles must be global or belong to the organization' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.users
+  SET
+    full_name = COALESCE(p_full_name, full_name),
+    menu_access = COALESCE(p_menu_access, menu_access),
+    sub_menu_access = COALESCE(p_sub_menu_access, sub_menu_access),
+    component_access = COALESCE(p_component_access, component_access),
+    is_active = COALESCE(p_is_active, is_active),
+    needs_password_reset = COALESCE(p_needs_password_reset, needs_password_reset),
+    -- An empty string clears the department
+    department = CASE WHEN p_department IS NULL THEN department ELSE nullif(btrim(p_department), '') END,
+    updated_at = now()
+  WHERE id = p_user_id
+  RETURNING * INTO updated_user;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Keep rows for roles the user retains and only touch the ones that changed;
+  -- roles of the user's other organizations are left alone
+  DELETE FROM public.user_roles ur
+  WHERE ur.user_id = p_user_id
+    AND ur.role_id <> ALL (p_role_ids)
+    AND (
+      p_organization_id IS NULL OR EXISTS (
+        SELECT 1 FROM public.roles r
+        WHERE r.id = ur.role_id
+          AND (r.organization_id IS NULL OR r.organization_id = p_organization_id)
+      )
+    );
+
+  INSERT INTO public.user_roles (user_id, role_id, valid_from, valid_until)
+  SELECT
+    p_user_id,
+    role_id,
+    (assignment.value->>'valid_from')::timestamptz,
+    (assignment.value->>'valid_until')::timestamptz
+  FROM unnest(p_role_ids) AS role_id
+  LEFT JOIN LATERAL (
+    SELECT value
+    FROM jsonb_array_elements(COALESCE(p_role_assignments, '[]'::jsonb))
+    WHERE value->>'role_id' = role_id::text
+    LIMIT 1
+  ) assignment ON true
+  ON CONFLICT (user_id, role_id) DO UPDATE
+  SET valid_from = EXCLUDED.valid_from,
+      valid_until = EXCLUDED.valid_until
+  WHERE p_role_assignments IS NOT NULL;
+
+  RETURN updated_user;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_create_user_profile(uuid, text, text, uuid[], jsonb, jsonb, jsonb, jsonb, uuid, text) FROM authenticated, anon, public;
+REVOKE EXECUTE ON FUNCTION public.admin_update_user(uuid, uuid[], text, jsonb, jsonb, jsonb, boolean, boolean, jsonb, uuid, text) FROM authenticated, anon, public;
+GRANT EXECUTE ON FUNCTION public.admin_create_user_profile(uuid, text, text, uuid[], jsonb, jsonb, jsonb, jsonb, uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.admin_update_user(uuid, uuid[], text, jsonb, jsonb, jsonb, boolean, boolean, jsonb, uuid, text) TO service_role;
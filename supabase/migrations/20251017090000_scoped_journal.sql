@@ -0,0 +1,66 @@
+/*
+  # Audit events per organization
+
+  1. Schema Changes
+    - `audit_events.organization_id` (uuid, references `organizations`)
+      - The organization the change was made in. The audit log and the
+        dashboard activity only show events of the caller's organization;
+        events without one (permissions, settings and global roles) are shown
+        to admins only
+      - Existing events take the organization of their target: the role's,
+        group's or access request's, and for users the actor's selected
+        organization when the user belongs to it, else the user's first one
+      - Deleting an organization keeps its events; they lose the organization
+        and from then on only admins see them
+
+  2. Indexes
+    - Organization and creation date, used by the audit log and activity feed
+*/
+
+ALTER TABLE public.audit_events
+ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+UPDATE public.audit_events ae
+SET organization_id = r.organization_id
+FROM public.roles r
+WHERE ae.target_type = 'role'
+  AND r.id::text = ae.target_id
+  AND ae.organization_id IS NULL;
+
+UPDATE public.audit_events ae
+SET organization_id = g.organization_id
+FROM public.groups g
+WHERE ae.target_type = 'group'
+  AND g.id::text = ae.target_id
+  AND ae.organization_id IS NULL;
+
+UPDATE public.audit_events ae
+SET organization_id = ar.organization_id
+FROM public.access_requests ar
+WHERE ae.target_type = 'access_request'
+  AND ar.id::text = ae.target_id
+  AND ae.organization_id IS NULL;
+
+UPDATE public.audit_events ae
+SET organization_id = coalesce(
+  (
+    SELECT actor.active_organization_id
+    FROM public.users actor
+    JOIN public.organization_members om
+      ON om.organization_id = actor.active_organization_id
+     AND om.user_id::text = ae.target_id
+    WHERE actor.id = ae.actor_id
+  ),
+  (
+    SELECT om.organization_id
+    FROM public.organization_members om
+    WHERE om.user_id::text = ae.target_id
+    ORDER BY om.created_at
+    LIMIT 1
+  )
+)
+WHERE ae.target_type = 'user'
+  AND ae.organization_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_organization_created_at
+ON public.audit_events (organization_id, created_at DESC);
@@ -0,0 +1,107 @@
+/*
+  # Admin policies per organization
+
+  1. Functions
+    - `is_admin(uid)`: reads the `admin` role from `user_roles`, counting only
+      assignments within their validity window. It still read the
+      `users.role_id` column removed when users could hold several roles
+
+  2. Security
+    - `users`: "Admin users can manage all users" becomes "Admins can manage
+      members of their organizations"; admins only reach users who share one
+      of their organizations
+    - `user_roles`: "Admin users can manage all role assignments" becomes
+      "Admins can manage role assignments in their organizations"; the user
+      must share one of the admin's organizations and the role must be global
+      or belong to one of them
+    - `organization_members`: admins read the memberships of their
+      organizations, which the policies above rely on
+*/
+
+CREATE OR REPLACE FUNCTION public.is_admin(uid uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.roles r ON r.id = ur.role_id
+    WHERE ur.user_id = uid
+      AND r.name = 'admin'
+      AND r.organization_id IS NULL
+      AND (ur.valid_from IS NULL OR ur.valid_from <= now())
+      AND (ur.valid_until IS NULL OR ur.valid_until > now())
+  );
+$$;
+
+DROP POLICY IF EXISTS "Admins can read memberships of their organizations" ON public.organization_members;
+CREATE POLICY "Admins can read memberships of their organizations"
+  ON public.organization_members
+  FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()) AND is_organization_member(organization_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Admin users can manage all users" ON public.users;
+DROP POLICY IF EXISTS "Admins can manage members of their organizations" ON public.users;
+CREATE POLICY "Admins can manage members of their organizations"
+  ON public.users
+  FOR ALL
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    AND EXISTS (
+      SELECT 1
+      FROM public.organization_members om
+      WHERE om.user_id = users.id
+        AND is_organization_member(om.organization_id, auth.uid())
+    )
+  )
+  WITH CHECK (
+    is_admin(auth.uid())
+    AND EXISTS (
+      SELECT 1
+      FROM public.organization_members om
+      WHERE om.user_id = users.id
+        AND is_organization_member(om.organization_id, auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Admin users can manage all role assignments" ON public.user_roles;
+DROP POLICY IF EXISTS "Admins can manage role assignments in their organizations" ON public.user_roles;
+CREATE POLICY "Admins can manage role assignments in their organizations"
+  ON public.user_roles
+  FOR ALL
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    AND EXISTS (
+      SELECT 1
+      FROM public.organization_members om
+      WHERE om.user_id = user_roles.user_id
+        AND is_organization_member(om.organization_id, auth.uid())
+    )
+    AND EXISTS (
+      SELECT 1
+      FROM public.roles r
+      WHERE r.id = user_roles.role_id
+        AND (r.organization_id IS NULL OR is_organization_member(r.organization_id, auth.uid()))
+    )
+  )
+  WITH CHECK (
+    is_admin(auth.uid())
+    AND EXISTS (
+      SELECT 1
+      FROM public.organization_members om
+      WHERE om.user_id = user_roles.user_id
+        AND is_organization_member(om.organization_id, auth.uid())
+    )
+    AND EXISTS (
+      SELECT 1
+      FROM public.roles r
+      WHERE r.id = user_roles.role_id
+        AND (r.organization_id IS NULL OR is_organization_member(r.organization_id, auth.uid()))
+    )
+  );
@@ -0,0 +1,158 @@
+/*
+  # Organization membership checks for the caller only
+
+  1. Functions
+    - `is_organization_member(p_organization_id, p_user_id)` is no longer
+      executable by `anon` and `authenticated`. Called through the API it told
+      anyone whether any user belongs to any organization; only the service
+      role keeps it
+    - `is_member_of_organization(p_organization_id)` replaces it in policies.
+      It only checks the signed-in user, whose memberships they can already
+      read, and runs as its owner so policies on `organization_members` don't
+      recurse
+
+  2. Security
+    - Policies on `organizations`, `organization_members`, `users`, `roles`,
+      `role_permissions`, `user_roles`, `groups` and `group_roles` call
+      `is_member_of_organization(…)` instead of
+      `is_organization_member(…, auth.uid())` and grant the same access
+*/
+
+CREATE OR REPLACE FUNCTION public.is_member_of_organization(p_organization_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_member_of_organization(uuid) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.is_member_of_organization(uuid) TO authenticated, service_role;
+
+DROP POLICY IF EXISTS "Members can read their organizations" ON public.organizations;
+CREATE POLICY "Members can read their organizations"
+  ON public.organizations
+  FOR SELECT
+  TO authenticated
+  USING (is_member_of_organization(id));
+
+DROP POLICY IF EXISTS "Admins can read memberships of their organizations" ON public.organization_members;
+CREATE POLICY "Admins can read memberships of their organizations"
+  ON public.organization_members
+  FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()) AND is_member_of_organization(organization_id));
+
+DROP POLICY IF EXISTS "Users can read roles" ON public.roles;
+CREATE POLICY "Users can read roles"
+  ON public.roles
+  FOR SELECT
+  TO authenticated
+  USING (organization_id IS NULL OR is_member_of_organization(organization_id));
+
+DROP POLICY IF EXISTS "Users can read role permissions" ON public.role_permissions;
+CREATE POLICY "Users can read role permissions"
+  ON public.role_permissions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.roles r
+      WHERE r.id = role_id
+        AND (r.organization_id IS NULL OR is_member_of_organization(r.organization_id))
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can read their organization's groups" ON public.groups;
+CREATE POLICY "Members can read their organization's groups"
+  ON public.groups
+  FOR SELECT
+  TO authenticated
+  USING (is_member_of_organization(organization_id));
+
+DROP POLICY IF EXISTS "Members can read their organization's group roles" ON public.group_roles;
+CREATE POLICY "Members can read their organization's group roles"
+  ON public.group_roles
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.groups g
+      WHERE g.id = group_id
+        AND is_member_of_organization(g.organization_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage members of their organizations" ON public.users;
+CREATE POLICY "Admins can manage members of their organizations"
+  ON public.users
+  FOR ALL
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    AND EXISTS (
+      SELECT 1
+      FROM public.organization_members om
+      WHERE om.user_id = users.id
+        AND is_member_of_organization(om.organization_id)
+    )
+  )
+  WITH CHECK (
+    is_admin(auth.uid())
+    AND EXISTS (
+      SELECT 1
+      FROM public.organization_members om
+      WHERE om.user_id = users.id
+        AND is_member_of_organization(om.organization_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage role assignments in their organizations" ON public.user_roles;
+CREATE POLICY "Admins can manage role assignments in their organizations"
+  ON public.user_roles
+  FOR ALL
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    AND EXISTS (
+      SELECT 1
+      FROM public.organization_members om
+      WHERE om.user_id = user_roles.user_id
+        AND is_member_of_organization(om.organization_id)
+    )
+    AND EXISTS (
+      SELECT 1
+      FROM public.roles r
+      WHERE r.id = user_roles.role_id
+        AND (r.organization_id IS NULL OR is_member_of_organization(r.organization_id))
+    )
+  )
+  WITH CHECK (
+    is_admin(auth.uid())
+    AND EXISTS (
+      SELECT 1
+      FROM public.organization_members om
+      WHERE om.user_id = user_roles.user_id
+        AND is_member_of_organization(om.organization_id)
+    )
+    AND EXISTS (
+      SELECT 1
+      FROM public.roles r
+      WHERE r.id = user_roles.role_id
+        AND (r.organization_id IS NULL OR is_member_of_organization(r.organization_id))
+    )
+  );
+
+ALTER FUNCTION public.is_organization_member(uuid, uuid) SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.is_organization_member(uuid, uuid) FROM authenticated, anon, public;
+GRANT EXECUTE ON FUNCTION public.is_organization_member(uuid, uuid) TO service_role;